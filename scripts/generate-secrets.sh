@@ -18,6 +18,7 @@ echo "  - These secrets should be different"
 echo "  - Store them securely in your deployment platform"
 echo "  - Never commit them to version control"
 echo "  - Changing them will invalidate all existing tokens"
+echo "  - For RS256/ES256 signing with key rotation, use npm run keys:init instead"
 echo ""
 
 echo "📋 Copy these to your Render environment variables:"
@@ -0,0 +1,135 @@
+import fs from 'fs';
+import path from 'path';
+import { JWT_KEY_ALGORITHMS, JWTKeyAlgorithm, JWTKeySet, JWTKeyStore } from '../src/utils/jwtKeys';
+
+/**
+ * Manage the key set that signs JWTs.
+ *
+ *   init [--alg RS256|ES256|EdDSA]   Create a key set with a current key and a next key
+ *   rotate [--alg RS256|ES256|EdDSA] Retire the current key, promote the next key and generate a new next key
+ *   prune [--days 8]                 Drop keys retired more than --days ago (keep this above JWT_REFRESH_EXPIRES_IN)
+ *   env                              Print the key set on one line, for the JWT_KEYS environment variable
+ *
+ * The file is JWT_KEYS_FILE, or keys/jwt-keys.json, unless --file is given.
+ * Run rotate once the next key has been published at /.well-known/jwks.json for longer than verifiers cache it.
+ */
+
+const DEFAULT_FILE = 'keys/jwt-keys.json';
+
+const getOption = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const getAlgorithm = (): JWTKeyAlgorithm => {
+  const alg = getOption('alg') ?? 'RS256';
+
+  if (!JWT_KEY_ALGORITHMS.includes(alg as JWTKeyAlgorithm)) {
+    throw new Error(`Unsupported algorithm ${alg}; use one of ${JWT_KEY_ALGORITHMS.join(', ')}`);
+  }
+
+  return alg as JWTKeyAlgorithm;
+};
+
+const readKeySet = (file: string): JWTKeySet => {
+  if (!fs.existsSync(file)) {
+    throw new Error(`${file} does not exist; run init first`);
+  }
+
+  return JWTKeyStore.parseKeySet(fs.readFileSync(file, 'utf8'));
+};
+
+const writeKeySet = (file: string, keySet: JWTKeySet): void => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  // Private keys: readable by the owner only
+  fs.writeFileSync(file, `${JSON.stringify(keySet, null, 2)}\n`, { mode: 0o600 });
+};
+
+const describe = (keySet: JWTKeySet): void => {
+  for (const key of keySet.keys) {
+    console.log(`  ${key.kid}  ${key.alg}  ${key.status}${key.retiredAt ? ` since ${key.retiredAt}` : ''}`);
+  }
+};
+
+const init = (file: string): void => {
+  if (fs.existsSync(file)) {
+    throw new Error(`${file} already exists; use rotate to replace the signing key`);
+  }
+
+  const alg = getAlgorithm();
+  const keySet: JWTKeySet = {
+    keys: [JWTKeyStore.generateKey(alg, 'current'), JWTKeyStore.generateKey(alg, 'next')],
+  };
+
+  writeKeySet(file, keySet);
+  console.log(`Created ${file}:`);
+  describe(keySet);
+};
+
+const rotate = (file: string): void => {
+  const keySet = readKeySet(file);
+  const current = keySet.keys.find(key => key.status === 'current');
+  const next = keySet.keys.find(key => key.status === 'next');
+  const alg = getOption('alg') ? getAlgorithm() : (next ?? current)?.alg ?? 'RS256';
+
+  if (current) {
+    current.status = 'retired';
+    current.retiredAt = new Date().toISOString();
+  }
+
+  if (next) {
+    next.status = 'current';
+  } else {
+    console.warn('No next key was published; verifiers only learn the new key when they reload the JWKS');
+    keySet.keys.push(JWTKeyStore.generateKey(alg, 'current'));
+  }
+
+  keySet.keys.push(JWTKeyStore.generateKey(alg, 'next'));
+
+  writeKeySet(file, keySet);
+  console.log(`Rotated ${file}:`);
+  describe(keySet);
+};
+
+const prune = (file: string): void => {
+  const keySet = readKeySet(file);
+  const days = parseInt(getOption('days') ?? '8', 10);
+  const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+
+  const kept = keySet.keys.filter(key => key.status !== 'retired' || !key.retiredAt || Date.parse(key.retiredAt) > cutoff);
+  const removed = keySet.keys.length - kept.length;
+
+  writeKeySet(file, { keys: kept });
+  console.log(`Removed ${removed} key(s) retired more than ${days} days ago from ${file}:`);
+  describe({ keys: kept });
+};
+
+const main = (): void => {
+  const command = process.argv[2];
+  const file = getOption('file') ?? process.env.JWT_KEYS_FILE ?? DEFAULT_FILE;
+
+  switch (command) {
+    case 'init':
+      init(file);
+      break;
+    case 'rotate':
+      rotate(file);
+      break;
+    case 'prune':
+      prune(file);
+      break;
+    case 'env':
+      console.log(JSON.stringify(readKeySet(file)));
+      break;
+    default:
+      console.log('Usage: ts-node scripts/jwt-keys.ts <init|rotate|prune|env> [--file path] [--alg RS256|ES256|EdDSA] [--days 8]');
+      process.exit(command ? 1 : 0);
+  }
+};
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
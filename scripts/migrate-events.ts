@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { config } from '../src/config/config';
+import { logger } from '../src/config/logger';
+
+/**
+ * Move a database created before events existed onto the event-scoped schema.
+ *
+ * Run once before `npm run db:push` (or `db:migrate`) on such a database:
+ *   1. creates the events table and the default event (DEFAULT_EVENT_SLUG / DEFAULT_EVENT_NAME)
+ *   2. adds submissions."eventId" as a nullable column and points every existing submission at the default event
+ *   3. does the same for team_members, from the submission each member belongs to
+ *   4. only then makes the columns NOT NULL and swaps the unique index on email for one on (eventId, email)
+ *
+ * Every step checks what is already there, so running it again, or on a fresh database, changes nothing.
+ */
+
+const prisma = new PrismaClient();
+
+async function tableExists(tx: Pick<PrismaClient, '$queryRaw'>, table: string): Promise<boolean> {
+  const rows = await tx.$queryRaw<{ exists: boolean }[]>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.tables
+      WHERE table_schema = current_schema() AND table_name = ${table}
+    ) AS "exists"
+  `;
+
+  return rows[0]?.exists ?? false;
+}
+
+async function migrateEvents() {
+  await prisma.$transaction(async (tx) => {
+    if (!(await tableExists(tx, 'submissions'))) {
+      logger.info('No submissions table; nothing to migrate, db:push creates the schema');
+      return;
+    }
+
+    await tx.$executeRawUnsafe(`
+      DO $$ BEGIN
+        CREATE TYPE "EventStatus" AS ENUM ('DRAFT', 'OPEN', 'CLOSED', 'ARCHIVED');
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$;
+    `);
+
+    await tx.$executeRawUnsafe(`
+      CREATE TABLE IF NOT EXISTS "events" (
+        "id" TEXT NOT NULL,
+        "name" TEXT NOT NULL,
+        "slug" TEXT NOT NULL,
+        "description" TEXT,
+        "submissionOpensAt" TIMESTAMP(3),
+        "submissionClosesAt" TIMESTAMP(3),
+        "gracePeriodMinutes" INTEGER,
+        "status" "EventStatus" NOT NULL DEFAULT 'DRAFT',
+        "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        "updatedAt" TIMESTAMP(3) NOT NULL,
+        CONSTRAINT "events_pkey" PRIMARY KEY ("id")
+      )
+    `);
+    await tx.$executeRawUnsafe(`CREATE UNIQUE INDEX IF NOT EXISTS "events_slug_key" ON "events"("slug")`);
+
+    // Existing submissions belong to the default event, which stays open as before
+    await tx.$executeRaw`
+      INSERT INTO "events" ("id", "name", "slug", "status", "updatedAt")
+      VALUES (${crypto.randomUUID()}, ${config.events.defaultName}, ${config.events.defaultSlug}, 'OPEN', CURRENT_TIMESTAMP)
+      ON CONFLICT ("slug") DO NOTHING
+    `;
+    const [event] = await tx.$queryRaw<{ id: string }[]>`
+      SELECT "id" FROM "events" WHERE "slug" = ${config.events.defaultSlug}
+    `;
+
+    await tx.$executeRawUnsafe(`ALTER TABLE "submissions" ADD COLUMN IF NOT EXISTS "eventId" TEXT`);
+    const submissions = await tx.$executeRaw`
+      UPDATE "submissions" SET "eventId" = ${event.id} WHERE "eventId" IS NULL
+    `;
+
+    let members = 0;
+    const hasTeamMembers = await tableExists(tx, 'team_members');
+
+    if (hasTeamMembers) {
+      await tx.$executeRawUnsafe(`ALTER TABLE "team_members" ADD COLUMN IF NOT EXISTS "eventId" TEXT`);
+      members = await tx.$executeRawUnsafe(`
+        UPDATE "team_members" AS m SET "eventId" = s."eventId"
+        FROM "submissions" AS s
+        WHERE m."submissionId" = s."id" AND m."eventId" IS NULL
+      `);
+    }
+
+    // Every row has an event now, so the constraints can be added
+    await tx.$executeRawUnsafe(`ALTER TABLE "submissions" ALTER COLUMN "eventId" SET NOT NULL`);
+    await tx.$executeRawUnsafe(`DROP INDEX IF EXISTS "submissions_email_key"`);
+    await tx.$executeRawUnsafe(`CREATE UNIQUE INDEX IF NOT EXISTS "submissions_eventId_email_key" ON "submissions"("eventId", "email")`);
+    await tx.$executeRawUnsafe(`
+      DO $$ BEGIN
+        ALTER TABLE "submissions" ADD CONSTRAINT "submissions_eventId_fkey"
+          FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$;
+    `);
+
+    if (hasTeamMembers) {
+      await tx.$executeRawUnsafe(`ALTER TABLE "team_members" ALTER COLUMN "eventId" SET NOT NULL`);
+      await tx.$executeRawUnsafe(`CREATE UNIQUE INDEX IF NOT EXISTS "team_members_eventId_email_key" ON "team_members"("eventId", "email")`);
+      await tx.$executeRawUnsafe(`
+        DO $$ BEGIN
+          ALTER TABLE "team_members" ADD CONSTRAINT "team_members_eventId_fkey"
+            FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+        EXCEPTION WHEN duplicate_object THEN NULL;
+        END $$;
+      `);
+    }
+
+    logger.info('✅ Existing data moved onto events', {
+      eventSlug: config.events.defaultSlug,
+      submissions,
+      teamMembers: members,
+    });
+  });
+}
+
+if (require.main === module) {
+  migrateEvents()
+    .then(async () => {
+      await prisma.$disconnect();
+      process.exit(0);
+    })
+    .catch(async (error) => {
+      logger.error('Event migration failed:', error);
+      await prisma.$disconnect();
+      process.exit(1);
+    });
+}
+
+export { migrateEvents };
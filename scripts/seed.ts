@@ -2,9 +2,43 @@ import { PrismaClient, AuditAction } from '@prisma/client';
 import { PasswordUtils } from '../src/utils/password';
 import { config } from '../src/config/config';
 import { logger } from '../src/config/logger';
+import { SYSTEM_ROLES } from '../src/utils/permissions';
 
 const prisma = new PrismaClient();
 
+async function seedRoles() {
+  try {
+    logger.info('Starting role seeding...');
+
+    for (const [name, role] of Object.entries(SYSTEM_ROLES)) {
+      const existingRole = await prisma.role.findUnique({
+        where: { name }
+      });
+
+      // Keep permissions that were customised after the first seed
+      if (existingRole) {
+        logger.info(`Role already exists: ${name}`);
+        continue;
+      }
+
+      await prisma.role.create({
+        data: {
+          name,
+          description: role.description,
+          permissions: role.permissions,
+          isSystem: true,
+        }
+      });
+
+      logger.info(`✅ Role created: ${name}`);
+    }
+
+  } catch (error) {
+    logger.error('❌ Error seeding roles:', error);
+    throw error;
+  }
+}
+
 async function seedAdmin() {
   try {
     logger.info('Starting admin user seeding...');
@@ -16,6 +50,19 @@ async function seedAdmin() {
 
     if (existingAdmin) {
       logger.info(`Admin user already exists with email: ${config.admin.email}`);
+
+      // Databases seeded before roles existed have no superadmin yet
+      const superadminCount = await prisma.admin.count({
+        where: { role: 'superadmin' }
+      });
+
+      if (superadminCount === 0) {
+        await prisma.admin.update({
+          where: { id: existingAdmin.id },
+          data: { role: 'superadmin' }
+        });
+        logger.info(`✅ Admin user promoted to superadmin: ${existingAdmin.email}`);
+      }
       return;
     }
 
@@ -28,7 +75,7 @@ async function seedAdmin() {
         email: config.admin.email,
         password: hashedPassword,
         name: config.admin.name,
-        role: 'admin',
+        role: 'superadmin',
         isActive: true,
       }
     });
@@ -63,6 +110,46 @@ async function seedAdmin() {
   } catch (error) {
     logger.error('❌ Error seeding admin user:', error);
     throw error;
+  }
+}
+
+async function seedDefaultEvent() {
+  try {
+    logger.info('Starting default event seeding...');
+
+    const existingEvent = await prisma.event.findUnique({
+      where: { slug: config.events.defaultSlug }
+    });
+
+    if (existingEvent) {
+      logger.info(`Default event already exists with slug: ${config.events.defaultSlug}`);
+      return;
+    }
+
+    const event = await prisma.event.create({
+      data: {
+        name: config.events.defaultName,
+        slug: config.events.defaultSlug,
+        status: 'OPEN',
+      }
+    });
+
+    logger.info(`✅ Default event created successfully!`);
+    logger.info(`Name: ${event.name}`);
+    logger.info(`Slug: ${event.slug}`);
+    logger.info(`ID: ${event.id}`);
+
+  } catch (error) {
+    logger.error('❌ Error seeding default event:', error);
+    throw error;
+  }
+}
+
+async function seed() {
+  try {
+    await seedRoles();
+    await seedAdmin();
+    await seedDefaultEvent();
   } finally {
     await prisma.$disconnect();
   }
@@ -70,7 +157,7 @@ async function seedAdmin() {
 
 // Run the seed function
 if (require.main === module) {
-  seedAdmin()
+  seed()
     .then(() => {
       logger.info('Seeding completed successfully!');
       process.exit(0);
@@ -81,4 +168,5 @@ if (require.main === module) {
     });
 }
 
-export default seedAdmin;
+export { seedRoles, seedAdmin, seedDefaultEvent };
+export default seed;
@@ -17,6 +17,25 @@ export const config = {
     refreshSecret: process.env.JWT_REFRESH_SECRET || 'fallback-refresh-secret',
     expiresIn: process.env.JWT_EXPIRES_IN || '15m',
     refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
+    keys: process.env.JWT_KEYS || '', // Key set JSON; takes precedence over JWT_KEYS_FILE
+    keysFile: process.env.JWT_KEYS_FILE || '', // Without a key set, tokens are signed with HS256 and the secrets above
+    accountStatusCacheMs: parseInt(process.env.ACCOUNT_STATUS_CACHE_MS || '30000', 10), // How long a revoked token may still pass on other instances
+  },
+  
+  // Two-Factor Authentication Configuration
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || 'Open Era',
+    encryptionKey: process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || 'fallback-two-factor-key',
+    challengeExpiresIn: process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN || '5m',
+    recoveryCodeCount: parseInt(process.env.TWO_FACTOR_RECOVERY_CODE_COUNT || '10', 10),
+    requiredRoles: process.env.TWO_FACTOR_REQUIRED_ROLES?.split(',') || ['superadmin'],
+  },
+
+  // Account Lockout Configuration
+  lockout: {
+    threshold: parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '5', 10), // Failed attempts before the first lock
+    baseDurationMs: parseInt(process.env.LOGIN_LOCKOUT_BASE_MS || '60000', 10), // 1 minute, doubled for every further failure
+    maxDurationMs: parseInt(process.env.LOGIN_LOCKOUT_MAX_MS || '86400000', 10), // 24 hours
   },
   
   // Rate Limiting Configuration
@@ -25,6 +44,10 @@ export const config = {
     maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
     submissionMax: parseInt(process.env.SUBMISSION_RATE_LIMIT_MAX || '5', 10),
     submissionWindowMs: parseInt(process.env.SUBMISSION_RATE_LIMIT_WINDOW_MS || '3600000', 10), // 1 hour
+    commentMax: parseInt(process.env.COMMENT_RATE_LIMIT_MAX || '30', 10),
+    commentWindowMs: parseInt(process.env.COMMENT_RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 minutes
+    apiKeyMax: parseInt(process.env.API_KEY_RATE_LIMIT_MAX || '100', 10),
+    apiKeyWindowMs: parseInt(process.env.API_KEY_RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 minutes
   },
   
   // Security Configuration
@@ -33,6 +56,94 @@ export const config = {
     corsOrigin: process.env.CORS_ORIGIN?.split(',') || ['http://localhost:3000'],
   },
   
+  // Participant Access Configuration
+  participant: {
+    magicLinkUrl: process.env.PARTICIPANT_MAGIC_LINK_URL || 'http://localhost:3000/participant/verify',
+    magicLinkTtlMinutes: parseInt(process.env.MAGIC_LINK_TTL_MINUTES || '15', 10),
+    tokenExpiresIn: process.env.PARTICIPANT_TOKEN_EXPIRES_IN || '2h',
+  },
+  
+  // Admin Account Setup Configuration (invites and forced password resets)
+  adminSetup: {
+    url: process.env.ADMIN_SETUP_URL || 'http://localhost:3000/admin/setup',
+    tokenTtlHours: parseInt(process.env.ADMIN_SETUP_TOKEN_TTL_HOURS || '72', 10),
+  },
+  
+  // Mail Configuration
+  mail: {
+    transport: process.env.MAIL_TRANSPORT || 'console', // console, file or smtp
+    from: process.env.MAIL_FROM || 'Open Era Hackathon <no-reply@openera.com>',
+    fileDir: process.env.MAIL_FILE_DIR || 'mail-outbox',
+    smtp: {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    },
+  },
+  
+  // Notification Configuration
+  notifications: {
+    maxAttempts: parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '5', 10),
+    retryBaseDelayMs: parseInt(process.env.NOTIFICATION_RETRY_BASE_DELAY_MS || '60000', 10), // Doubles on each retry
+  },
+  
+  // Webhook Configuration
+  webhooks: {
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10),
+    retryBaseDelayMs: parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || '30000', 10), // Doubles on each retry
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+  },
+  
+  // Live Stream Configuration
+  stream: {
+    heartbeatIntervalMs: parseInt(process.env.STREAM_HEARTBEAT_INTERVAL_MS || '15000', 10),
+    replayLimit: parseInt(process.env.STREAM_REPLAY_LIMIT || '100', 10), // Max missed events sent on reconnect
+  },
+  
+  // Event Configuration
+  events: {
+    // Event used by the unscoped /api/v1/submissions routes; falls back to the latest open event
+    defaultSlug: process.env.DEFAULT_EVENT_SLUG || 'open-era',
+    defaultName: process.env.DEFAULT_EVENT_NAME || 'Open Era Hackathon',
+    // Minutes after the close time during which entries are still accepted but flagged late
+    defaultGracePeriodMinutes: parseInt(process.env.SUBMISSION_GRACE_PERIOD_MINUTES || '0', 10),
+  },
+  
+  // Trash Configuration
+  trash: {
+    retentionDays: parseInt(process.env.SUBMISSION_TRASH_RETENTION_DAYS || '30', 10),
+  },
+  
+  // Import Configuration
+  imports: {
+    maxRows: parseInt(process.env.SUBMISSION_IMPORT_MAX_ROWS || '2000', 10),
+  },
+  
+  // Team Configuration (sizes include the team leader)
+  teams: {
+    minSize: parseInt(process.env.TEAM_MIN_SIZE || '1', 10),
+    maxSize: parseInt(process.env.TEAM_MAX_SIZE || '4', 10),
+  },
+  
+  // Judging Configuration
+  judging: {
+    judgesPerSubmission: parseInt(process.env.JUDGES_PER_SUBMISSION || '3', 10),
+    // Shared mail providers are ignored when checking judge/team conflicts of interest
+    publicEmailDomains: (process.env.PUBLIC_EMAIL_DOMAINS || 'gmail.com,googlemail.com,outlook.com,hotmail.com,live.com,yahoo.com,icloud.com,proton.me,protonmail.com')
+      .split(',')
+      .map(domain => domain.trim().toLowerCase()),
+  },
+  
+  // Leaderboard Configuration
+  leaderboard: {
+    // Applied in order when normalized scores are equal
+    tieBreak: (process.env.LEADERBOARD_TIE_BREAK || 'rawScore,judgeCount,submittedAt')
+      .split(',')
+      .map(rule => rule.trim()),
+  },
+  
   // Admin Configuration
   admin: {
     email: process.env.ADMIN_EMAIL || 'admin@openera.com',
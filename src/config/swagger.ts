@@ -1,5 +1,6 @@
 import swaggerJSDoc from 'swagger-jsdoc';
 import { config } from './config';
+import { PERMISSIONS } from '../utils/permissions';
 
 const options: swaggerJSDoc.Options = {
   definition: {
@@ -52,6 +53,12 @@ const options: swaggerJSDoc.Options = {
           scheme: 'bearer',
           bearerFormat: 'JWT',
           description: 'JWT Authorization header using the Bearer scheme. Enter your JWT token (without "Bearer " prefix)'
+        },
+        apiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key',
+          description: 'API key for machine clients, created under /api/v1/api-keys. Accepted on the read endpoints that list it.'
         }
       },
       schemas: {
@@ -162,6 +169,11 @@ const options: swaggerJSDoc.Options = {
               description: 'Presentation file link (Google Drive, etc.)',
               example: 'https://drive.google.com/file/d/1234567890'
             },
+            members: {
+              type: 'array',
+              description: 'Team members, team leader first',
+              items: { $ref: '#/components/schemas/TeamMember' }
+            },
             submittedAt: {
               type: 'string',
               format: 'date-time',
@@ -216,11 +228,381 @@ const options: swaggerJSDoc.Options = {
               format: 'uri',
               description: 'Presentation file link (optional)',
               example: 'https://drive.google.com/file/d/1234567890'
+            },
+            members: {
+              type: 'array',
+              description: 'Members besides the team leader. Team size including the leader must be within TEAM_MIN_SIZE and TEAM_MAX_SIZE',
+              items: { $ref: '#/components/schemas/TeamMemberInput' }
             }
           },
           required: ['teamName', 'teamLeader', 'email']
         },
         
+        TeamMember: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              example: 'Jane Smith'
+            },
+            email: {
+              type: 'string',
+              format: 'email',
+              example: 'jane@example.com'
+            },
+            role: {
+              type: 'string',
+              enum: ['LEADER', 'MEMBER']
+            },
+            githubHandle: {
+              type: 'string',
+              nullable: true,
+              example: 'janesmith'
+            }
+          }
+        },
+        
+        Notification: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              example: 'clx1234567890'
+            },
+            template: {
+              type: 'string',
+              enum: ['submission_confirmation', 'status_changed', 'password_changed']
+            },
+            recipient: {
+              type: 'string',
+              format: 'email',
+              example: 'john@example.com'
+            },
+            subject: {
+              type: 'string',
+              example: 'We received your Open Era Hackathon submission'
+            },
+            body: {
+              type: 'string'
+            },
+            status: {
+              type: 'string',
+              enum: ['PENDING', 'SENT', 'FAILED']
+            },
+            attempts: {
+              type: 'integer',
+              example: 1
+            },
+            nextAttemptAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            lastError: {
+              type: 'string',
+              nullable: true
+            },
+            sentAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true
+            },
+            submissionId: {
+              type: 'string',
+              nullable: true
+            },
+            adminId: {
+              type: 'string',
+              nullable: true
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+        
+        Webhook: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              example: 'clx1234567890'
+            },
+            url: {
+              type: 'string',
+              format: 'uri',
+              example: 'https://bot.example.com/openera'
+            },
+            eventTypes: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: ['submission.created', 'submission.status_changed', 'submission.deleted', 'admin.login']
+              }
+            },
+            description: {
+              type: 'string',
+              nullable: true
+            },
+            isActive: {
+              type: 'boolean'
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+
+        ApiKey: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string'
+            },
+            name: {
+              type: 'string',
+              example: 'Results dashboard'
+            },
+            prefix: {
+              type: 'string',
+              example: 'oek_1a2b3c4d',
+              description: 'Start of the key, to tell keys apart'
+            },
+            scopes: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: ['submissions:read', 'scores:read', 'audit:read']
+              }
+            },
+            expiresAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            lastUsedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true
+            },
+            revokedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true
+            },
+            createdBy: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                name: { type: 'string' },
+                email: { type: 'string', format: 'email' }
+              }
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+        
+        Admin: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string'
+            },
+            email: {
+              type: 'string',
+              format: 'email'
+            },
+            name: {
+              type: 'string'
+            },
+            role: {
+              type: 'string',
+              example: 'judge'
+            },
+            isActive: {
+              type: 'boolean'
+            },
+            lastLoginAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true
+            },
+            failedLoginAttempts: {
+              type: 'integer',
+              description: 'Failed logins since the last successful login or unlock'
+            },
+            lockedUntil: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'Logins are refused until this time'
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+
+        Session: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid'
+            },
+            ipAddress: {
+              type: 'string',
+              nullable: true
+            },
+            userAgent: {
+              type: 'string',
+              nullable: true
+            },
+            browserInfo: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                name: { type: 'string' },
+                version: { type: 'string' },
+                os: { type: 'string' },
+                platform: { type: 'string' }
+              }
+            },
+            startedAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            lastUsedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Last login or token refresh'
+            },
+            expiresAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            current: {
+              type: 'boolean',
+              description: 'Whether this is the session of the calling token'
+            }
+          }
+        },
+
+        Role: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string'
+            },
+            name: {
+              type: 'string',
+              example: 'judge'
+            },
+            description: {
+              type: 'string',
+              nullable: true
+            },
+            permissions: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: [...PERMISSIONS]
+              }
+            },
+            isSystem: {
+              type: 'boolean',
+              description: 'Built-in roles cannot be deleted'
+            },
+            adminCount: {
+              type: 'integer'
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+
+        WebhookDelivery: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string'
+            },
+            eventType: {
+              type: 'string',
+              example: 'submission.created'
+            },
+            eventId: {
+              type: 'string',
+              description: 'Audit log entry the event was produced from'
+            },
+            payload: {
+              type: 'object'
+            },
+            status: {
+              type: 'string',
+              enum: ['PENDING', 'SUCCEEDED', 'FAILED']
+            },
+            attempts: {
+              type: 'integer'
+            },
+            nextAttemptAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            responseStatus: {
+              type: 'integer',
+              nullable: true
+            },
+            lastError: {
+              type: 'string',
+              nullable: true
+            },
+            deliveredAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true
+            }
+          }
+        },
+        
+        TeamMemberInput: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              minLength: 2,
+              maxLength: 100,
+              example: 'Jane Smith'
+            },
+            email: {
+              type: 'string',
+              format: 'email',
+              description: 'Must not belong to another team of the event',
+              example: 'jane@example.com'
+            },
+            githubHandle: {
+              type: 'string',
+              description: 'GitHub username (optional)',
+              example: 'janesmith'
+            }
+          },
+          required: ['name', 'email']
+        },
+        
         // Auth schemas
         LoginRequest: {
           type: 'object',
@@ -261,12 +643,39 @@ const options: swaggerJSDoc.Options = {
                 email: { type: 'string' },
                 name: { type: 'string' },
                 role: { type: 'string' },
+                permissions: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  example: ['submissions:read', 'scores:read']
+                },
                 lastLoginAt: { type: 'string', format: 'date-time' }
               }
             }
           }
         },
         
+        TwoFactorChallenge: {
+          type: 'object',
+          properties: {
+            twoFactorRequired: {
+              type: 'boolean',
+              example: true
+            },
+            enrollmentRequired: {
+              type: 'boolean',
+              description: 'The role requires two-factor authentication and the admin has not enrolled yet'
+            },
+            challengeToken: {
+              type: 'string',
+              description: 'Short-lived token for the second login step'
+            },
+            expiresIn: {
+              type: 'string',
+              example: '5m'
+            }
+          }
+        },
+        
         // Change password request
         ChangePasswordRequest: {
           type: 'object',
@@ -534,6 +943,18 @@ const options: swaggerJSDoc.Options = {
         name: 'Submissions',
         description: 'Hackathon submission management'
       },
+      {
+        name: 'Participants',
+        description: 'Magic link access for teams to view and edit their own submission'
+      },
+      {
+        name: 'Comments',
+        description: 'Reviewer feedback threads, internal or visible to the team'
+      },
+      {
+        name: 'Events',
+        description: 'Hackathon editions and event-scoped submissions'
+      },
       {
         name: 'Authentication',
         description: 'Admin authentication and authorization'
@@ -542,6 +963,30 @@ const options: swaggerJSDoc.Options = {
         name: 'Audit',
         description: 'Audit log management and tracking'
       },
+      {
+        name: 'Judging',
+        description: 'Judging rubrics and submission scores'
+      },
+      {
+        name: 'Notifications',
+        description: 'Outbound email outbox and delivery status'
+      },
+      {
+        name: 'Webhooks',
+        description: 'Signed event notifications pushed to external services'
+      },
+      {
+        name: 'API Keys',
+        description: 'Scoped keys for machine clients'
+      },
+      {
+        name: 'Admins',
+        description: 'Admin accounts, invites and access'
+      },
+      {
+        name: 'Roles',
+        description: 'Roles and the permissions they grant'
+      },
       {
         name: 'Health',
         description: 'System health and monitoring'
@@ -0,0 +1,312 @@
+import { Request, Response } from 'express';
+import { AdminService } from '../services/adminService';
+import { RequestUtils } from '../utils/request';
+import { ApiResponse, InviteAdminRequest } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+
+// Errors for actions that conflict with the current state of the account
+const CONFLICT_ERRORS = [
+  'An admin with this email already exists',
+  'You cannot deactivate your own account',
+  'Admin is already deactivated',
+  'Admin is already active',
+  'Admin is not locked',
+  'The last active superadmin cannot be deactivated',
+  'The last active superadmin cannot be given another role',
+];
+
+const getStatusCode = (error: string | undefined): number => {
+  if (error === 'Admin not found') return 404;
+  if (error === 'Role not found') return 400;
+  if (error && CONFLICT_ERRORS.includes(error)) return 409;
+  return 500;
+};
+
+export class AdminController {
+  /**
+   * List admins with filters and pagination (Admin only)
+   */
+  static getAdmins = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { page = '1', limit = '20', role, isActive, search } = req.query;
+
+    const result = await AdminService.getAdmins({
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+      role: role as string | undefined,
+      isActive: isActive === undefined ? undefined : isActive === 'true',
+      search: search as string | undefined,
+    });
+
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to retrieve admins',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Admins retrieved successfully',
+      data: result.data!.admins,
+      meta: {
+        page: result.data!.page,
+        limit: result.data!.limit,
+        total: result.data!.total,
+        totalPages: result.data!.totalPages,
+      },
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Get an admin (Admin only)
+   */
+  static getAdminById = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { id } = req.params;
+
+    const result = await AdminService.getAdminById(id);
+
+    if (!result.success) {
+      res.status(getStatusCode(result.error)).json({
+        success: false,
+        message: result.error || 'Failed to retrieve admin',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Admin retrieved successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Invite a new admin (Admin only)
+   */
+  static inviteAdmin = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const data: InviteAdminRequest = req.body;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await AdminService.inviteAdmin(data, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      res.status(getStatusCode(result.error)).json({
+        success: false,
+        message: result.error || 'Failed to invite admin',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: result.data!.setupLinkSent
+        ? 'Admin invited successfully. A setup link has been sent by email.'
+        : 'Admin invited, but the setup email could not be sent. Reset the password to send a new link.',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Deactivate an admin and revoke their sessions (Admin only)
+   */
+  static deactivateAdmin = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { id } = req.params;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await AdminService.deactivateAdmin(id, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      res.status(getStatusCode(result.error)).json({
+        success: false,
+        message: result.error || 'Failed to deactivate admin',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Admin deactivated successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Reactivate a deactivated admin (Admin only)
+   */
+  static reactivateAdmin = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { id } = req.params;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await AdminService.reactivateAdmin(id, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      res.status(getStatusCode(result.error)).json({
+        success: false,
+        message: result.error || 'Failed to reactivate admin',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Admin reactivated successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Clear the failed login count and lock of an admin (Admin only)
+   */
+  static unlockAdmin = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { id } = req.params;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await AdminService.unlockAdmin(id, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      res.status(getStatusCode(result.error)).json({
+        success: false,
+        message: result.error || 'Failed to unlock admin',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Admin unlocked successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Change the role of an admin (Admin only)
+   */
+  static changeRole = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { id } = req.params;
+    const { role } = req.body;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await AdminService.changeRole(id, role, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      res.status(getStatusCode(result.error)).json({
+        success: false,
+        message: result.error || 'Failed to change admin role',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Admin role changed successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Force an admin to choose a new password (Admin only)
+   */
+  static forcePasswordReset = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { id } = req.params;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await AdminService.forcePasswordReset(id, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      res.status(getStatusCode(result.error)).json({
+        success: false,
+        message: result.error || 'Failed to reset password',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: result.data!.setupLinkSent
+        ? 'Password reset. The admin has been signed out and sent a link to choose a new password.'
+        : 'Password reset and the admin signed out, but the email with the new link could not be sent. Reset again to send a new link.',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+}
@@ -0,0 +1,108 @@
+import { Request, Response } from 'express';
+import { ApiKeyService } from '../services/apiKeyService';
+import { RequestUtils } from '../utils/request';
+import { ApiResponse, CreateApiKeyRequest } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+
+export class ApiKeyController {
+  /**
+   * List API keys (Admin only)
+   */
+  static getApiKeys = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const result = await ApiKeyService.getApiKeys();
+
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to retrieve API keys',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'API keys retrieved successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Create an API key (Admin only)
+   */
+  static createApiKey = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const data: CreateApiKeyRequest = req.body;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await ApiKeyService.createApiKey(data, req.admin!, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      const statusCode = result.error === 'Cannot grant scopes your role does not have' ? 403 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to create API key',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'API key created successfully. Store the key now, it will not be shown again.',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Revoke an API key (Admin only)
+   */
+  static revokeApiKey = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { id } = req.params;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await ApiKeyService.revokeApiKey(id, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      const statusCode = result.error === 'API key not found'
+        ? 404
+        : result.error === 'API key is already revoked' ? 409 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to revoke API key',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'API key revoked successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+}
@@ -0,0 +1,241 @@
+import { Request, Response } from 'express';
+import { AssignmentService } from '../services/assignmentService';
+import { RequestUtils } from '../utils/request';
+import { ApiResponse, AutoAssignRequest } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+
+export class AssignmentController {
+  /**
+   * Automatically distribute open submissions across judges (Admin only)
+   */
+  static autoAssign = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const options: AutoAssignRequest = req.body;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await AssignmentService.autoAssign(options, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        message: result.error || 'Failed to assign judges',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: `Created ${result.data!.assignmentsCreated} assignments`,
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Manually assign a judge to a submission (Admin only)
+   */
+  static createAssignment = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { submissionId, judgeId } = req.body;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await AssignmentService.assignJudge(submissionId, judgeId, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      const statusCode = result.error === 'Submission not found' || result.error === 'Judge not found' ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to assign judge',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Judge assigned successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Reassign a submission to another judge (Admin only)
+   */
+  static reassign = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { id } = req.params;
+    const { judgeId } = req.body;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await AssignmentService.reassign(id, judgeId, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      const statusCode = result.error === 'Assignment not found' || result.error === 'Judge not found' ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to reassign judge',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Judge reassigned successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Remove an assignment (Admin only)
+   */
+  static removeAssignment = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { id } = req.params;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await AssignmentService.removeAssignment(id, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      const statusCode = result.error === 'Assignment not found' ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to remove assignment',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Assignment removed successfully',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * List assignments (Admin only)
+   */
+  static getAssignments = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { submissionId, judgeId } = req.query;
+
+    const result = await AssignmentService.getAssignments({
+      submissionId: submissionId as string,
+      judgeId: judgeId as string,
+    });
+
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to retrieve assignments',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Assignments retrieved successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Get judge workload overview (Admin only)
+   */
+  static getWorkload = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const result = await AssignmentService.getWorkload();
+
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to retrieve judge workload',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Judge workload retrieved successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Get the review queue of the current judge
+   */
+  static getMyQueue = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const judgeId = req.admin!.adminId;
+
+    const result = await AssignmentService.getJudgeQueue(judgeId);
+
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to retrieve review queue',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Review queue retrieved successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+}
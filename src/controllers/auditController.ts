@@ -3,6 +3,7 @@ import { AuditService } from '../services/auditService';
 import { logger } from '../config/logger';
 import { ApiResponse } from '../types';
 import { asyncHandler } from '../middleware/errorHandler';
+import { CsvUtils } from '../utils/csv';
 import { AuditAction } from '@prisma/client';
 
 export class AuditController {
@@ -20,7 +21,9 @@ export class AuditController {
       entityId,
       action,
       adminId,
+      actorType,
       submissionId,
+      eventId,
       dateFrom,
       dateTo,
     } = req.query;
@@ -32,7 +35,9 @@ export class AuditController {
       entityId: entityId as string,
       action: action as AuditAction,
       adminId: adminId as string,
+      actorType: actorType as string,
       submissionId: submissionId as string,
+      eventId: eventId as string,
       dateFrom: dateFrom ? new Date(dateFrom as string) : undefined,
       dateTo: dateTo ? new Date(dateTo as string) : undefined,
     };
@@ -119,14 +124,15 @@ export class AuditController {
     req: Request,
     res: Response<ApiResponse>
   ): Promise<void> => {
-    const { dateFrom, dateTo } = req.query;
+    const { dateFrom, dateTo, eventId } = req.query;
 
     const params = {
       dateFrom: dateFrom ? new Date(dateFrom as string) : undefined,
       dateTo: dateTo ? new Date(dateTo as string) : undefined,
+      eventId: eventId as string | undefined,
     };
 
-    const result = await AuditService.getAuditStats(params.dateFrom, params.dateTo);
+    const result = await AuditService.getAuditStats(params.dateFrom, params.dateTo, params.eventId);
 
     if (!result.success) {
       res.status(500).json({
@@ -334,7 +340,9 @@ export class AuditController {
       entityId,
       action,
       adminId,
+      actorType,
       submissionId,
+      eventId,
       dateFrom,
       dateTo,
       format = 'csv',
@@ -348,7 +356,9 @@ export class AuditController {
         entityId: entityId as string,
         action: action as AuditAction,
         adminId: adminId as string,
+        actorType: actorType as string,
         submissionId: submissionId as string,
+        eventId: eventId as string,
         dateFrom: dateFrom ? new Date(dateFrom as string) : undefined,
         dateTo: dateTo ? new Date(dateTo as string) : undefined,
       };
@@ -367,14 +377,16 @@ export class AuditController {
 
       if (format === 'csv') {
         // Generate CSV
-        const csvHeader = 'Date,Action,Entity Type,Entity ID,Admin ID,IP Address,Description\n';
-        const csvRows = result.data.logs.map(log => {
-          const date = log.createdAt.toISOString();
-          const adminId = log.adminId || 'System';
-          const description = log.description ? `"${log.description.replace(/"/g, '""')}"` : '';
-          
-          return `"${date}","${log.action}","${log.entityType}","${log.entityId}","${adminId}","${log.ipAddress || ''}","${description}"`;
-        }).join('\n');
+        const csvHeader = CsvUtils.row(['Date', 'Action', 'Entity Type', 'Entity ID', 'Admin ID', 'IP Address', 'Description']);
+        const csvRows = result.data.logs.map(log => CsvUtils.row([
+          log.createdAt,
+          log.action,
+          log.entityType,
+          log.entityId,
+          log.adminId || 'System',
+          log.ipAddress,
+          log.description,
+        ])).join('');
 
         const csv = csvHeader + csvRows;
 
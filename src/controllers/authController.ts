@@ -1,12 +1,17 @@
 import { Request, Response } from 'express';
 import { AuthService } from '../services/authService';
+import { AdminService } from '../services/adminService';
+import { TwoFactorService } from '../services/twoFactorService';
+import { SessionService } from '../services/sessionService';
 import { RequestUtils } from '../utils/request';
-import { logger } from '../config/logger';
 import { 
   ApiResponse, 
   LoginRequest, 
   ChangePasswordRequest,
-  RefreshTokenRequest 
+  RefreshTokenRequest,
+  SetupPasswordRequest,
+  TwoFactorEnableResponse,
+  TwoFactorLoginRequest
 } from '../types';
 import { asyncHandler } from '../middleware/errorHandler';
 
@@ -36,6 +41,19 @@ export class AuthController {
       return;
     }
 
+    if ('twoFactorRequired' in result.data!) {
+      res.status(200).json({
+        success: true,
+        message: result.data.enrollmentRequired
+          ? 'Two-factor enrollment required for your role'
+          : 'Two-factor code required',
+        data: result.data,
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
     res.status(200).json({
       success: true,
       message: 'Login successful',
@@ -45,6 +63,164 @@ export class AuthController {
     });
   });
 
+  /**
+   * Second login step with an authenticator or recovery code
+   */
+  static loginTwoFactor = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const data: TwoFactorLoginRequest = req.body;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await AuthService.completeTwoFactorLogin(data, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      res.status(401).json({
+        success: false,
+        message: result.error || 'Login failed',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Login successful',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Start two-factor enrollment and return the provisioning URI
+   */
+  static setupTwoFactor = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const adminId = req.admin?.adminId ?? req.twoFactorChallenge!.adminId;
+
+    const result = await TwoFactorService.startEnrollment(adminId);
+
+    if (!result.success) {
+      let statusCode = 500;
+      if (result.error === 'Admin not found') statusCode = 404;
+      if (result.error === 'Two-factor authentication is already enabled') statusCode = 409;
+
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to start two-factor enrollment',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Scan the QR code with an authenticator app, then confirm a code to enable two-factor authentication',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Confirm the first code and enable two-factor authentication.
+   * During a login held back for enrollment the response also carries the session tokens.
+   */
+  static enableTwoFactor = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { code } = req.body;
+    const adminId = req.admin?.adminId ?? req.twoFactorChallenge!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await TwoFactorService.enable(adminId, code, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      let statusCode = 400;
+      if (result.error === 'Admin not found') statusCode = 404;
+      if (result.error === 'Two-factor authentication is already enabled') statusCode = 409;
+      if (result.error === 'Failed to enable two-factor authentication') statusCode = 500;
+
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to enable two-factor authentication',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const data: TwoFactorEnableResponse = { recoveryCodes: result.data!.recoveryCodes };
+
+    if (req.twoFactorChallenge) {
+      const session = await AuthService.completeEnrollmentLogin(adminId, {
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+      });
+      data.session = session.data;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication enabled. Store the recovery codes now, they will not be shown again.',
+      data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Disable two-factor authentication after confirming the password
+   */
+  static disableTwoFactor = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { password } = req.body;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await TwoFactorService.disable(adminId, password, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      let statusCode = 400;
+      if (result.error === 'Admin not found') statusCode = 404;
+      if (result.error === 'Two-factor authentication is required for your role') statusCode = 403;
+      if (result.error === 'Failed to disable two-factor authentication') statusCode = 500;
+
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to disable two-factor authentication',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
   /**
    * Refresh access token
    */
@@ -167,6 +343,40 @@ export class AuthController {
     });
   });
 
+  /**
+   * Choose a password with the one-time link from an invite or password reset
+   */
+  static setupPassword = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const data: SetupPasswordRequest = req.body;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await AdminService.completeSetup(data, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      const statusCode = result.error === 'Failed to set password' ? 500 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to set password',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Password set successfully. You can now log in.',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
   /**
    * Get admin profile
    */
@@ -213,6 +423,7 @@ export class AuthController {
           id: req.admin!.adminId,
           email: req.admin!.email,
           role: req.admin!.role,
+          permissions: req.admin!.permissions,
         },
       },
       timestamp: new Date().toISOString(),
@@ -221,131 +432,100 @@ export class AuthController {
   });
 
   /**
-   * Get admin session info
+   * List the active sessions of the current admin
    */
-  static getSessionInfo = asyncHandler(async (
+  static getSessions = asyncHandler(async (
     req: Request,
     res: Response<ApiResponse>
   ): Promise<void> => {
-    const adminId = req.admin!.adminId;
-    
-    try {
-      const { prisma } = await import('../config/database');
-      
-      // Get active refresh tokens count
-      const activeTokensCount = await prisma.refreshToken.count({
-        where: {
-          adminId,
-          expiresAt: {
-            gt: new Date(),
-          },
-        },
-      });
+    const { adminId, sid } = req.admin!;
 
-      // Get recent login audit logs
-      const recentLogins = await prisma.auditLog.findMany({
-        where: {
-          adminId,
-          action: 'LOGIN',
-        },
-        orderBy: {
-          createdAt: 'desc',
-        },
-        take: 5,
-        select: {
-          createdAt: true,
-          ipAddress: true,
-          userAgent: true,
-        },
-      });
-
-      res.status(200).json({
-        success: true,
-        message: 'Session info retrieved successfully',
-        data: {
-          activeTokensCount,
-          recentLogins,
-          currentSession: {
-            ip: RequestUtils.getClientIP(req),
-            userAgent: RequestUtils.getUserAgent(req),
-            loginTime: new Date().toISOString(),
-          },
-        },
-        timestamp: new Date().toISOString(),
-        requestId: req.requestId,
-      });
-    } catch (error) {
-      logger.error('Failed to get session info', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        adminId,
-        requestId: req.requestId,
-      });
+    const result = await SessionService.getSessions(adminId, sid);
 
+    if (!result.success) {
       res.status(500).json({
         success: false,
-        message: 'Failed to retrieve session info',
+        message: result.error || 'Failed to retrieve sessions',
         timestamp: new Date().toISOString(),
         requestId: req.requestId,
       });
+      return;
     }
+
+    res.status(200).json({
+      success: true,
+      message: 'Sessions retrieved successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
   });
 
   /**
-   * Revoke all admin sessions (logout from all devices)
+   * Revoke one session of the current admin
    */
-  static revokeAllSessions = asyncHandler(async (
+  static revokeSession = asyncHandler(async (
     req: Request,
     res: Response<ApiResponse>
   ): Promise<void> => {
+    const { sessionId } = req.params;
     const adminId = req.admin!.adminId;
     const clientInfo = RequestUtils.getClientInfo(req);
 
-    try {
-      const { prisma } = await import('../config/database');
-      
-      // Delete all refresh tokens for this admin
-      const result = await prisma.refreshToken.deleteMany({
-        where: { adminId },
-      });
-
-      // Log the action
-      const { AuditService } = await import('../services/auditService');
-      await AuditService.createAuditLog({
-        action: 'LOGOUT',
-        entityType: 'admin',
-        entityId: adminId,
-        description: 'All sessions revoked',
-        ipAddress: clientInfo.ipAddress,
-        userAgent: clientInfo.userAgent,
-        adminId,
-      });
-
-      logger.info('All sessions revoked', {
-        adminId,
-        tokensRevoked: result.count,
-        ip: clientInfo.ipAddress,
-      });
+    const result = await SessionService.revokeSession(adminId, sessionId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
 
-      res.status(200).json({
-        success: true,
-        message: `Successfully revoked ${result.count} active sessions`,
-        data: { revokedTokens: result.count },
+    if (!result.success) {
+      res.status(result.error === 'Session not found' ? 404 : 500).json({
+        success: false,
+        message: result.error || 'Failed to revoke session',
         timestamp: new Date().toISOString(),
         requestId: req.requestId,
       });
-    } catch (error) {
-      logger.error('Failed to revoke all sessions', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        adminId,
-        requestId: req.requestId,
-      });
+      return;
+    }
 
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked successfully',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Revoke every session except the current one (logout from other devices)
+   */
+  static revokeOtherSessions = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { adminId, sid } = req.admin!;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await SessionService.revokeOtherSessions(adminId, sid, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
       res.status(500).json({
         success: false,
-        message: 'Failed to revoke sessions',
+        message: result.error || 'Failed to revoke sessions',
         timestamp: new Date().toISOString(),
         requestId: req.requestId,
       });
+      return;
     }
+
+    res.status(200).json({
+      success: true,
+      message: `Successfully revoked ${result.data!.revokedSessions} other sessions`,
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
   });
 }
@@ -0,0 +1,134 @@
+import { Request, Response } from 'express';
+import { CommentService } from '../services/commentService';
+import { RequestUtils } from '../utils/request';
+import { ApiResponse, CommentAuthor, CreateCommentRequest } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+
+export class CommentController {
+  /**
+   * Get the comment threads of a submission (Admin, assigned Judge, or the team)
+   */
+  static getComments = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { id } = req.params;
+
+    const result = await CommentService.getComments(id, !!req.admin);
+
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to retrieve comments',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Comments retrieved successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Add a comment to a submission (Admin, assigned Judge, or the team)
+   */
+  static createComment = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { id } = req.params;
+    const data: CreateCommentRequest = req.body;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const author: CommentAuthor = req.admin
+      ? { type: 'admin', adminId: req.admin.adminId, email: req.admin.email }
+      : { type: 'participant', email: req.participant!.email };
+
+    const result = await CommentService.createComment(id, data, author, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      const statusCode = result.error === 'Comment not found' ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to create comment',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Comment created successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Resolve a comment thread (Admin and assigned Judge)
+   */
+  static resolveComment = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    await CommentController.setResolved(req, res, true);
+  });
+
+  /**
+   * Reopen a resolved comment thread (Admin and assigned Judge)
+   */
+  static unresolveComment = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    await CommentController.setResolved(req, res, false);
+  });
+
+  private static async setResolved(
+    req: Request,
+    res: Response<ApiResponse>,
+    resolved: boolean
+  ): Promise<void> {
+    const { id, commentId } = req.params;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await CommentService.setResolved(id, commentId, resolved, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      let statusCode = 500;
+      if (result.error === 'Comment not found') statusCode = 404;
+      if (result.error === 'Only top-level comments can be resolved') statusCode = 400;
+
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to update comment',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: resolved ? 'Comment thread resolved' : 'Comment thread reopened',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  }
+}
@@ -0,0 +1,133 @@
+import { Request, Response } from 'express';
+import { DeadlineService } from '../services/deadlineService';
+import { RequestUtils } from '../utils/request';
+import { ApiResponse, GrantExtensionRequest } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+
+export class DeadlineController {
+  /**
+   * Get the submission window of the event
+   */
+  static getDeadline = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const result = await DeadlineService.getSubmissionWindow(req.event!);
+
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to check submission deadline',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Submission deadline retrieved successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * List deadline extensions of the event (Admin only)
+   */
+  static getExtensions = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const result = await DeadlineService.getExtensions(req.event!.id);
+
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to retrieve deadline extensions',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Deadline extensions retrieved successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Extend the submission deadline for a team (Admin only)
+   */
+  static grantExtension = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const data: GrantExtensionRequest = req.body;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await DeadlineService.grantExtension(req.event!.id, data, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to grant deadline extension',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Deadline extension granted successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Revoke a deadline extension (Admin only)
+   */
+  static revokeExtension = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { extensionId } = req.params;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await DeadlineService.revokeExtension(req.event!.id, extensionId, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      const statusCode = result.error === 'Deadline extension not found' ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to revoke deadline extension',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Deadline extension revoked successfully',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+}
@@ -0,0 +1,143 @@
+import { Request, Response } from 'express';
+import { EventService } from '../services/eventService';
+import { RequestUtils } from '../utils/request';
+import { ApiResponse, CreateEventRequest, UpdateEventRequest } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { PermissionUtils } from '../utils/permissions';
+
+export class EventController {
+  /**
+   * List events. Drafts are only visible to admins who can manage events.
+   */
+  static getEvents = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const result = await EventService.getEvents(PermissionUtils.hasAny(req.admin?.permissions, ['events:manage']));
+
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to retrieve events',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Events retrieved successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Get a single event by slug
+   */
+  static getEvent = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { slug } = req.params;
+
+    const result = await EventService.getEventBySlug(slug);
+
+    // Drafts are reported as missing to everyone but admins who can manage events
+    const isHidden = result.data?.status === 'DRAFT' && !PermissionUtils.hasAny(req.admin?.permissions, ['events:manage']);
+
+    if (!result.success || isHidden) {
+      const statusCode = result.error === 'Event not found' || isHidden ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: isHidden ? 'Event not found' : result.error || 'Failed to retrieve event',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Event retrieved successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Create an event (Admin only)
+   */
+  static createEvent = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const data: CreateEventRequest = req.body;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await EventService.createEvent(data, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      const statusCode = result.error === 'An event with this slug already exists' ? 409 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to create event',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Event created successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Update an event (Admin only)
+   */
+  static updateEvent = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { slug } = req.params;
+    const data: UpdateEventRequest = req.body;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await EventService.updateEvent(slug, data, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      const statusCode = result.error === 'Event not found' ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to update event',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Event updated successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+}
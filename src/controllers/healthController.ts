@@ -117,11 +117,12 @@ export class HealthController {
         totalAuditLogs,
         recentSubmissions,
       ] = await Promise.all([
-        prisma.submission.count(),
+        prisma.submission.count({ where: { deletedAt: null } }),
         prisma.admin.count(),
         prisma.auditLog.count(),
         prisma.submission.count({
           where: {
+            deletedAt: null,
             submittedAt: {
               gte: new Date(Date.now() - 24 * 60 * 60 * 1000), // Last 24 hours
             },
@@ -267,19 +268,20 @@ export class HealthController {
         statusDistribution,
       ] = await Promise.all([
         prisma.submission.count({
-          where: { submittedAt: { gte: oneDayAgo } },
+          where: { deletedAt: null, submittedAt: { gte: oneDayAgo } },
         }),
         prisma.submission.count({
-          where: { submittedAt: { gte: oneWeekAgo } },
+          where: { deletedAt: null, submittedAt: { gte: oneWeekAgo } },
         }),
         prisma.submission.count({
-          where: { submittedAt: { gte: oneMonthAgo } },
+          where: { deletedAt: null, submittedAt: { gte: oneMonthAgo } },
         }),
         prisma.auditLog.count({
           where: { createdAt: { gte: oneDayAgo } },
         }),
         prisma.submission.groupBy({
           by: ['status'],
+          where: { deletedAt: null },
           _count: {
             status: true,
           },
@@ -0,0 +1,13 @@
+import { Request, Response } from 'express';
+import { JWTKeyStore } from '../utils/jwtKeys';
+
+export class JwksController {
+  /**
+   * Publish the public keys that verify tokens issued by this API.
+   * Plain JWKS rather than the ApiResponse envelope, as JWT libraries expect.
+   */
+  static getJwks = (req: Request, res: Response): void => {
+    res.set('Cache-Control', 'public, max-age=300');
+    res.status(200).json(JWTKeyStore.getPublicJwks());
+  };
+}
@@ -0,0 +1,122 @@
+import { Request, Response } from 'express';
+import { LeaderboardService } from '../services/leaderboardService';
+import { RequestUtils } from '../utils/request';
+import { ApiResponse, TieBreakRule } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { PermissionUtils } from '../utils/permissions';
+
+/**
+ * Parse a comma separated tie-break list from query or body
+ */
+const parseTieBreak = (value: unknown): TieBreakRule[] | undefined => {
+  if (!value) return undefined;
+  const rules = Array.isArray(value) ? value : String(value).split(',');
+  return rules.map(rule => String(rule).trim()) as TieBreakRule[];
+};
+
+export class LeaderboardController {
+  /**
+   * Get the leaderboard.
+   * Admins and API keys that can read all scores get the live ranking unless they ask for the published one;
+   * everyone else only sees results once they are frozen.
+   */
+  static getLeaderboard = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { mode } = req.query;
+    const canSeeLive = PermissionUtils.hasAny(req.admin?.permissions ?? req.apiKey?.scopes, ['scores:read']);
+
+    const result = canSeeLive && mode !== 'published'
+      ? await LeaderboardService.getLiveLeaderboard(req.event!.id, parseTieBreak(req.query.tieBreak))
+      : await LeaderboardService.getPublishedLeaderboard(req.event!.id);
+
+    if (!result.success) {
+      const statusCode = result.error === 'Leaderboard has not been published yet' ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to retrieve leaderboard',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Leaderboard retrieved successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Freeze and publish the current ranking (Admin only)
+   */
+  static freezeLeaderboard = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await LeaderboardService.freeze(req.event!.id, parseTieBreak(req.body.tieBreak), adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      const statusCode = result.error === 'Leaderboard is already frozen' ? 409 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to freeze leaderboard',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Leaderboard frozen and published',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Unfreeze and unpublish the leaderboard (Admin only)
+   */
+  static unfreezeLeaderboard = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await LeaderboardService.unfreeze(req.event!.id, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      const statusCode = result.error === 'Leaderboard is not frozen' ? 409 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to unfreeze leaderboard',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Leaderboard unfrozen',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+}
@@ -0,0 +1,118 @@
+import { Request, Response } from 'express';
+import { NotificationStatus } from '@prisma/client';
+import { NotificationService } from '../services/notificationService';
+import { RequestUtils } from '../utils/request';
+import { ApiResponse } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+
+export class NotificationController {
+  /**
+   * List outbox messages with status filter and pagination (Admin only)
+   */
+  static getNotifications = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { page = '1', limit = '20', status } = req.query;
+
+    const result = await NotificationService.getNotifications({
+      status: status as NotificationStatus | undefined,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    });
+
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to retrieve notifications',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Notifications retrieved successfully',
+      data: result.data!.notifications,
+      meta: {
+        page: result.data!.page,
+        limit: result.data!.limit,
+        total: result.data!.total,
+        totalPages: result.data!.totalPages,
+      },
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Get a single outbox message (Admin only)
+   */
+  static getNotificationById = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { id } = req.params;
+
+    const result = await NotificationService.getNotificationById(id);
+
+    if (!result.success) {
+      const statusCode = result.error === 'Notification not found' ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to retrieve notification',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Notification retrieved successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Resend a failed notification (Admin only)
+   */
+  static resendNotification = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { id } = req.params;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await NotificationService.resend(id, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      let statusCode = 500;
+      if (result.error === 'Notification not found') statusCode = 404;
+      if (result.error === 'Only failed notifications can be resent') statusCode = 409;
+
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to resend notification',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: result.data!.status === 'SENT' ? 'Notification resent successfully' : 'Notification queued for resending',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+}
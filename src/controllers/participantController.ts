@@ -0,0 +1,186 @@
+import { Request, Response } from 'express';
+import { ParticipantService } from '../services/participantService';
+import { RequestUtils } from '../utils/request';
+import {
+  ApiResponse,
+  ParticipantUpdateSubmissionRequest,
+  RequestMagicLinkRequest,
+  VerifyMagicLinkRequest,
+} from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+
+export class ParticipantController {
+  /**
+   * Send a one-time access link to the team's email
+   */
+  static requestMagicLink = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { email }: RequestMagicLinkRequest = req.body;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await ParticipantService.requestMagicLink(req.event!, email, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to send access link',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'If a submission exists for this email, an access link has been sent',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Exchange a magic link token for a participant access token
+   */
+  static verifyMagicLink = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { token }: VerifyMagicLinkRequest = req.body;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await ParticipantService.verifyMagicLink(token, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      const statusCode = result.error === 'Invalid or expired access link' ? 401 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to verify access link',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Access link verified successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Get the submission of the signed-in team
+   */
+  static getMySubmission = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const result = await ParticipantService.getOwnSubmission(req.participant!.submissionId);
+
+    if (!result.success) {
+      const statusCode = result.error === 'Submission not found' ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to retrieve submission',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Submission retrieved successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Edit the submission of the signed-in team
+   */
+  static updateMySubmission = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const data: ParticipantUpdateSubmissionRequest = req.body;
+    const { submissionId, email } = req.participant!;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await ParticipantService.updateOwnSubmission(req.event!, submissionId, email, data, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      let statusCode = 400;
+      if (result.error === 'Submission not found') statusCode = 404;
+      if (result.error === 'The submission deadline has passed') statusCode = 403;
+
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to update submission',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Submission updated successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Send a submission that requires changes back for review
+   */
+  static resubmitMySubmission = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { submissionId, email } = req.participant!;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await ParticipantService.resubmitOwnSubmission(submissionId, email, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      let statusCode = 500;
+      if (result.error === 'Submission not found') statusCode = 404;
+      if (result.error === 'Only submissions that require changes can be resubmitted') statusCode = 409;
+
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to resubmit submission',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Submission sent back for review',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+}
@@ -0,0 +1,110 @@
+import { Request, Response } from 'express';
+import { RevisionService } from '../services/revisionService';
+import { RequestUtils } from '../utils/request';
+import { ApiResponse } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+
+export class RevisionController {
+  /**
+   * List the revisions of a submission (Admin only)
+   */
+  static getRevisions = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { id } = req.params;
+
+    const result = await RevisionService.getRevisions(id);
+
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to retrieve revisions',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Revisions retrieved successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Compare two revisions of a submission field by field (Admin only)
+   */
+  static diffRevisions = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { id } = req.params;
+    const from = parseInt(req.query.from as string);
+    const to = parseInt(req.query.to as string);
+
+    const result = await RevisionService.diffRevisions(id, from, to);
+
+    if (!result.success) {
+      const statusCode = result.error === 'Revision not found' ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to compare revisions',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Revisions compared successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Restore an older revision of a submission (Admin only)
+   */
+  static restoreRevision = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { id } = req.params;
+    const revision = parseInt(req.params.revision);
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await RevisionService.restoreRevision(id, revision, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      let statusCode = 400;
+      if (result.error === 'Revision not found') statusCode = 404;
+      if (result.error === 'Submission already matches this revision') statusCode = 409;
+
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to restore revision',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: `Submission restored to revision ${revision}`,
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+}
@@ -0,0 +1,153 @@
+import { Request, Response } from 'express';
+import { RoleService } from '../services/roleService';
+import { RequestUtils } from '../utils/request';
+import { PERMISSIONS } from '../utils/permissions';
+import { ApiResponse, CreateRoleRequest, UpdateRoleRequest } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+
+export class RoleController {
+  /**
+   * List roles and the available permissions (Admin only)
+   */
+  static getRoles = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const result = await RoleService.getRoles();
+
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to retrieve roles',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Roles retrieved successfully',
+      data: {
+        roles: result.data,
+        permissions: PERMISSIONS,
+      },
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Create a custom role (Admin only)
+   */
+  static createRole = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const data: CreateRoleRequest = req.body;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await RoleService.createRole(data, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      const statusCode = result.error === 'A role with this name already exists' ? 409 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to create role',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Role created successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Update a role (Admin only)
+   */
+  static updateRole = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { name } = req.params;
+    const data: UpdateRoleRequest = req.body;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await RoleService.updateRole(name, data, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      let statusCode = 500;
+      if (result.error === 'Role not found') statusCode = 404;
+      if (result.error === 'The superadmin role must keep the admins:manage permission') statusCode = 400;
+
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to update role',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Role updated successfully. Admins with this role get the new permissions when their access token is refreshed.',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Delete a custom role (Admin only)
+   */
+  static deleteRole = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { name } = req.params;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await RoleService.deleteRole(name, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      let statusCode = 500;
+      if (result.error === 'Role not found') statusCode = 404;
+      if (result.error === 'Built-in roles cannot be deleted' || result.error === 'Role is still assigned to admins') statusCode = 409;
+
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to delete role',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Role deleted successfully',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+}
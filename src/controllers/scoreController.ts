@@ -0,0 +1,78 @@
+import { Request, Response } from 'express';
+import { ScoringService } from '../services/scoringService';
+import { RequestUtils } from '../utils/request';
+import { ApiResponse, UpsertScoresRequest } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { PermissionUtils } from '../utils/permissions';
+
+export class ScoreController {
+  /**
+   * Get scores for a submission.
+   * Judges only see their own scores; admins with scores:read see every judge.
+   */
+  static getSubmissionScores = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { id } = req.params;
+    const judgeId = PermissionUtils.hasAny(req.admin!.permissions, ['scores:read']) ? undefined : req.admin!.adminId;
+
+    const result = await ScoringService.getSubmissionScores(id, judgeId);
+
+    if (!result.success) {
+      const statusCode = result.error === 'Submission not found' ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to retrieve scores',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Scores retrieved successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Create or update the current judge's scores for a submission
+   */
+  static upsertScores = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { id } = req.params;
+    const { scores }: UpsertScoresRequest = req.body;
+    const judgeId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
+    const result = await ScoringService.upsertScores(id, judgeId, scores, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      const statusCode = result.error === 'Submission not found' ? 404 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to save scores',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Scores saved successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+}
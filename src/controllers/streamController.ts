@@ -0,0 +1,136 @@
+import { Request, Response } from 'express';
+import { StreamService } from '../services/streamService';
+import { AccountStatusService } from '../services/accountStatusService';
+import { logger } from '../config/logger';
+import { config } from '../config/config';
+import { StreamEvent } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+
+// How long clients wait before reconnecting after the connection drops
+const RECONNECT_DELAY_MS = 5000;
+
+export class StreamController {
+  /**
+   * Server-Sent Events stream of submission activity and counters for an event (Admin only)
+   */
+  static stream = asyncHandler(async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    const event = req.event!;
+    const lastEventId = req.get('Last-Event-ID') || (req.query.lastEventId as string | undefined);
+
+    res.status(200);
+    res.set({
+      'Content-Type': 'text/event-stream',
+      // no-transform keeps the compression middleware from buffering the stream
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    const send = (streamEvent: StreamEvent): void => {
+      if (streamEvent.eventId !== event.id) {
+        return;
+      }
+
+      const lines = [
+        ...(streamEvent.id ? [`id: ${streamEvent.id}`] : []),
+        `event: ${streamEvent.type}`,
+        `data: ${JSON.stringify(streamEvent.data)}`,
+      ];
+
+      res.write(`${lines.join('\n')}\n\n`);
+      res.flush?.();
+    };
+
+    // Buffer live events until missed ones have been replayed so the order is kept
+    const buffered: StreamEvent[] = [];
+    let replaying = true;
+    const unsubscribe = StreamService.subscribe(streamEvent => {
+      if (replaying) {
+        buffered.push(streamEvent);
+      } else {
+        send(streamEvent);
+      }
+    });
+
+    let closed = false;
+    const close = (): void => {
+      if (closed) {
+        return;
+      }
+
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+
+      logger.debug('Live stream closed', {
+        adminId: req.admin?.adminId,
+        eventId: event.id,
+        requestId: req.requestId,
+      });
+    };
+
+    // The token was only checked when the stream opened, so re-check it to cut off revoked sessions and disabled accounts
+    const heartbeat = setInterval(async () => {
+      try {
+        if (!(await AccountStatusService.isTokenCurrent(req.admin!))) {
+          logger.info('Live stream ended, access token no longer valid', {
+            adminId: req.admin!.adminId,
+            eventId: event.id,
+            requestId: req.requestId,
+          });
+
+          close();
+          res.end();
+          return;
+        }
+      } catch (error) {
+        logger.error('Failed to check live stream token', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          adminId: req.admin!.adminId,
+          requestId: req.requestId,
+        });
+      }
+
+      if (!closed) {
+        res.write(': heartbeat\n\n');
+        res.flush?.();
+      }
+    }, config.stream.heartbeatIntervalMs);
+
+    req.on('close', close);
+
+    res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+    const replayedIds = new Set<string>();
+
+    if (lastEventId) {
+      const missed = await StreamService.getMissedEvents(event.id, lastEventId);
+      missed.data?.forEach(streamEvent => {
+        replayedIds.add(streamEvent.id!);
+        send(streamEvent);
+      });
+    }
+
+    const stats = await StreamService.getStatsEvent(event.id);
+    if (stats) {
+      send(stats);
+    }
+
+    // Events that arrived during the replay may already have been part of it
+    replaying = false;
+    buffered
+      .filter(streamEvent => !streamEvent.id || !replayedIds.has(streamEvent.id))
+      .forEach(send);
+
+    logger.debug('Live stream opened', {
+      adminId: req.admin?.adminId,
+      eventId: event.id,
+      resumedFrom: lastEventId,
+      requestId: req.requestId,
+    });
+  });
+}
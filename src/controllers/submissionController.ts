@@ -1,15 +1,25 @@
 import { Request, Response } from 'express';
 import { SubmissionService } from '../services/submissionService';
+import { DEFAULT_EXPORT_COLUMNS, ExportFormat, ExportService } from '../services/exportService';
+import { ImportService } from '../services/importService';
+import { CsvUtils } from '../utils/csv';
 import { RequestUtils } from '../utils/request';
 import { logger } from '../config/logger';
 import { 
   ApiResponse, 
+  BulkStatusUpdateRequest,
   CreateSubmissionRequest, 
   UpdateSubmissionRequest,
   SubmissionQueryParams 
 } from '../types';
 import { asyncHandler } from '../middleware/errorHandler';
 
+// The email is held by another submission of the event, live or still in the trash
+const EMAIL_CONFLICT_ERRORS = [
+  'A submission with this email already exists',
+  'A deleted submission still uses this email until it is purged',
+];
+
 export class SubmissionController {
   /**
    * Create a new submission
@@ -20,15 +30,23 @@ export class SubmissionController {
   ): Promise<void> => {
     const clientInfo = RequestUtils.getClientInfo(req);
 
-    const result = await SubmissionService.createSubmission(req.body, {
-      ipAddress: clientInfo.ipAddress,
-      userAgent: clientInfo.userAgent,
-      browserInfo: clientInfo.browserInfo,
-      deviceInfo: clientInfo.deviceInfo,
-    });
+    const result = await SubmissionService.createSubmission(
+      req.event!,
+      req.body,
+      {
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        browserInfo: clientInfo.browserInfo,
+        deviceInfo: clientInfo.deviceInfo,
+      },
+      req.submissionWindow?.state === 'GRACE'
+    );
 
     if (!result.success) {
-      res.status(400).json({
+      let statusCode = 400;
+      if (result.error === 'This event is not accepting submissions') statusCode = 403;
+      if (result.error && EMAIL_CONFLICT_ERRORS.includes(result.error)) statusCode = 409;
+      res.status(statusCode).json({
         success: false,
         message: result.error || 'Failed to create submission',
         timestamp: new Date().toISOString(),
@@ -39,7 +57,9 @@ export class SubmissionController {
 
     res.status(201).json({
       success: true,
-      message: 'Submission created successfully',
+      message: result.data!.isLate
+        ? 'Submission created successfully (received after the deadline)'
+        : 'Submission created successfully',
       data: result.data,
       timestamp: new Date().toISOString(),
       requestId: req.requestId,
@@ -62,7 +82,7 @@ export class SubmissionController {
       search: req.query.search,
     };
 
-    const result = await SubmissionService.getSubmissions(queryParams);
+    const result = await SubmissionService.getSubmissions(req.event!.id, queryParams);
 
     if (!result.success) {
       res.status(500).json({
@@ -89,6 +109,138 @@ export class SubmissionController {
     });
   });
 
+  /**
+   * Export submissions as CSV, XLSX or NDJSON (Admin only)
+   */
+  static exportSubmissions = asyncHandler(async (
+    req: Request<{}, ApiResponse, {}, SubmissionQueryParams & { format?: ExportFormat; columns?: string }>,
+    res: Response
+  ): Promise<void> => {
+    const format = req.query.format || 'csv';
+    const columns = req.query.columns
+      ? req.query.columns.split(',').map(column => column.trim())
+      : DEFAULT_EXPORT_COLUMNS;
+
+    const contentTypes: Record<ExportFormat, string> = {
+      csv: 'text/csv; charset=utf-8',
+      xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      ndjson: 'application/x-ndjson',
+    };
+    const fileName = `submissions-${req.event!.slug}-${new Date().toISOString().split('T')[0]}.${format}`;
+    const clientInfo = RequestUtils.getClientInfo(req as Request);
+
+    res.setHeader('Content-Type', contentTypes[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+    const result = await ExportService.exportSubmissions(
+      req.event!.id,
+      {
+        status: req.query.status,
+        search: req.query.search,
+        sortBy: req.query.sortBy,
+        sortOrder: req.query.sortOrder,
+      },
+      format,
+      columns,
+      res,
+      req.admin?.adminId ?? null,
+      {
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+      },
+      req.apiKey && { type: 'api_key', id: req.apiKey.id }
+    );
+
+    if (!result.success) {
+      if (!res.headersSent) {
+        res.removeHeader('Content-Disposition');
+        res.status(500).json({
+          success: false,
+          message: result.error || 'Failed to export submissions',
+          timestamp: new Date().toISOString(),
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      // The download is already under way, so the client can only see the connection fail
+      res.destroy();
+    }
+  });
+
+  /**
+   * Import submissions from CSV or JSON, optionally as a dry run (Admin only)
+   */
+  static importSubmissions = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+    let rows: Record<string, unknown>[];
+
+    if (req.is('text/csv')) {
+      try {
+        rows = ImportService.fromCsv(CsvUtils.parse(typeof req.body === 'string' ? req.body : ''));
+      } catch (error) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid CSV: ${error instanceof Error ? error.message : 'could not be parsed'}`,
+          timestamp: new Date().toISOString(),
+          requestId: req.requestId,
+        });
+        return;
+      }
+    } else {
+      const body = Array.isArray(req.body) ? req.body : req.body?.rows;
+
+      if (!Array.isArray(body) || body.some(row => typeof row !== 'object' || row === null || Array.isArray(row))) {
+        res.status(400).json({
+          success: false,
+          message: 'Send a CSV file as text/csv, or a JSON array of submissions (optionally as { "rows": [...] })',
+          timestamp: new Date().toISOString(),
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      rows = body;
+    }
+
+    const options = {
+      dryRun: req.query.dryRun === 'true',
+      onDuplicate: req.query.onDuplicate === 'merge' ? 'merge' as const : 'skip' as const,
+    };
+
+    const result = await ImportService.importSubmissions(req.event!, rows, options, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      const statusCode = result.error === 'Failed to import submissions' ? 500 : 400;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to import submissions',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const data = result.data!;
+
+    res.status(data.dryRun ? 200 : 201).json({
+      success: true,
+      message: data.dryRun
+        ? 'Import checked, nothing was saved'
+        : `Imported ${data.created} new and ${data.merged} merged submissions`,
+      data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
   /**
    * Get a single submission by ID (Admin only)
    */
@@ -142,7 +294,9 @@ export class SubmissionController {
     );
 
     if (!result.success) {
-      const statusCode = result.error === 'Submission not found' ? 404 : 400;
+      let statusCode = 400;
+      if (result.error === 'Submission not found') statusCode = 404;
+      if (result.error && EMAIL_CONFLICT_ERRORS.includes(result.error)) statusCode = 409;
       res.status(statusCode).json({
         success: false,
         message: result.error || 'Failed to update submission',
@@ -194,25 +348,28 @@ export class SubmissionController {
 
     res.status(200).json({
       success: true,
-      message: 'Submission deleted successfully',
+      message: 'Submission moved to trash',
       timestamp: new Date().toISOString(),
       requestId: req.requestId,
     });
   });
 
   /**
-   * Get submission statistics (Admin only)
+   * List deleted submissions awaiting purge (Admin only)
    */
-  static getSubmissionStats = asyncHandler(async (
+  static getTrash = asyncHandler(async (
     req: Request,
     res: Response<ApiResponse>
   ): Promise<void> => {
-    const result = await SubmissionService.getSubmissionStats();
+    const result = await SubmissionService.getTrash(req.event!.id, {
+      page: req.query.page ? parseInt(req.query.page.toString()) : 1,
+      limit: req.query.limit ? parseInt(req.query.limit.toString()) : 20,
+    });
 
     if (!result.success) {
       res.status(500).json({
         success: false,
-        message: result.error || 'Failed to retrieve submission statistics',
+        message: result.error || 'Failed to retrieve deleted submissions',
         timestamp: new Date().toISOString(),
         requestId: req.requestId,
       });
@@ -221,48 +378,108 @@ export class SubmissionController {
 
     res.status(200).json({
       success: true,
-      message: 'Submission statistics retrieved successfully',
-      data: result.data,
+      message: 'Deleted submissions retrieved successfully',
+      data: result.data?.submissions,
+      meta: {
+        page: result.data?.page,
+        limit: result.data?.limit,
+        total: result.data?.total,
+        totalPages: result.data?.totalPages,
+      },
       timestamp: new Date().toISOString(),
       requestId: req.requestId,
     });
   });
 
   /**
-   * Bulk update submission status (Admin only)
+   * Restore a submission from the trash (Admin only)
    */
-  static bulkUpdateStatus = asyncHandler(async (
+  static restoreSubmission = asyncHandler(async (
     req: Request,
     res: Response<ApiResponse>
   ): Promise<void> => {
-    const { submissionIds, status } = req.body;
+    const { id } = req.params;
     const adminId = req.admin!.adminId;
     const clientInfo = RequestUtils.getClientInfo(req);
 
-    // Validate status
-    const validStatuses = ['PENDING', 'UNDER_REVIEW', 'APPROVED', 'REJECTED', 'REQUIRES_CHANGES'];
-    if (!validStatuses.includes(status)) {
-      res.status(400).json({
+    const result = await SubmissionService.restoreSubmission(req.event!.id, id, adminId, {
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+    });
+
+    if (!result.success) {
+      const statusCode = result.error === 'Deleted submission not found' ? 404 : 500;
+      res.status(statusCode).json({
         success: false,
-        message: 'Invalid status provided',
+        message: result.error || 'Failed to restore submission',
         timestamp: new Date().toISOString(),
         requestId: req.requestId,
       });
       return;
     }
 
+    res.status(200).json({
+      success: true,
+      message: 'Submission restored successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Get submission statistics (Admin only)
+   */
+  static getSubmissionStats = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const result = await SubmissionService.getSubmissionStats(req.event!.id);
+
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to retrieve submission statistics',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Submission statistics retrieved successfully',
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  });
+
+  /**
+   * Bulk update submission status (Admin only)
+   */
+  static bulkUpdateStatus = asyncHandler(async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    const { submissionIds, status, reason }: BulkStatusUpdateRequest = req.body;
+    const adminId = req.admin!.adminId;
+    const clientInfo = RequestUtils.getClientInfo(req);
+
     const result = await SubmissionService.bulkUpdateStatus(
+      req.event!.id,
       submissionIds,
-      status as any,
+      status,
       adminId,
       {
         ipAddress: clientInfo.ipAddress,
         userAgent: clientInfo.userAgent,
-      }
+      },
+      reason
     );
 
-    if (!result.success) {
-      res.status(400).json({
+    if (!result.success || !result.data) {
+      res.status(500).json({
         success: false,
         message: result.error || 'Failed to update submission statuses',
         timestamp: new Date().toISOString(),
@@ -271,17 +488,18 @@ export class SubmissionController {
       return;
     }
 
+    // Illegal transitions are reported per item in data.results
     res.status(200).json({
       success: true,
-      message: `Successfully updated ${result.data} submissions`,
-      data: { updatedCount: result.data },
+      message: `Updated ${result.data.updatedCount} submissions, ${result.data.failedCount} failed`,
+      data: result.data,
       timestamp: new Date().toISOString(),
       requestId: req.requestId,
     });
   });
 
   /**
-   * Check if email is already used for submission
+   * Check if email is already used for a submission in the event
    */
   static checkEmailExists = asyncHandler(async (
     req: Request,
@@ -301,17 +519,20 @@ export class SubmissionController {
 
     try {
       const { prisma } = await import('../config/database');
+      // A deleted submission still holds the email until it is purged, but its details are not shown
       const existingSubmission = await prisma.submission.findUnique({
-        where: { email: email as string },
-        select: { id: true, teamName: true, submittedAt: true },
+        where: { eventId_email: { eventId: req.event!.id, email } },
+        select: { id: true, teamName: true, submittedAt: true, deletedAt: true },
       });
 
+      const { deletedAt, ...submission } = existingSubmission ?? { deletedAt: null };
+
       res.status(200).json({
         success: true,
         message: 'Email check completed',
         data: {
           exists: !!existingSubmission,
-          submission: existingSubmission || null,
+          submission: existingSubmission && !deletedAt ? submission : null,
         },
         timestamp: new Date().toISOString(),
         requestId: req.requestId,
@@ -6,6 +6,8 @@ import { config } from './config/config';
 import { logger } from './config/logger';
 import prisma from './config/database';
 import routes from './routes';
+import { JWTKeyStore } from './utils/jwtKeys';
+import { API_KEY_HEADER } from './utils/apiKey';
 
 // Middleware imports
 import { requestLogger } from './middleware/request';
@@ -14,6 +16,9 @@ import { generalRateLimit } from './middleware/rateLimit';
 
 // Services
 import { keepAliveService } from './services/keepAliveService';
+import { trashPurgeService } from './services/trashPurgeService';
+import { notificationDispatchService } from './services/notificationDispatchService';
+import { webhookDispatchService } from './services/webhookDispatchService';
 
 const app = express();
 
@@ -54,7 +59,7 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Last-Event-ID', API_KEY_HEADER],
   maxAge: 86400 // 24 hours
 }));
 
@@ -137,8 +142,11 @@ app.use(errorHandler);
 const gracefulShutdown = async (signal: string) => {
   logger.info(`Received ${signal}, starting graceful shutdown...`);
   
-  // Stop keep-alive service
+  // Stop scheduled services
   keepAliveService.stop();
+  trashPurgeService.stop();
+  notificationDispatchService.stop();
+  webhookDispatchService.stop();
   
   process.exit(0);
 };
@@ -153,6 +161,12 @@ const startServer = async () => {
     await prisma.$connect();
     logger.info('Database connected successfully');
 
+    // Load the JWT key set now so a broken one stops the deployment
+    const signingKeys = JWTKeyStore.load();
+    logger.info(signingKeys
+      ? `JWT signing key set loaded (${signingKeys.length} keys, current kid ${JWTKeyStore.getSigningKey().kid})`
+      : 'No JWT key set configured, signing tokens with HS256 secrets');
+
     const port = config.port || 3000;
     const server = app.listen(port, () => {
       logger.info(`Server running on port ${port}`);
@@ -160,8 +174,11 @@ const startServer = async () => {
       logger.info(`JWT Secret configured: ${!!config.jwt.secret}`);
       logger.info(`Database URL configured: ${!!config.databaseUrl}`);
       
-      // Start keep-alive service after server is running
+      // Start scheduled services after server is running
       keepAliveService.start();
+      trashPurgeService.start();
+      notificationDispatchService.start();
+      webhookDispatchService.start();
     });
 
     // Handle server errors
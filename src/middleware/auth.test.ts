@@ -0,0 +1,72 @@
+import { Request, Response } from 'express';
+import { requirePermission } from './auth';
+
+const buildResponse = () => {
+  const res = {} as Response & { status: jest.Mock; json: jest.Mock };
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+const apiKey = (scopes: string[]) => ({ id: 'key-1', name: 'Dashboard', scopes, createdById: 'admin-1' });
+
+describe('requirePermission', () => {
+  it('lets an API key through when one of its scopes matches', () => {
+    const req = { apiKey: apiKey(['submissions:read']) } as Request;
+    const res = buildResponse();
+    const next = jest.fn();
+
+    requirePermission('submissions:read', 'scores:read')(req, res, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it('refuses an API key without a matching scope', () => {
+    const req = { apiKey: apiKey(['scores:read']) } as Request;
+    const res = buildResponse();
+    const next = jest.fn();
+
+    requirePermission('audit:read')(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ message: 'Insufficient permissions' }));
+  });
+
+  it('refuses write permissions to an API key whatever its scopes', () => {
+    const req = { apiKey: apiKey(['submissions:read', 'scores:read', 'audit:read']) } as Request;
+    const res = buildResponse();
+    const next = jest.fn();
+
+    requirePermission('submissions:write')(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('checks the admin token rather than an API key sent alongside it', () => {
+    const req = {
+      admin: { adminId: 'admin-2', email: 'viewer@example.com', role: 'viewer', permissions: ['scores:read'], sid: 's', ver: 0 },
+      apiKey: apiKey(['submissions:read']),
+    } as Request;
+    const res = buildResponse();
+    const next = jest.fn();
+
+    requirePermission('submissions:read')(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('asks for authentication when there is neither a token nor a key', () => {
+    const req = {} as Request;
+    const res = buildResponse();
+    const next = jest.fn();
+
+    requirePermission('submissions:read')(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
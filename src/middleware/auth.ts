@@ -2,6 +2,9 @@ import { Request, Response, NextFunction } from 'express';
 import { JWTUtils, TokenPayload } from '../utils/jwt';
 import { ApiResponse } from '../types';
 import { logger } from '../config/logger';
+import { Permission, PermissionUtils } from '../utils/permissions';
+import { API_KEY_HEADER } from '../utils/apiKey';
+import { apiKeyRateLimit } from './rateLimit';
 
 /**
  * Authentication middleware to verify JWT tokens
@@ -27,6 +30,12 @@ export const authenticateToken = async (
 
     // Verify the token
     const decoded = JWTUtils.verifyAccessToken(token);
+
+    // Reject tokens issued before the account was deactivated, changed role or changed password
+    const { AccountStatusService } = await import('../services/accountStatusService');
+    if (!(await AccountStatusService.isTokenCurrent(decoded))) {
+      throw new Error('Access token has been revoked');
+    }
     
     // Attach admin info to request
     req.admin = decoded;
@@ -56,7 +65,7 @@ export const authenticateToken = async (
 
 /**
  * Optional authentication middleware
- * Attaches admin info if token is valid, but doesn't fail if no token
+ * Attaches admin info if token is valid, or the API key if one is valid, but doesn't fail if there is neither
  */
 export const optionalAuthentication = async (
   req: Request,
@@ -70,7 +79,11 @@ export const optionalAuthentication = async (
     if (token) {
       try {
         const decoded = JWTUtils.verifyAccessToken(token);
-        req.admin = decoded;
+
+        const { AccountStatusService } = await import('../services/accountStatusService');
+        if (await AccountStatusService.isTokenCurrent(decoded)) {
+          req.admin = decoded;
+        }
       } catch (error) {
         // Token is invalid, but we don't fail the request
         logger.debug('Optional authentication failed', {
@@ -80,6 +93,19 @@ export const optionalAuthentication = async (
       }
     }
 
+    const apiKey = req.header(API_KEY_HEADER);
+
+    if (apiKey && !req.admin) {
+      const { ApiKeyService } = await import('../services/apiKeyService');
+      const principal = await ApiKeyService.authenticate(apiKey);
+
+      if (principal) {
+        req.apiKey = principal;
+        await apiKeyRateLimit(req, res, next);
+        return;
+      }
+    }
+
     next();
   } catch (error) {
     // Even if there's an error, we continue without authentication
@@ -88,11 +114,14 @@ export const optionalAuthentication = async (
 };
 
 /**
- * Role-based authorization middleware
+ * Permission-based authorization middleware.
+ * Passes when the admin's role, or the scopes of the API key, grant at least one of the given permissions.
  */
-export const requireRole = (allowedRoles: string[]) => {
+export const requirePermission = (...permissions: Permission[]) => {
   return (req: Request, res: Response<ApiResponse>, next: NextFunction): void => {
-    if (!req.admin) {
+    const granted = req.admin?.permissions ?? req.apiKey?.scopes;
+
+    if (!granted) {
       res.status(401).json({
         success: false,
         message: 'Authentication required',
@@ -102,11 +131,12 @@ export const requireRole = (allowedRoles: string[]) => {
       return;
     }
 
-    if (!allowedRoles.includes(req.admin.role)) {
+    if (!PermissionUtils.hasAny(granted, permissions)) {
       logger.warn('Authorization failed - insufficient permissions', {
-        adminId: req.admin.adminId,
-        role: req.admin.role,
-        requiredRoles: allowedRoles,
+        adminId: req.admin?.adminId,
+        role: req.admin?.role,
+        apiKeyId: req.apiKey?.id,
+        requiredPermissions: permissions,
         requestId: req.requestId,
       });
 
@@ -123,6 +153,23 @@ export const requireRole = (allowedRoles: string[]) => {
   };
 };
 
+/**
+ * Permission check for routes shared with participants.
+ * Participant requests pass through unchanged.
+ */
+export const requireAdminPermission = (...permissions: Permission[]) => {
+  const check = requirePermission(...permissions);
+
+  return (req: Request, res: Response<ApiResponse>, next: NextFunction): void => {
+    if (req.participant && !req.admin) {
+      next();
+      return;
+    }
+
+    check(req, res, next);
+  };
+};
+
 /**
  * Check if admin account is active
  */
@@ -142,8 +189,16 @@ export const requireActiveAccount = async (
       return;
     }
 
-    // Here you could add database check to verify if admin account is still active
-    // For now, we assume the token validation is sufficient
+    const { AccountStatusService } = await import('../services/accountStatusService');
+    if (!(await AccountStatusService.isActive(req.admin.adminId))) {
+      res.status(403).json({
+        success: false,
+        message: 'Account is disabled',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
     
     next();
   } catch (error) {
@@ -161,3 +216,264 @@ export const requireActiveAccount = async (
     });
   }
 };
+
+/**
+ * Restrict admins without submissions:read, such as judges, to submissions they are assigned to.
+ * Admins who can read every submission, and API keys, pass through unchanged.
+ */
+export const requireJudgeAssignment = async (
+  req: Request,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): Promise<void> => {
+  if (!req.admin || PermissionUtils.hasAny(req.admin.permissions, ['submissions:read'])) {
+    next();
+    return;
+  }
+
+  try {
+    // Import here to avoid circular dependency
+    const { AssignmentService } = await import('../services/assignmentService');
+
+    const isAssigned = await AssignmentService.isAssigned(req.params.id, req.admin.adminId);
+
+    if (!isAssigned) {
+      logger.warn('Judge attempted to access unassigned submission', {
+        adminId: req.admin.adminId,
+        submissionId: req.params.id,
+        requestId: req.requestId,
+      });
+
+      res.status(403).json({
+        success: false,
+        message: 'You are not assigned to this submission',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    logger.error('Error checking judge assignment', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      adminId: req.admin.adminId,
+      requestId: req.requestId,
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Error verifying judge assignment',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  }
+};
+
+/**
+ * Accept either an admin access token or an API key in the X-API-Key header.
+ * Used on the read endpoints machine clients call, such as the submission export.
+ */
+export const authenticateTokenOrApiKey = async (
+  req: Request,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): Promise<void> => {
+  const apiKey = req.header(API_KEY_HEADER);
+
+  if (!apiKey) {
+    await authenticateToken(req, res, next);
+    return;
+  }
+
+  try {
+    const { ApiKeyService } = await import('../services/apiKeyService');
+    const principal = await ApiKeyService.authenticate(apiKey);
+
+    if (!principal) {
+      throw new Error('API key is unknown, expired or revoked');
+    }
+
+    req.apiKey = principal;
+
+    logger.info(`API key ${principal.id} authenticated successfully`, {
+      apiKeyId: principal.id,
+      name: principal.name,
+      requestId: req.requestId,
+    });
+  } catch (error) {
+    logger.warn('API key authentication failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.requestId,
+      ip: req.ip,
+    });
+
+    res.status(401).json({
+      success: false,
+      message: 'Invalid or expired API key',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+    return;
+  }
+
+  // Every key has its own rate limit bucket
+  await apiKeyRateLimit(req, res, next);
+};
+
+/**
+ * Authenticate a participant token issued through a magic link.
+ * The token only grants access to the submission it was issued for.
+ */
+export const authenticateParticipant = (
+  req: Request,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): void => {
+  try {
+    const authHeader = req.headers.authorization;
+    const token = authHeader && authHeader.split(' ')[1];
+
+    if (!token) {
+      res.status(401).json({
+        success: false,
+        message: 'Participant token is required',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const decoded = JWTUtils.verifyParticipantToken(token);
+
+    // Tokens are bound to the event the submission belongs to
+    if (req.event && req.event.id !== decoded.eventId) {
+      res.status(403).json({
+        success: false,
+        message: 'Participant token is not valid for this event',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    req.participant = decoded;
+    next();
+  } catch (error) {
+    logger.warn('Participant authentication failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.requestId,
+      ip: req.ip,
+    });
+
+    res.status(401).json({
+      success: false,
+      message: 'Invalid or expired participant token',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  }
+};
+
+/**
+ * Accept either an admin access token or a participant token.
+ * Used on endpoints shared by reviewers and teams, such as submission comments.
+ */
+export const authenticateAdminOrParticipant = async (
+  req: Request,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): Promise<void> => {
+  const authHeader = req.headers.authorization;
+  const token = authHeader && authHeader.split(' ')[1];
+
+  if (!token) {
+    res.status(401).json({
+      success: false,
+      message: 'Access token is required',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+    return;
+  }
+
+  try {
+    JWTUtils.verifyAccessToken(token);
+  } catch (error) {
+    // Not an admin token, try a participant token
+    authenticateParticipant(req, res, next);
+    return;
+  }
+
+  // An admin token, which also has to pass the account checks
+  await authenticateToken(req, res, next);
+};
+
+/**
+ * Restrict participant tokens to the submission they were issued for.
+ * Admin requests pass through unchanged.
+ */
+export const requireParticipantSubmission = (
+  req: Request,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): void => {
+  if (req.participant && req.participant.submissionId !== req.params.id) {
+    logger.warn('Participant attempted to access another submission', {
+      submissionId: req.params.id,
+      participantSubmissionId: req.participant.submissionId,
+      requestId: req.requestId,
+    });
+
+    res.status(403).json({
+      success: false,
+      message: 'You can only access your own submission',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Authenticate two-factor enrollment requests.
+ * Accepts an admin access token, or the challenge token from a login held back because the role requires 2FA.
+ */
+export const authenticateTwoFactorEnrollment = (
+  req: Request,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): void => {
+  const challengeToken = req.body?.challengeToken;
+
+  if (typeof challengeToken !== 'string') {
+    authenticateToken(req, res, next);
+    return;
+  }
+
+  try {
+    const challenge = JWTUtils.verifyTwoFactorChallenge(challengeToken);
+
+    if (challenge.purpose !== 'enroll') {
+      throw new Error('Challenge is not for enrollment');
+    }
+
+    req.twoFactorChallenge = challenge;
+    next();
+  } catch (error) {
+    logger.warn('Two-factor enrollment authentication failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.requestId,
+      ip: req.ip,
+    });
+
+    res.status(401).json({
+      success: false,
+      message: 'Invalid or expired two-factor challenge',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  }
+};
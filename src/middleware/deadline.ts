@@ -0,0 +1,69 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiResponse } from '../types';
+import { logger } from '../config/logger';
+
+/**
+ * Reject submissions outside the event's submission window.
+ * Entries accepted during the grace period are marked via req.submissionWindow.
+ */
+export const enforceSubmissionDeadline = async (
+  req: Request,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    // Import here to avoid circular dependency
+    const { DeadlineService } = await import('../services/deadlineService');
+
+    const result = await DeadlineService.getSubmissionWindow(req.event!, req.body.email);
+
+    if (!result.success || !result.data) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to check submission deadline',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    const window = result.data;
+
+    if (window.state === 'NOT_OPEN' || window.state === 'CLOSED') {
+      logger.warn('Submission attempted outside the submission window', {
+        eventId: req.event!.id,
+        email: req.body.email,
+        state: window.state,
+        ip: req.ip,
+        requestId: req.requestId,
+      });
+
+      res.status(403).json({
+        success: false,
+        message: window.state === 'NOT_OPEN'
+          ? 'Submissions are not open yet'
+          : 'The submission deadline has passed',
+        data: { deadline: window },
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    req.submissionWindow = window;
+    next();
+  } catch (error) {
+    logger.error('Error checking submission deadline', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      eventId: req.event?.id,
+      requestId: req.requestId,
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Error checking submission deadline',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  }
+};
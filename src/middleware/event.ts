@@ -0,0 +1,94 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiResponse } from '../types';
+import { logger } from '../config/logger';
+
+/**
+ * Attach the event addressed by the :slug route parameter to the request.
+ * Routes mounted without a slug fall back to the current event.
+ */
+export const resolveEvent = async (
+  req: Request,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    // Import here to avoid circular dependency
+    const { EventService } = await import('../services/eventService');
+
+    const { slug } = req.params;
+    const result = slug
+      ? await EventService.getEventBySlug(slug)
+      : await EventService.getCurrentEvent();
+
+    if (!result.success) {
+      const statusCode = result.error === 'Event not found' ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        message: result.error || 'Failed to resolve event',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    req.event = result.data;
+    next();
+  } catch (error) {
+    logger.error('Error resolving event', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      slug: req.params.slug,
+      requestId: req.requestId,
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Error resolving event',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  }
+};
+
+/**
+ * Reject submission IDs that belong to a different event than the resolved one
+ */
+export const requireEventSubmission = async (
+  req: Request,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { prisma } = await import('../config/database');
+
+    const submission = await prisma.submission.findFirst({
+      where: { id: req.params.id, eventId: req.event!.id, deletedAt: null },
+      select: { id: true },
+    });
+
+    if (!submission) {
+      res.status(404).json({
+        success: false,
+        message: 'Submission not found',
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    logger.error('Error checking submission event', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      submissionId: req.params.id,
+      eventId: req.event?.id,
+      requestId: req.requestId,
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Error validating submission',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  }
+};
@@ -83,6 +83,35 @@ export const submissionRateLimit = rateLimit({
   legacyHeaders: false,
 });
 
+/**
+ * Rate limiter for submission comments
+ */
+export const commentRateLimit = rateLimit({
+  windowMs: config.rateLimit.commentWindowMs, // 15 minutes
+  max: config.rateLimit.commentMax, // 30 comment requests per window
+  keyGenerator,
+  handler: (req: Request, res: Response<ApiResponse>): void => {
+    const clientIP = keyGenerator(req);
+    
+    logger.warn('Comment rate limit exceeded', {
+      ip: clientIP,
+      path: req.path,
+      method: req.method,
+      userAgent: req.headers['user-agent'],
+      requestId: req.requestId,
+    });
+
+    res.status(429).json({
+      success: false,
+      message: 'Too many comment requests. Please try again later.',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 /**
  * Rate limiter for authentication endpoints
  */
@@ -118,7 +147,7 @@ export const authRateLimit = rateLimit({
 export const authSlowDown = slowDown({
   windowMs: 15 * 60 * 1000, // 15 minutes
   delayAfter: 3, // Allow 3 requests per windowMs without delay
-  delayMs: 500, // Add 500ms delay per request after delayAfter
+  delayMs: (used: number) => (used - 3) * 500, // Add 500ms more delay for every request after delayAfter
   maxDelayMs: 20000, // Maximum delay of 20 seconds
   keyGenerator,
 });
@@ -135,6 +164,34 @@ export const adminRateLimit = rateLimit({
   legacyHeaders: false,
 });
 
+/**
+ * Rate limiter for API keys, with one bucket per key.
+ * Applied by the authentication middleware once a key is accepted; the per-IP limits still apply.
+ */
+export const apiKeyRateLimit = rateLimit({
+  windowMs: config.rateLimit.apiKeyWindowMs, // 15 minutes
+  max: config.rateLimit.apiKeyMax, // 100 requests per key per window
+  keyGenerator: (req: Request): string => `api-key:${req.apiKey?.id}`,
+  handler: (req: Request, res: Response<ApiResponse>): void => {
+    logger.warn('API key rate limit exceeded', {
+      apiKeyId: req.apiKey?.id,
+      ip: keyGenerator(req),
+      path: req.path,
+      method: req.method,
+      requestId: req.requestId,
+    });
+
+    res.status(429).json({
+      success: false,
+      message: 'Too many requests for this API key. Please try again later.',
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId,
+    });
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 /**
  * Rate limiter for file operations (if needed)
  */
@@ -170,7 +170,7 @@ export const validateHeaders = (requiredHeaders: string[]) => {
 };
 
 /**
- * Prevent duplicate submissions based on email
+ * Prevent duplicate submissions based on email within the resolved event
  */
 export const preventDuplicateSubmission = async (
   req: Request,
@@ -188,14 +188,16 @@ export const preventDuplicateSubmission = async (
     // Import prisma here to avoid circular dependency
     const { prisma } = await import('../config/database');
     
+    // Deleted submissions keep their email until they are purged, but are never described to the public
     const existingSubmission = await prisma.submission.findUnique({
-      where: { email },
-      select: { id: true, submittedAt: true, teamName: true },
+      where: { eventId_email: { eventId: req.event!.id, email } },
+      select: { id: true, submittedAt: true, teamName: true, deletedAt: true },
     });
 
     if (existingSubmission) {
       logger.warn('Duplicate submission attempt', {
         email,
+        eventId: req.event!.id,
         existingSubmissionId: existingSubmission.id,
         ip: req.ip,
         requestId: req.requestId,
@@ -203,8 +205,8 @@ export const preventDuplicateSubmission = async (
 
       res.status(409).json({
         success: false,
-        message: 'A submission with this email already exists. Each team can only submit once.',
-        data: {
+        message: 'A submission with this email already exists. Each team can only submit once per event.',
+        data: existingSubmission.deletedAt ? undefined : {
           existingSubmission: {
             teamName: existingSubmission.teamName,
             submittedAt: existingSubmission.submittedAt,
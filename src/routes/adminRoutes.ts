@@ -0,0 +1,374 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/adminController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+import { handleValidation } from '../middleware/validation';
+import { adminRateLimit } from '../middleware/rateLimit';
+import {
+  adminQueryValidation,
+  changeAdminRoleValidation,
+  idParamValidation,
+  inviteAdminValidation,
+} from '../validators/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/admins:
+ *   get:
+ *     summary: List admins (Admin only)
+ *     description: Requires admins:manage.
+ *     tags: [Admins]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: search
+ *         description: Matches name or email
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Admins retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Admin'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get(
+  '/',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('admins:manage'),
+  adminQueryValidation,
+  handleValidation,
+  AdminController.getAdmins
+);
+
+/**
+ * @swagger
+ * /api/v1/admins/invite:
+ *   post:
+ *     summary: Invite an admin (Admin only)
+ *     description: Creates the account and emails a one-time link to choose a password. The link expires after ADMIN_SETUP_TOKEN_TTL_HOURS; resetting the password sends a new one.
+ *     tags: [Admins]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email, name, role]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               name:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *                 example: judge
+ *     responses:
+ *       201:
+ *         description: Admin invited. data.setupLinkSent is false when the email could not be sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Admin'
+ *       400:
+ *         description: Validation error or unknown role
+ *       409:
+ *         description: An admin with this email already exists
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post(
+  '/invite',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('admins:manage'),
+  inviteAdminValidation,
+  handleValidation,
+  AdminController.inviteAdmin
+);
+
+/**
+ * @swagger
+ * /api/v1/admins/{id}:
+ *   get:
+ *     summary: Get an admin (Admin only)
+ *     tags: [Admins]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Admin retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Admin'
+ *       404:
+ *         description: Admin not found
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get(
+  '/:id',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('admins:manage'),
+  idParamValidation,
+  handleValidation,
+  AdminController.getAdminById
+);
+
+/**
+ * @swagger
+ * /api/v1/admins/{id}/deactivate:
+ *   post:
+ *     summary: Deactivate an admin (Admin only)
+ *     description: Blocks sign-in and revokes every refresh token of the admin. Admins cannot deactivate themselves, and the last active superadmin cannot be deactivated.
+ *     tags: [Admins]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Admin deactivated successfully
+ *       404:
+ *         description: Admin not found
+ *       409:
+ *         description: Admin is already deactivated, is the current admin or is the last active superadmin
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post(
+  '/:id/deactivate',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('admins:manage'),
+  idParamValidation,
+  handleValidation,
+  AdminController.deactivateAdmin
+);
+
+/**
+ * @swagger
+ * /api/v1/admins/{id}/reactivate:
+ *   post:
+ *     summary: Reactivate an admin (Admin only)
+ *     tags: [Admins]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Admin reactivated successfully
+ *       404:
+ *         description: Admin not found
+ *       409:
+ *         description: Admin is already active
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post(
+  '/:id/reactivate',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('admins:manage'),
+  idParamValidation,
+  handleValidation,
+  AdminController.reactivateAdmin
+);
+
+/**
+ * @swagger
+ * /api/v1/admins/{id}/unlock:
+ *   post:
+ *     summary: Unlock an admin (Admin only)
+ *     description: Clears the failed login count and any lock from repeated failed logins.
+ *     tags: [Admins]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Admin unlocked successfully
+ *       404:
+ *         description: Admin not found
+ *       409:
+ *         description: Admin is not locked
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post(
+  '/:id/unlock',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('admins:manage'),
+  idParamValidation,
+  handleValidation,
+  AdminController.unlockAdmin
+);
+
+/**
+ * @swagger
+ * /api/v1/admins/{id}/role:
+ *   patch:
+ *     summary: Change the role of an admin (Admin only)
+ *     description: The admin's access tokens stop working at once; they sign in again (or refresh) to get the new permissions. The last active superadmin keeps the superadmin role.
+ *     tags: [Admins]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [role]
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 example: viewer
+ *     responses:
+ *       200:
+ *         description: Admin role changed successfully
+ *       400:
+ *         description: Validation error or unknown role
+ *       404:
+ *         description: Admin not found
+ *       409:
+ *         description: The admin is the last active superadmin
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.patch(
+  '/:id/role',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('admins:manage'),
+  changeAdminRoleValidation,
+  handleValidation,
+  AdminController.changeRole
+);
+
+/**
+ * @swagger
+ * /api/v1/admins/{id}/reset-password:
+ *   post:
+ *     summary: Force a password reset (Admin only)
+ *     description: Replaces the admin's password so it no longer works, revokes their refresh tokens and emails a one-time link to choose a new one.
+ *     tags: [Admins]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Password reset. data.setupLinkSent is false when the email could not be sent
+ *       404:
+ *         description: Admin not found
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post(
+  '/:id/reset-password',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('admins:manage'),
+  idParamValidation,
+  handleValidation,
+  AdminController.forcePasswordReset
+);
+
+export default router;
@@ -0,0 +1,130 @@
+import { Router } from 'express';
+import { ApiKeyController } from '../controllers/apiKeyController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+import { handleValidation } from '../middleware/validation';
+import { adminRateLimit } from '../middleware/rateLimit';
+import { createApiKeyValidation, idParamValidation } from '../validators/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/api-keys:
+ *   get:
+ *     summary: List API keys (Admin only)
+ *     description: Includes revoked and expired keys. Only the prefix of each key is shown.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: API keys retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ApiKey'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *   post:
+ *     summary: Create an API key (Admin only)
+ *     description: |
+ *       Machine clients send the key in the `X-API-Key` header instead of a bearer token,
+ *       on the read endpoints that list API key authentication. Scopes are read-only
+ *       permissions and cannot go beyond the permissions of the creating admin; a key
+ *       also loses any scope its creator's role stops granting, and stops working when
+ *       the creator is deactivated. Each key has its own rate limit. The key is only
+ *       returned in this response.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, scopes]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Results dashboard
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [submissions:read, scores:read, audit:read]
+ *               expiresInDays:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 365
+ *                 default: 90
+ *     responses:
+ *       201:
+ *         description: API key created, including the key in data.key
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Insufficient permissions, or a scope the admin's role does not have
+ */
+router.get(
+  '/',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('api_keys:manage'),
+  ApiKeyController.getApiKeys
+);
+router.post(
+  '/',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('api_keys:manage'),
+  createApiKeyValidation,
+  handleValidation,
+  ApiKeyController.createApiKey
+);
+
+/**
+ * @swagger
+ * /api/v1/api-keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key (Admin only)
+ *     description: The key stops authenticating at once. It stays in the list, marked with revokedAt.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revoked successfully
+ *       404:
+ *         description: API key not found
+ *       409:
+ *         description: API key is already revoked
+ */
+router.delete(
+  '/:id',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('api_keys:manage'),
+  idParamValidation,
+  handleValidation,
+  ApiKeyController.revokeApiKey
+);
+
+export default router;
@@ -0,0 +1,265 @@
+import { Router } from 'express';
+import { AssignmentController } from '../controllers/assignmentController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+import { handleValidation } from '../middleware/validation';
+import { adminRateLimit } from '../middleware/rateLimit';
+import {
+  autoAssignValidation,
+  createAssignmentValidation,
+  reassignValidation,
+  assignmentQueryValidation,
+  idParamValidation,
+} from '../validators/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/assignments/me:
+ *   get:
+ *     summary: Get the review queue of the current judge
+ *     description: Lists open submissions assigned to the authenticated judge and whether they have been scored yet.
+ *     tags: [Judging]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Review queue retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+  '/me',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('scores:write'),
+  AssignmentController.getMyQueue
+);
+
+/**
+ * @swagger
+ * /api/v1/assignments/workload:
+ *   get:
+ *     summary: Get open assignments and completed reviews per judge (Admin only)
+ *     tags: [Judging]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Judge workload retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+  '/workload',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('assignments:manage'),
+  AssignmentController.getWorkload
+);
+
+/**
+ * @swagger
+ * /api/v1/assignments/auto:
+ *   post:
+ *     summary: Distribute open submissions across active judges (Admin only)
+ *     description: |
+ *       Assigns PENDING and UNDER_REVIEW submissions to the least loaded active judges until each
+ *       has the requested number of judges. Judges are admins whose role grants scores:write but
+ *       not submissions:read. Judges sharing a non-public email domain with the team leader or
+ *       any team member are skipped as a conflict of interest. Submissions receiving their first judge move to UNDER_REVIEW.
+ *     tags: [Judging]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               eventId:
+ *                 type: string
+ *                 description: Restrict balancing to submissions of this event
+ *               judgesPerSubmission:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 10
+ *                 example: 3
+ *               submissionIds:
+ *                 type: array
+ *                 description: Restrict balancing to these submissions
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Assignments created
+ *       400:
+ *         description: No active judges available
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+  '/auto',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('assignments:manage'),
+  autoAssignValidation,
+  handleValidation,
+  AssignmentController.autoAssign
+);
+
+/**
+ * @swagger
+ * /api/v1/assignments:
+ *   get:
+ *     summary: List judge assignments (Admin only)
+ *     tags: [Judging]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: submissionId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: judgeId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Assignments retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+  '/',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('assignments:manage'),
+  assignmentQueryValidation,
+  handleValidation,
+  AssignmentController.getAssignments
+);
+
+/**
+ * @swagger
+ * /api/v1/assignments:
+ *   post:
+ *     summary: Manually assign a judge to a submission (Admin only)
+ *     tags: [Judging]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - submissionId
+ *               - judgeId
+ *             properties:
+ *               submissionId:
+ *                 type: string
+ *               judgeId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Judge assigned successfully
+ *       400:
+ *         description: Judge already assigned or has a conflict of interest
+ *       404:
+ *         description: Submission or judge not found
+ */
+router.post(
+  '/',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('assignments:manage'),
+  createAssignmentValidation,
+  handleValidation,
+  AssignmentController.createAssignment
+);
+
+/**
+ * @swagger
+ * /api/v1/assignments/{id}:
+ *   patch:
+ *     summary: Reassign a submission to another judge (Admin only)
+ *     tags: [Judging]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - judgeId
+ *             properties:
+ *               judgeId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Judge reassigned successfully
+ *       400:
+ *         description: Judge already assigned or has a conflict of interest
+ *       404:
+ *         description: Assignment or judge not found
+ */
+router.patch(
+  '/:id',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('assignments:manage'),
+  reassignValidation,
+  handleValidation,
+  AssignmentController.reassign
+);
+
+/**
+ * @swagger
+ * /api/v1/assignments/{id}:
+ *   delete:
+ *     summary: Remove a judge assignment (Admin only)
+ *     tags: [Judging]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Assignment removed successfully
+ *       404:
+ *         description: Assignment not found
+ */
+router.delete(
+  '/:id',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('assignments:manage'),
+  idParamValidation,
+  handleValidation,
+  AssignmentController.removeAssignment
+);
+
+export default router;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { AuditController } from '../controllers/auditController';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, authenticateTokenOrApiKey, requirePermission } from '../middleware/auth';
 import { handleValidation } from '../middleware/validation';
 import { submissionQueryValidation } from '../validators/validation';
 import { adminRateLimit } from '../middleware/rateLimit';
@@ -16,6 +16,7 @@ const router = Router();
  *     tags: [Audit]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: query
  *         name: page
@@ -36,7 +37,7 @@ const router = Router();
  *         name: action
  *         schema:
  *           type: string
- *           enum: [CREATE, UPDATE, DELETE, LOGIN, LOGOUT, STATUS_CHANGE, REVIEW, APPROVE, REJECT]
+ *           enum: [CREATE, UPDATE, DELETE, LOGIN, LOGIN_FAILED, LOGOUT, STATUS_CHANGE, REVIEW, APPROVE, REJECT, RESTORE, PURGE, TOKEN_REUSE, EXPORT]
  *         description: Filter by audit action type
  *       - in: query
  *         name: entityType
@@ -50,6 +51,17 @@ const router = Router();
  *           type: string
  *         description: Filter by admin who performed the action
  *       - in: query
+ *         name: actorType
+ *         schema:
+ *           type: string
+ *           enum: [admin, participant, api_key, system]
+ *         description: Filter by the kind of actor who performed the action
+ *       - in: query
+ *         name: eventId
+ *         schema:
+ *           type: string
+ *         description: Only include activity on submissions of this event
+ *       - in: query
  *         name: startDate
  *         schema:
  *           type: string
@@ -147,7 +159,7 @@ const router = Router();
  *       403:
  *         $ref: '#/components/responses/ForbiddenError'
  */
-router.get('/', authenticateToken, adminRateLimit, submissionQueryValidation, handleValidation, AuditController.getAuditLogs);
+router.get('/', authenticateTokenOrApiKey, requirePermission('audit:read'), adminRateLimit, submissionQueryValidation, handleValidation, AuditController.getAuditLogs);
 
 /**
  * @swagger
@@ -232,7 +244,7 @@ router.get('/', authenticateToken, adminRateLimit, submissionQueryValidation, ha
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  */
-router.get('/submission/:submissionId', authenticateToken, adminRateLimit, AuditController.getSubmissionAuditLogs);
+router.get('/submission/:submissionId', authenticateToken, requirePermission('audit:read'), adminRateLimit, AuditController.getSubmissionAuditLogs);
 
 /**
  * @swagger
@@ -323,7 +335,7 @@ router.get('/submission/:submissionId', authenticateToken, adminRateLimit, Audit
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  */
-router.get('/admin/:adminId', authenticateToken, adminRateLimit, AuditController.getAdminActivity);
+router.get('/admin/:adminId', authenticateToken, requirePermission('audit:read'), adminRateLimit, AuditController.getAdminActivity);
 
 /**
  * @swagger
@@ -334,6 +346,7 @@ router.get('/admin/:adminId', authenticateToken, adminRateLimit, AuditController
  *     tags: [Audit]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: query
  *         name: period
@@ -342,6 +355,11 @@ router.get('/admin/:adminId', authenticateToken, adminRateLimit, AuditController
  *           enum: [day, week, month, year]
  *           default: month
  *         description: Time period for statistics
+ *       - in: query
+ *         name: eventId
+ *         schema:
+ *           type: string
+ *         description: Only include activity on submissions of this event
  *     responses:
  *       200:
  *         description: Audit statistics retrieved successfully
@@ -454,6 +472,6 @@ router.get('/admin/:adminId', authenticateToken, adminRateLimit, AuditController
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  */
-router.get('/stats', authenticateToken, adminRateLimit, AuditController.getAuditStats);
+router.get('/stats', authenticateTokenOrApiKey, requirePermission('audit:read'), adminRateLimit, AuditController.getAuditStats);
 
 export default router;
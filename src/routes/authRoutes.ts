@@ -1,13 +1,18 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/authController';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, authenticateTwoFactorEnrollment } from '../middleware/auth';
 import { handleValidation } from '../middleware/validation';
 import { 
   adminLoginValidation, 
   adminChangePasswordValidation, 
-  refreshTokenValidation 
+  refreshTokenValidation,
+  sessionParamValidation,
+  setupPasswordValidation,
+  twoFactorDisableValidation,
+  twoFactorEnableValidation,
+  twoFactorLoginValidation
 } from '../validators/validation';
-import { adminRateLimit } from '../middleware/rateLimit';
+import { adminRateLimit, authRateLimit, authSlowDown } from '../middleware/rateLimit';
 
 const router = Router();
 
@@ -16,7 +21,7 @@ const router = Router();
  * /api/v1/auth/login:
  *   post:
  *     summary: Admin login
- *     description: Authenticate admin user and receive access and refresh tokens
+ *     description: Authenticate admin user and receive access and refresh tokens. When two-factor authentication is enabled, or the role requires it and the admin has not enrolled, a short-lived challenge token is returned instead; exchange it at /api/v1/auth/login/2fa or use it to enroll at /api/v1/auth/2fa/setup. After LOGIN_LOCKOUT_THRESHOLD failed attempts the account is locked for a period that doubles with every further failure; a locked account gets the same response as a wrong password or an unknown email.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -41,7 +46,9 @@ const router = Router();
  *                 - type: object
  *                   properties:
  *                     data:
- *                       $ref: '#/components/schemas/LoginResponse'
+ *                       oneOf:
+ *                         - $ref: '#/components/schemas/LoginResponse'
+ *                         - $ref: '#/components/schemas/TwoFactorChallenge'
  *             examples:
  *               success:
  *                 summary: Successful login
@@ -78,14 +85,184 @@ const router = Router();
  *       429:
  *         $ref: '#/components/responses/RateLimitError'
  */
-router.post('/login', adminRateLimit, adminLoginValidation, handleValidation, AuthController.login);
+router.post('/login', authRateLimit, authSlowDown, adminLoginValidation, handleValidation, AuthController.login);
+
+/**
+ * @swagger
+ * /api/v1/auth/login/2fa:
+ *   post:
+ *     summary: Complete a two-factor login
+ *     description: Exchange the challenge token from the login step and a code from the authenticator app, or an unused recovery code, for access and refresh tokens. Each code works only once.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *               recoveryCode:
+ *                 type: string
+ *                 example: "4f9c-a21e-07bd"
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/LoginResponse'
+ *       401:
+ *         description: Invalid or expired challenge, or invalid code
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post('/login/2fa', authRateLimit, authSlowDown, twoFactorLoginValidation, handleValidation, AuthController.loginTwoFactor);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/setup:
+ *   post:
+ *     summary: Start two-factor enrollment
+ *     description: Generates a new TOTP secret and returns it with an otpauth:// URI to show as a QR code. Authenticate with an access token, or send the challenge token of a login that requires enrollment in the body.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Enrollment started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         secret:
+ *                           type: string
+ *                         otpauthUri:
+ *                           type: string
+ *                           example: "otpauth://totp/Open%20Era:admin%40openera.com?secret=JBSWY3DPEHPK3PXP&issuer=Open+Era&algorithm=SHA1&digits=6&period=30"
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/2fa/setup', adminRateLimit, authenticateTwoFactorEnrollment, AuthController.setupTwoFactor);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/enable:
+ *   post:
+ *     summary: Enable two-factor authentication
+ *     description: Confirms a code from the authenticator app and returns one-time recovery codes. When enrolling with a login challenge token, the response also contains the session tokens.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *               challengeToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         recoveryCodes:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                         session:
+ *                           $ref: '#/components/schemas/LoginResponse'
+ *       400:
+ *         description: Invalid code or enrollment not started
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/2fa/enable', adminRateLimit, authenticateTwoFactorEnrollment, twoFactorEnableValidation, handleValidation, AuthController.enableTwoFactor);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/disable:
+ *   post:
+ *     summary: Disable two-factor authentication
+ *     description: Requires the current password. Not allowed for roles that require two-factor authentication. The change is recorded in the audit log.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *             properties:
+ *               password:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       400:
+ *         description: Incorrect password or two-factor authentication not enabled
+ *       403:
+ *         description: Two-factor authentication is required for your role
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/2fa/disable', adminRateLimit, authenticateToken, twoFactorDisableValidation, handleValidation, AuthController.disableTwoFactor);
 
 /**
  * @swagger
  * /api/v1/auth/refresh:
  *   post:
  *     summary: Refresh access token
- *     description: Use refresh token to get a new access token
+ *     description: Exchange a refresh token for a new access token and refresh token. Each refresh token works once; presenting one that was already exchanged revokes the whole session, so every device holding it must log in again.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -205,6 +382,51 @@ router.post('/logout', authenticateToken, AuthController.logout);
  */
 router.put('/change-password', authenticateToken, adminChangePasswordValidation, handleValidation, AuthController.changePassword);
 
+/**
+ * @swagger
+ * /api/v1/auth/setup-password:
+ *   post:
+ *     summary: Set a password with a setup link
+ *     description: Completes an admin invite or a forced password reset using the one-time token from the email. The token can be used once and expires after ADMIN_SETUP_TOKEN_TTL_HOURS.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - newPassword
+ *               - confirmPassword
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Token from the setup link
+ *               newPassword:
+ *                 type: string
+ *                 minLength: 8
+ *                 description: New password (min 8 chars, must contain uppercase, lowercase, digit, and special character)
+ *                 example: "NewPassword123!"
+ *               confirmPassword:
+ *                 type: string
+ *                 example: "NewPassword123!"
+ *     responses:
+ *       200:
+ *         description: Password set successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       400:
+ *         description: Invalid or expired setup link, or weak password
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/setup-password', adminRateLimit, setupPasswordValidation, handleValidation, AuthController.setupPassword);
+
 /**
  * @swagger
  * /api/v1/auth/profile:
@@ -256,4 +478,89 @@ router.put('/change-password', authenticateToken, adminChangePasswordValidation,
  */
 router.get('/profile', authenticateToken, AuthController.getProfile);
 
+/**
+ * @swagger
+ * /api/v1/auth/sessions:
+ *   get:
+ *     summary: List active sessions
+ *     description: One entry per device the admin is signed in on, with the IP address and browser of its last login or token refresh. The session of the calling token is marked as current.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Session'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *   delete:
+ *     summary: Sign out of all other sessions
+ *     description: Revokes every session except the one of the calling token.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Other sessions revoked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         revokedSessions:
+ *                           type: integer
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get('/sessions', adminRateLimit, authenticateToken, AuthController.getSessions);
+router.delete('/sessions', adminRateLimit, authenticateToken, AuthController.revokeOtherSessions);
+
+/**
+ * @swagger
+ * /api/v1/auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Revoke a session
+ *     description: Signs the device out by revoking the refresh tokens of the session. Its access token is rejected from the next request.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Session revoked successfully
+ *       404:
+ *         description: Session not found
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.delete(
+  '/sessions/:sessionId',
+  adminRateLimit,
+  authenticateToken,
+  sessionParamValidation,
+  handleValidation,
+  AuthController.revokeSession
+);
+
 export default router;
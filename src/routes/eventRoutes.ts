@@ -0,0 +1,206 @@
+import { Router } from 'express';
+import { EventController } from '../controllers/eventController';
+import { authenticateToken, optionalAuthentication, requirePermission } from '../middleware/auth';
+import { handleValidation } from '../middleware/validation';
+import { adminRateLimit } from '../middleware/rateLimit';
+import {
+  createEventValidation,
+  updateEventValidation,
+  slugParamValidation,
+} from '../validators/validation';
+import submissionRoutes from './submissionRoutes';
+import streamRoutes from './streamRoutes';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/events:
+ *   get:
+ *     summary: List hackathon events
+ *     description: Draft events are only included for admins.
+ *     tags: [Events]
+ *     responses:
+ *       200:
+ *         description: Events retrieved successfully
+ */
+router.get(
+  '/',
+  optionalAuthentication,
+  EventController.getEvents
+);
+
+/**
+ * @swagger
+ * /api/v1/events:
+ *   post:
+ *     summary: Create a hackathon event (Admin only)
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - slug
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Open Era Hackathon 2026"
+ *               slug:
+ *                 type: string
+ *                 example: "open-era-2026"
+ *               description:
+ *                 type: string
+ *               submissionOpensAt:
+ *                 type: string
+ *                 format: date-time
+ *               submissionClosesAt:
+ *                 type: string
+ *                 format: date-time
+ *               gracePeriodMinutes:
+ *                 type: integer
+ *                 description: Minutes after closing during which late entries are accepted
+ *               status:
+ *                 type: string
+ *                 enum: [DRAFT, OPEN, CLOSED, ARCHIVED]
+ *                 default: DRAFT
+ *     responses:
+ *       201:
+ *         description: Event created successfully
+ *       400:
+ *         description: Validation error
+ *       409:
+ *         description: An event with this slug already exists
+ */
+router.post(
+  '/',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('events:manage'),
+  createEventValidation,
+  handleValidation,
+  EventController.createEvent
+);
+
+/**
+ * @swagger
+ * /api/v1/events/{slug}:
+ *   get:
+ *     summary: Get an event by slug
+ *     tags: [Events]
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Event retrieved successfully
+ *       404:
+ *         description: Event not found
+ */
+router.get(
+  '/:slug',
+  optionalAuthentication,
+  slugParamValidation,
+  handleValidation,
+  EventController.getEvent
+);
+
+/**
+ * @swagger
+ * /api/v1/events/{slug}:
+ *   put:
+ *     summary: Update an event (Admin only)
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               submissionOpensAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               submissionClosesAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               gracePeriodMinutes:
+ *                 type: integer
+ *                 nullable: true
+ *               status:
+ *                 type: string
+ *                 enum: [DRAFT, OPEN, CLOSED, ARCHIVED]
+ *     responses:
+ *       200:
+ *         description: Event updated successfully
+ *       404:
+ *         description: Event not found
+ */
+router.put(
+  '/:slug',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('events:manage'),
+  updateEventValidation,
+  handleValidation,
+  EventController.updateEvent
+);
+
+/**
+ * @swagger
+ * /api/v1/events/{slug}/submissions:
+ *   post:
+ *     summary: Create a submission for a specific event
+ *     description: |
+ *       Every route under /api/v1/submissions is also available under /api/v1/events/{slug}/submissions,
+ *       scoped to the given event. The unscoped routes use the current event
+ *       (DEFAULT_EVENT_SLUG, otherwise the latest open event). Email uniqueness is enforced per event.
+ *     tags: [Events]
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateSubmissionRequest'
+ *     responses:
+ *       201:
+ *         description: Submission created successfully
+ *       403:
+ *         description: This event is not accepting submissions
+ *       404:
+ *         description: Event not found
+ *       409:
+ *         description: A submission with this email already exists for the event
+ */
+router.use('/:slug/submissions', submissionRoutes);
+router.use('/:slug/stream', streamRoutes);
+
+export default router;
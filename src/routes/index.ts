@@ -4,14 +4,36 @@ import authRoutes from './authRoutes';
 import auditRoutes from './auditRoutes';
 import healthRoutes from './healthRoutes';
 import docsRoutes from './docsRoutes';
+import rubricRoutes from './rubricRoutes';
+import assignmentRoutes from './assignmentRoutes';
+import eventRoutes from './eventRoutes';
+import notificationRoutes from './notificationRoutes';
+import webhookRoutes from './webhookRoutes';
+import apiKeyRoutes from './apiKeyRoutes';
+import streamRoutes from './streamRoutes';
+import roleRoutes from './roleRoutes';
+import adminRoutes from './adminRoutes';
+import wellKnownRoutes from './wellKnownRoutes';
 
 const router = Router();
 
 // Mount route modules
+router.use('/api/v1/events', eventRoutes);
 router.use('/api/v1/submissions', submissionRoutes);
 router.use('/api/v1/auth', authRoutes);
 router.use('/api/v1/audit', auditRoutes);
 router.use('/api/v1/health', healthRoutes);
+router.use('/api/v1/rubrics', rubricRoutes);
+router.use('/api/v1/assignments', assignmentRoutes);
+router.use('/api/v1/notifications', notificationRoutes);
+router.use('/api/v1/webhooks', webhookRoutes);
+router.use('/api/v1/api-keys', apiKeyRoutes);
+router.use('/api/v1/stream', streamRoutes);
+router.use('/api/v1/roles', roleRoutes);
+router.use('/api/v1/admins', adminRoutes);
+
+// Public keys for token verification
+router.use('/.well-known', wellKnownRoutes);
 
 // Documentation routes
 router.use('/docs', docsRoutes);
@@ -54,11 +76,21 @@ router.use('/docs', docsRoutes);
  *                 environment: "production"
  *                 timestamp: "2025-07-19T09:41:07.123Z"
  *                 endpoints:
+ *                   events: "/api/v1/events"
  *                   submissions: "/api/v1/submissions"
  *                   auth: "/api/v1/auth"
  *                   audit: "/api/v1/audit"
  *                   health: "/api/v1/health"
+ *                   rubrics: "/api/v1/rubrics"
+ *                   assignments: "/api/v1/assignments"
+ *                   notifications: "/api/v1/notifications"
+ *                   webhooks: "/api/v1/webhooks"
+ *                   apiKeys: "/api/v1/api-keys"
+ *                   stream: "/api/v1/stream"
+ *                   roles: "/api/v1/roles"
+ *                   admins: "/api/v1/admins"
  *                   docs: "/docs"
+ *                   jwks: "/.well-known/jwks.json"
  *               timestamp: "2025-07-19T09:41:07.123Z"
  *               requestId: "req_12345"
  */
@@ -71,11 +103,21 @@ router.get('/api/v1', (req, res) => {
       environment: process.env.NODE_ENV || 'development',
       timestamp: new Date().toISOString(),
       endpoints: {
+        events: '/api/v1/events',
         submissions: '/api/v1/submissions',
         auth: '/api/v1/auth',
         audit: '/api/v1/audit',
         health: '/api/v1/health',
+        rubrics: '/api/v1/rubrics',
+        assignments: '/api/v1/assignments',
+        notifications: '/api/v1/notifications',
+        webhooks: '/api/v1/webhooks',
+        apiKeys: '/api/v1/api-keys',
+        stream: '/api/v1/stream',
+        roles: '/api/v1/roles',
+        admins: '/api/v1/admins',
         docs: '/docs',
+        jwks: '/.well-known/jwks.json',
       },
     },
     timestamp: new Date().toISOString(),
@@ -0,0 +1,143 @@
+import { Router } from 'express';
+import { NotificationController } from '../controllers/notificationController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+import { handleValidation } from '../middleware/validation';
+import { adminRateLimit } from '../middleware/rateLimit';
+import { idParamValidation, notificationQueryValidation } from '../validators/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/notifications:
+ *   get:
+ *     summary: List outbound notifications (Admin only)
+ *     description: Lists queued, sent and failed emails, newest first.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, SENT, FAILED]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Notifications retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Notification'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get(
+  '/',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('notifications:manage'),
+  notificationQueryValidation,
+  handleValidation,
+  NotificationController.getNotifications
+);
+
+/**
+ * @swagger
+ * /api/v1/notifications/{id}:
+ *   get:
+ *     summary: Get an outbound notification (Admin only)
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Notification retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Notification'
+ *       404:
+ *         description: Notification not found
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get(
+  '/:id',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('notifications:manage'),
+  idParamValidation,
+  handleValidation,
+  NotificationController.getNotificationById
+);
+
+/**
+ * @swagger
+ * /api/v1/notifications/{id}/resend:
+ *   post:
+ *     summary: Resend a failed notification (Admin only)
+ *     description: Resets the retry counter of a failed email and attempts delivery again right away. If that attempt fails the email is retried on the normal schedule.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Notification resent or queued for resending
+ *       404:
+ *         description: Notification not found
+ *       409:
+ *         description: Only failed notifications can be resent
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post(
+  '/:id/resend',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('notifications:manage'),
+  idParamValidation,
+  handleValidation,
+  NotificationController.resendNotification
+);
+
+export default router;
@@ -0,0 +1,199 @@
+import { Router } from 'express';
+import { RoleController } from '../controllers/roleController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+import { handleValidation } from '../middleware/validation';
+import { adminRateLimit } from '../middleware/rateLimit';
+import { createRoleValidation, roleParamValidation, updateRoleValidation } from '../validators/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/roles:
+ *   get:
+ *     summary: List roles (Admin only)
+ *     description: Lists every role with the permissions it grants and how many admins hold it, together with all available permissions. Requires admins:manage.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Roles retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         roles:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/Role'
+ *                         permissions:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *   post:
+ *     summary: Create a custom role (Admin only)
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, permissions]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: mentor
+ *               description:
+ *                 type: string
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ['submissions:read', 'comments:write']
+ *     responses:
+ *       201:
+ *         description: Role created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Role'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       409:
+ *         description: A role with this name already exists
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get(
+  '/',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('admins:manage'),
+  RoleController.getRoles
+);
+
+router.post(
+  '/',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('admins:manage'),
+  createRoleValidation,
+  handleValidation,
+  RoleController.createRole
+);
+
+/**
+ * @swagger
+ * /api/v1/roles/{name}:
+ *   patch:
+ *     summary: Update a role (Admin only)
+ *     description: Changes the description or permissions of a role, including built-in ones. When the permissions change, the access tokens of admins holding the role stop working at once and the next refresh carries the new permissions. The superadmin role always keeps admins:manage.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Role updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Role'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         description: Role not found
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *   delete:
+ *     summary: Delete a custom role (Admin only)
+ *     description: Built-in roles and roles still held by an admin cannot be deleted.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Role deleted successfully
+ *       404:
+ *         description: Role not found
+ *       409:
+ *         description: Role is built in or still assigned to admins
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.patch(
+  '/:name',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('admins:manage'),
+  updateRoleValidation,
+  handleValidation,
+  RoleController.updateRole
+);
+
+router.delete(
+  '/:name',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('admins:manage'),
+  roleParamValidation,
+  handleValidation,
+  RoleController.deleteRole
+);
+
+export default router;
@@ -0,0 +1,226 @@
+import { Router } from 'express';
+import { RubricController } from '../controllers/rubricController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+import { handleValidation } from '../middleware/validation';
+import { adminRateLimit } from '../middleware/rateLimit';
+import {
+  createRubricValidation,
+  updateRubricValidation,
+  idParamValidation,
+} from '../validators/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/rubrics:
+ *   get:
+ *     summary: List judging rubrics (Admin and judges)
+ *     tags: [Judging]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Rubrics retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+  '/',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('rubrics:read'),
+  RubricController.getRubrics
+);
+
+/**
+ * @swagger
+ * /api/v1/rubrics:
+ *   post:
+ *     summary: Create a judging rubric (Admin only)
+ *     tags: [Judging]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - criteria
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Main Track Rubric"
+ *               description:
+ *                 type: string
+ *               criteria:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - name
+ *                     - weight
+ *                     - maxScore
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                       example: "Innovation"
+ *                     description:
+ *                       type: string
+ *                     weight:
+ *                       type: number
+ *                       example: 2
+ *                     maxScore:
+ *                       type: integer
+ *                       example: 10
+ *     responses:
+ *       201:
+ *         description: Rubric created successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+  '/',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('rubrics:manage'),
+  createRubricValidation,
+  handleValidation,
+  RubricController.createRubric
+);
+
+/**
+ * @swagger
+ * /api/v1/rubrics/{id}:
+ *   get:
+ *     summary: Get a rubric by ID (Admin and judges)
+ *     tags: [Judging]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rubric retrieved successfully
+ *       404:
+ *         description: Rubric not found
+ */
+router.get(
+  '/:id',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('rubrics:read'),
+  idParamValidation,
+  handleValidation,
+  RubricController.getRubricById
+);
+
+/**
+ * @swagger
+ * /api/v1/rubrics/{id}:
+ *   put:
+ *     summary: Update a rubric (Admin only)
+ *     description: Criteria can only be replaced while no scores have been recorded against the rubric.
+ *     tags: [Judging]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rubric updated successfully
+ *       400:
+ *         description: Validation error or rubric already used for scoring
+ *       404:
+ *         description: Rubric not found
+ */
+router.put(
+  '/:id',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('rubrics:manage'),
+  updateRubricValidation,
+  handleValidation,
+  RubricController.updateRubric
+);
+
+/**
+ * @swagger
+ * /api/v1/rubrics/{id}/activate:
+ *   post:
+ *     summary: Make a rubric the active scoring rubric (Admin only)
+ *     tags: [Judging]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rubric activated successfully
+ *       404:
+ *         description: Rubric not found
+ */
+router.post(
+  '/:id/activate',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('rubrics:manage'),
+  idParamValidation,
+  handleValidation,
+  RubricController.activateRubric
+);
+
+/**
+ * @swagger
+ * /api/v1/rubrics/{id}:
+ *   delete:
+ *     summary: Delete an unused rubric (Admin only)
+ *     tags: [Judging]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rubric deleted successfully
+ *       400:
+ *         description: Rubric already used for scoring
+ *       404:
+ *         description: Rubric not found
+ */
+router.delete(
+  '/:id',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('rubrics:manage'),
+  idParamValidation,
+  handleValidation,
+  RubricController.deleteRubric
+);
+
+export default router;
@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { StreamController } from '../controllers/streamController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+import { handleValidation } from '../middleware/validation';
+import { adminRateLimit } from '../middleware/rateLimit';
+import { resolveEvent } from '../middleware/event';
+import { streamQueryValidation } from '../validators/validation';
+
+// Mounted at /api/v1/stream (current event) and /api/v1/events/:slug/stream
+const router = Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * /api/v1/stream:
+ *   get:
+ *     summary: Live stream of submission activity (Admin only)
+ *     description: |
+ *       Server-Sent Events stream for the admin dashboard of the current event; use
+ *       /api/v1/events/{slug}/stream for a specific event. Sends `submission.created`,
+ *       `submission.status_changed`, `submission.deleted` and `submission.restored`
+ *       events with the audit log ID as the event ID, and a `stats` event with the
+ *       counters of /submissions/stats on connect and after every change.
+ *
+ *       Reconnecting clients send `Last-Event-ID` (or the `lastEventId` query parameter)
+ *       to receive the events they missed. A comment line is sent as a heartbeat; the stream ends when the
+ *       session is revoked or the account deactivated.
+ *       Browsers' EventSource cannot send the Authorization header, so use a
+ *       fetch-based SSE client.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Last-Event-ID
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: lastEventId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Event not found
+ */
+router.get(
+  '/',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('submissions:read'),
+  streamQueryValidation,
+  handleValidation,
+  resolveEvent,
+  StreamController.stream
+);
+
+export default router;
@@ -1,16 +1,56 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { SubmissionController } from '../controllers/submissionController';
-import { authenticateToken, requireRole } from '../middleware/auth';
+import { ScoreController } from '../controllers/scoreController';
+import { LeaderboardController } from '../controllers/leaderboardController';
+import { DeadlineController } from '../controllers/deadlineController';
+import { ParticipantController } from '../controllers/participantController';
+import { RevisionController } from '../controllers/revisionController';
+import { CommentController } from '../controllers/commentController';
+import {
+  authenticateToken,
+  authenticateTokenOrApiKey,
+  authenticateParticipant,
+  authenticateAdminOrParticipant,
+  requireParticipantSubmission,
+  optionalAuthentication,
+  requirePermission,
+  requireAdminPermission,
+  requireJudgeAssignment,
+} from '../middleware/auth';
 import { handleValidation, preventDuplicateSubmission } from '../middleware/validation';
-import { submissionRateLimit, adminRateLimit } from '../middleware/rateLimit';
+import { resolveEvent, requireEventSubmission } from '../middleware/event';
+import { enforceSubmissionDeadline } from '../middleware/deadline';
+import {
+  submissionRateLimit,
+  adminRateLimit,
+  authRateLimit,
+  commentRateLimit,
+} from '../middleware/rateLimit';
 import {
   createSubmissionValidation,
   updateSubmissionValidation,
+  bulkStatusUpdateValidation,
   submissionQueryValidation,
+  exportSubmissionsValidation,
+  importSubmissionsValidation,
   idParamValidation,
+  upsertScoresValidation,
+  leaderboardQueryValidation,
+  freezeLeaderboardValidation,
+  grantExtensionValidation,
+  requestMagicLinkValidation,
+  verifyMagicLinkValidation,
+  participantUpdateSubmissionValidation,
+  revisionDiffValidation,
+  restoreRevisionValidation,
+  createCommentValidation,
+  commentParamValidation,
 } from '../validators/validation';
 
-const router = Router();
+// Mounted at /api/v1/submissions (current event) and /api/v1/events/:slug/submissions
+const router = Router({ mergeParams: true });
+
+router.use(resolveEvent);
 
 /**
  * @swagger
@@ -51,11 +91,18 @@ const router = Router();
  *                 type: string
  *                 format: uri
  *                 example: "https://drive.google.com/file/d/1234567890"
+ *               members:
+ *                 type: array
+ *                 description: Members besides the team leader. Team size including the leader must be within TEAM_MIN_SIZE and TEAM_MAX_SIZE
+ *                 items:
+ *                   $ref: '#/components/schemas/TeamMemberInput'
  *     responses:
  *       201:
- *         description: Submission created successfully
+ *         description: Submission created successfully. Entries received during the grace period are flagged with isLate.
  *       400:
- *         description: Validation error or duplicate submission
+ *         description: Validation error, duplicate submission, or a member already on another team
+ *       403:
+ *         description: Submissions are not open yet or the deadline has passed. The submission window is returned in data.deadline.
  *       429:
  *         description: Rate limit exceeded
  */
@@ -64,6 +111,7 @@ router.post(
   submissionRateLimit,
   createSubmissionValidation,
   handleValidation,
+  enforceSubmissionDeadline,
   preventDuplicateSubmission,
   SubmissionController.createSubmission
 );
@@ -73,6 +121,7 @@ router.post(
  * /api/v1/submissions/check-email:
  *   get:
  *     summary: Check if email is already used for submission
+ *     description: A deleted submission keeps its email until it is purged; it counts as existing, but its details are not returned.
  *     tags: [Submissions]
  *     parameters:
  *       - in: query
@@ -98,6 +147,7 @@ router.get(
  *     tags: [Submissions]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: query
  *         name: page
@@ -144,13 +194,237 @@ router.get(
 router.get(
   '/',
   adminRateLimit,
-  authenticateToken,
-  requireRole(['admin']),
+  authenticateTokenOrApiKey,
+  requirePermission('submissions:read'),
   submissionQueryValidation,
   handleValidation,
   SubmissionController.getSubmissions
 );
 
+/**
+ * @swagger
+ * /api/v1/submissions/export:
+ *   get:
+ *     summary: Export submissions (Admin only)
+ *     description: |
+ *       Streams every submission matching the filters of the list endpoint as CSV, XLSX or
+ *       newline-delimited JSON. Rows are read in batches, so large exports do not need to
+ *       fit in memory. CSV values that a spreadsheet would run as formulas are prefixed with a quote.
+ *     tags: [Submissions]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx, ndjson]
+ *           default: csv
+ *       - in: query
+ *         name: columns
+ *         description: |
+ *           Comma separated columns, in order. Available: id, teamName, teamLeader, email, status,
+ *           demoUrl, githubRepository, presentationLink, members, memberCount, weightedScore,
+ *           judgeCount, isLate, submittedAt, updatedAt
+ *         schema:
+ *           type: string
+ *           example: teamName,email,status,weightedScore
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, UNDER_REVIEW, APPROVED, REJECTED, REQUIRES_CHANGES]
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [submittedAt, updatedAt, teamName, status]
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *     responses:
+ *       200:
+ *         description: Export file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/x-ndjson:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+  '/export',
+  adminRateLimit,
+  authenticateTokenOrApiKey,
+  requirePermission('submissions:read'),
+  exportSubmissionsValidation,
+  handleValidation,
+  SubmissionController.exportSubmissions
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/import:
+ *   post:
+ *     summary: Import submissions from CSV or JSON (Admin only)
+ *     description: |
+ *       Each row is checked with the same rules as a public submission and reported with its own
+ *       errors. Valid rows are saved together in one transaction; invalid rows are left out.
+ *       Use dryRun to check a file without saving anything. Rows whose email already has a
+ *       submission are skipped, or with onDuplicate=merge update that submission (its status is kept).
+ *       Every saved row is audited with the import batch ID. No confirmation emails are sent.
+ *
+ *       CSV headers may be field names or the column titles of the export (e.g. "Team Name").
+ *       Members are written as "Jane Doe <jane@example.com>; John Roe <john@example.com>".
+ *       An optional submittedAt column keeps the original submission time.
+ *     tags: [Submissions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - in: query
+ *         name: onDuplicate
+ *         schema:
+ *           type: string
+ *           enum: [skip, merge]
+ *           default: skip
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *             example: |
+ *               teamName,teamLeader,email,githubRepository,members
+ *               AI Innovators,John Doe,john@example.com,https://github.com/ai/app,Jane Smith <jane@example.com>
+ *         application/json:
+ *           schema:
+ *             type: array
+ *             items:
+ *               $ref: '#/components/schemas/CreateSubmissionRequest'
+ *     responses:
+ *       200:
+ *         description: Dry run result with the action planned for each row
+ *       201:
+ *         description: Import committed; the result lists what happened to each row
+ *       400:
+ *         description: The file could not be read, is empty, or has too many rows
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+  '/import',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('submissions:write'),
+  express.text({ type: 'text/csv', limit: '10mb' }),
+  importSubmissionsValidation,
+  handleValidation,
+  SubmissionController.importSubmissions
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/trash:
+ *   get:
+ *     summary: List deleted submissions (Admin only)
+ *     description: |
+ *       Deleted submissions are hidden from every other list, statistic and leaderboard, and are
+ *       purged permanently after SUBMISSION_TRASH_RETENTION_DAYS. Each entry includes its purge date.
+ *       A deleted submission keeps its email reserved until it is purged.
+ *     tags: [Submissions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Deleted submissions retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+  '/trash',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('submissions:read'),
+  submissionQueryValidation,
+  handleValidation,
+  SubmissionController.getTrash
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/trash/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted submission (Admin only)
+ *     tags: [Submissions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Submission restored successfully
+ *       404:
+ *         description: Deleted submission not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+  '/trash/:id/restore',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('submissions:write'),
+  idParamValidation,
+  handleValidation,
+  SubmissionController.restoreSubmission
+);
+
 /**
  * @swagger
  * /api/v1/submissions/stats:
@@ -159,6 +433,7 @@ router.get(
  *     tags: [Submissions]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     responses:
  *       200:
  *         description: Submission statistics retrieved successfully
@@ -170,8 +445,8 @@ router.get(
 router.get(
   '/stats',
   adminRateLimit,
-  authenticateToken,
-  requireRole(['admin']),
+  authenticateTokenOrApiKey,
+  requirePermission('submissions:read'),
   SubmissionController.getSubmissionStats
 );
 
@@ -180,6 +455,12 @@ router.get(
  * /api/v1/submissions/bulk-update:
  *   patch:
  *     summary: Bulk update submission status (Admin only)
+ *     description: |
+ *       Each submission is checked against the status workflow. Submissions that cannot move to
+ *       the new status are reported in data.results and left unchanged; the others are updated.
+ *       Allowed transitions: PENDING to any decision or UNDER_REVIEW; UNDER_REVIEW to APPROVED,
+ *       REJECTED or REQUIRES_CHANGES; REQUIRES_CHANGES to PENDING, UNDER_REVIEW or REJECTED;
+ *       APPROVED and REJECTED back to UNDER_REVIEW.
  *     tags: [Submissions]
  *     security:
  *       - bearerAuth: []
@@ -200,9 +481,14 @@ router.get(
  *               status:
  *                 type: string
  *                 enum: [PENDING, UNDER_REVIEW, APPROVED, REJECTED, REQUIRES_CHANGES]
+ *               reason:
+ *                 type: string
+ *                 description: Required for REJECTED and REQUIRES_CHANGES. Recorded in the audit log.
  *     responses:
  *       200:
- *         description: Submissions updated successfully
+ *         description: Per-submission results with updated and failed counts
+ *       400:
+ *         description: Validation error
  *       401:
  *         description: Unauthorized
  *       403:
@@ -212,58 +498,107 @@ router.patch(
   '/bulk-update',
   adminRateLimit,
   authenticateToken,
-  requireRole(['admin']),
+  requirePermission('submissions:write'),
+  bulkStatusUpdateValidation,
+  handleValidation,
   SubmissionController.bulkUpdateStatus
 );
 
 /**
  * @swagger
- * /api/v1/submissions/{id}:
+ * /api/v1/submissions/magic-link:
+ *   post:
+ *     summary: Request a one-time access link for a submission
+ *     description: |
+ *       Emails a single-use link to the team leader email of the submission. The response is the same
+ *       whether or not a submission exists for the email.
+ *     tags: [Participants]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Access link sent if the submission exists
+ *       429:
+ *         description: Rate limit exceeded
+ */
+router.post(
+  '/magic-link',
+  authRateLimit,
+  requestMagicLinkValidation,
+  handleValidation,
+  ParticipantController.requestMagicLink
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/magic-link/verify:
+ *   post:
+ *     summary: Exchange a magic link token for a participant access token
+ *     tags: [Participants]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Participant access token issued
+ *       401:
+ *         description: Invalid or expired access link
+ */
+router.post(
+  '/magic-link/verify',
+  authRateLimit,
+  verifyMagicLinkValidation,
+  handleValidation,
+  ParticipantController.verifyMagicLink
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/me:
  *   get:
- *     summary: Get a submission by ID (Admin only)
- *     tags: [Submissions]
+ *     summary: Get the submission of the signed-in team
+ *     tags: [Participants]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
  *     responses:
  *       200:
  *         description: Submission retrieved successfully
- *       404:
- *         description: Submission not found
  *       401:
- *         description: Unauthorized
- *       403:
- *         description: Forbidden
+ *         description: Invalid or expired participant token
  */
 router.get(
-  '/:id',
-  adminRateLimit,
-  authenticateToken,
-  requireRole(['admin']),
-  idParamValidation,
-  handleValidation,
-  SubmissionController.getSubmissionById
+  '/me',
+  authenticateParticipant,
+  ParticipantController.getMySubmission
 );
 
 /**
  * @swagger
- * /api/v1/submissions/{id}:
- *   put:
- *     summary: Update a submission (Admin only)
- *     tags: [Submissions]
+ * /api/v1/submissions/me:
+ *   patch:
+ *     summary: Edit the submission of the signed-in team
+ *     description: Only team and link fields can be changed, and only until the submission deadline or while the submission requires changes.
+ *     tags: [Participants]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
  *     requestBody:
  *       required: true
  *       content:
@@ -275,12 +610,6 @@ router.get(
  *                 type: string
  *               teamLeader:
  *                 type: string
- *               email:
- *                 type: string
- *                 format: email
- *               status:
- *                 type: string
- *                 enum: [PENDING, UNDER_REVIEW, APPROVED, REJECTED, REQUIRES_CHANGES]
  *               demoUrl:
  *                 type: string
  *                 format: uri
@@ -290,43 +619,400 @@ router.get(
  *               presentationLink:
  *                 type: string
  *                 format: uri
+ *               members:
+ *                 type: array
+ *                 description: Replaces all members besides the team leader
+ *                 items:
+ *                   $ref: '#/components/schemas/TeamMemberInput'
  *     responses:
  *       200:
  *         description: Submission updated successfully
- *       404:
- *         description: Submission not found
+ *       400:
+ *         description: Validation error
  *       401:
- *         description: Unauthorized
+ *         description: Invalid or expired participant token
  *       403:
- *         description: Forbidden
+ *         description: The submission deadline has passed and the submission does not require changes
  */
-router.put(
-  '/:id',
-  adminRateLimit,
-  authenticateToken,
-  requireRole(['admin']),
-  updateSubmissionValidation,
+router.patch(
+  '/me',
+  authenticateParticipant,
+  participantUpdateSubmissionValidation,
   handleValidation,
-  SubmissionController.updateSubmission
+  ParticipantController.updateMySubmission
 );
 
 /**
  * @swagger
- * /api/v1/submissions/{id}:
- *   delete:
- *     summary: Delete a submission (Admin only)
- *     tags: [Submissions]
+ * /api/v1/submissions/me/resubmit:
+ *   post:
+ *     summary: Send a submission that requires changes back for review
+ *     description: Moves the submission of the signed-in team from REQUIRES_CHANGES to UNDER_REVIEW.
+ *     tags: [Participants]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
+ *     responses:
+ *       200:
+ *         description: Submission sent back for review
+ *       401:
+ *         description: Invalid or expired participant token
+ *       409:
+ *         description: Only submissions that require changes can be resubmitted
+ */
+router.post(
+  '/me/resubmit',
+  authenticateParticipant,
+  ParticipantController.resubmitMySubmission
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/deadline:
+ *   get:
+ *     summary: Get the submission window of the event
+ *     description: Returns the opening and closing times, the grace period and whether submissions are currently accepted.
+ *     tags: [Submissions]
+ *     responses:
+ *       200:
+ *         description: Submission deadline retrieved successfully
+ */
+router.get(
+  '/deadline',
+  DeadlineController.getDeadline
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/deadline-extensions:
+ *   get:
+ *     summary: List per-team deadline extensions (Admin only)
+ *     tags: [Submissions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Deadline extensions retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+  '/deadline-extensions',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('submissions:read'),
+  DeadlineController.getExtensions
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/deadline-extensions:
+ *   post:
+ *     summary: Extend the submission deadline for a team (Admin only)
+ *     description: |
+ *       Replaces the closing time for submissions from the given team leader email.
+ *       Granting again for the same email updates the existing extension. Every change is audited.
+ *     tags: [Submissions]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - extendedUntil
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               extendedUntil:
+ *                 type: string
+ *                 format: date-time
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Deadline extension granted successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+  '/deadline-extensions',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('events:manage'),
+  grantExtensionValidation,
+  handleValidation,
+  DeadlineController.grantExtension
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/deadline-extensions/{extensionId}:
+ *   delete:
+ *     summary: Revoke a deadline extension (Admin only)
+ *     tags: [Submissions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: extensionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Deadline extension revoked successfully
+ *       404:
+ *         description: Deadline extension not found
+ */
+router.delete(
+  '/deadline-extensions/:extensionId',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('events:manage'),
+  DeadlineController.revokeExtension
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/leaderboard:
+ *   get:
+ *     summary: Get the submission leaderboard
+ *     description: |
+ *       Ranks scored, non-rejected submissions by their judge-normalized score. Each judge's scores
+ *       are converted to z-scores so lenient and harsh judges count equally. Admins, and API keys
+ *       sent in `X-API-Key` with the scores:read scope, see the live ranking; everyone else sees
+ *       the published ranking once organizers freeze it.
+ *     tags: [Judging]
+ *     parameters:
+ *       - in: query
+ *         name: mode
+ *         description: Admins can request the published ranking instead of the live one
+ *         schema:
+ *           type: string
+ *           enum: [live, published]
+ *       - in: query
+ *         name: tieBreak
+ *         description: Comma separated tie-break rules applied in order (live mode only)
+ *         schema:
+ *           type: string
+ *           example: rawScore,judgeCount,submittedAt
+ *     responses:
+ *       200:
+ *         description: Leaderboard retrieved successfully
+ *       404:
+ *         description: Leaderboard has not been published yet
+ */
+router.get(
+  '/leaderboard',
+  optionalAuthentication,
+  leaderboardQueryValidation,
+  handleValidation,
+  LeaderboardController.getLeaderboard
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/leaderboard/freeze:
+ *   post:
+ *     summary: Freeze and publish the current ranking (Admin only)
+ *     tags: [Judging]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               tieBreak:
+ *                 type: string
+ *                 example: rawScore,judgeCount,submittedAt
+ *     responses:
+ *       200:
+ *         description: Leaderboard frozen and published
+ *       409:
+ *         description: Leaderboard is already frozen
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+  '/leaderboard/freeze',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('leaderboard:manage'),
+  freezeLeaderboardValidation,
+  handleValidation,
+  LeaderboardController.freezeLeaderboard
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/leaderboard/unfreeze:
+ *   post:
+ *     summary: Unfreeze and unpublish the leaderboard (Admin only)
+ *     tags: [Judging]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Leaderboard unfrozen
+ *       409:
+ *         description: Leaderboard is not frozen
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+  '/leaderboard/unfreeze',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('leaderboard:manage'),
+  LeaderboardController.unfreezeLeaderboard
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/{id}:
+ *   get:
+ *     summary: Get a submission by ID (Admin and assigned judges)
+ *     description: Includes the aggregated weighted score of the submission.
+ *     tags: [Submissions]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Submission retrieved successfully
+ *       404:
+ *         description: Submission not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+  '/:id',
+  adminRateLimit,
+  authenticateTokenOrApiKey,
+  requirePermission('submissions:read', 'scores:write'),
+  idParamValidation,
+  handleValidation,
+  requireEventSubmission,
+  requireJudgeAssignment,
+  SubmissionController.getSubmissionById
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/{id}:
+ *   put:
+ *     summary: Update a submission (Admin only)
+ *     tags: [Submissions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               teamName:
+ *                 type: string
+ *               teamLeader:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               status:
+ *                 type: string
+ *                 enum: [PENDING, UNDER_REVIEW, APPROVED, REJECTED, REQUIRES_CHANGES]
+ *                 description: Must be an allowed transition from the current status
+ *               reason:
+ *                 type: string
+ *                 description: Reason for the status change. Required for REJECTED and REQUIRES_CHANGES.
+ *               demoUrl:
+ *                 type: string
+ *                 format: uri
+ *               githubRepository:
+ *                 type: string
+ *                 format: uri
+ *               presentationLink:
+ *                 type: string
+ *                 format: uri
+ *               members:
+ *                 type: array
+ *                 description: Replaces all members besides the team leader
+ *                 items:
+ *                   $ref: '#/components/schemas/TeamMemberInput'
+ *     responses:
+ *       200:
+ *         description: Submission updated successfully
+ *       400:
+ *         description: Validation error, status transition not allowed, or missing reason
+ *       404:
+ *         description: Submission not found
+ *       409:
+ *         description: Another submission of the event, possibly one in the trash, uses the email
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.put(
+  '/:id',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('submissions:write'),
+  updateSubmissionValidation,
+  handleValidation,
+  requireEventSubmission,
+  SubmissionController.updateSubmission
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/{id}:
+ *   delete:
+ *     summary: Move a submission to the trash (Admin only)
+ *     description: The submission can be restored until it is purged after SUBMISSION_TRASH_RETENTION_DAYS.
+ *     tags: [Submissions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
  *           type: string
  *     responses:
  *       200:
- *         description: Submission deleted successfully
+ *         description: Submission moved to trash
  *       404:
  *         description: Submission not found
  *       401:
@@ -338,10 +1024,421 @@ router.delete(
   '/:id',
   adminRateLimit,
   authenticateToken,
-  requireRole(['admin']),
+  requirePermission('submissions:write'),
   idParamValidation,
   handleValidation,
+  requireEventSubmission,
   SubmissionController.deleteSubmission
 );
 
+/**
+ * @swagger
+ * /api/v1/submissions/{id}/scores:
+ *   get:
+ *     summary: Get scores for a submission (Admin and assigned judges)
+ *     description: Admins see every judge's scores with the aggregated weighted score. Judges only see their own scores.
+ *     tags: [Judging]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Scores retrieved successfully
+ *       404:
+ *         description: Submission not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+  '/:id/scores',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('scores:read', 'scores:write'),
+  idParamValidation,
+  handleValidation,
+  requireEventSubmission,
+  requireJudgeAssignment,
+  ScoreController.getSubmissionScores
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/{id}/scores:
+ *   put:
+ *     summary: Submit or update the current judge's scores (Admin and assigned judges)
+ *     description: Scores are recorded against the criteria of the active rubric. Each write is recorded as a REVIEW audit entry.
+ *     tags: [Judging]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - scores
+ *             properties:
+ *               scores:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - criterionId
+ *                     - value
+ *                   properties:
+ *                     criterionId:
+ *                       type: string
+ *                     value:
+ *                       type: number
+ *                       example: 8
+ *                     comment:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: Scores saved successfully
+ *       400:
+ *         description: Validation error or no active rubric
+ *       404:
+ *         description: Submission not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.put(
+  '/:id/scores',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('scores:write'),
+  upsertScoresValidation,
+  handleValidation,
+  requireEventSubmission,
+  requireJudgeAssignment,
+  ScoreController.upsertScores
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/{id}/revisions:
+ *   get:
+ *     summary: List the revisions of a submission (Admin only)
+ *     description: A revision is written on every create and update. Each one holds a snapshot of the content fields and team members.
+ *     tags: [Submissions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Revisions retrieved successfully, newest first
+ *       404:
+ *         description: Submission not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+  '/:id/revisions',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('submissions:read'),
+  idParamValidation,
+  handleValidation,
+  requireEventSubmission,
+  RevisionController.getRevisions
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/{id}/revisions/diff:
+ *   get:
+ *     summary: Compare two revisions of a submission (Admin only)
+ *     tags: [Submissions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Field-level changes between the two revisions
+ *       404:
+ *         description: Submission or revision not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+  '/:id/revisions/diff',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('submissions:read'),
+  revisionDiffValidation,
+  handleValidation,
+  requireEventSubmission,
+  RevisionController.diffRevisions
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/{id}/revisions/{revision}/restore:
+ *   post:
+ *     summary: Restore an older revision of a submission (Admin only)
+ *     description: |
+ *       Applies the content fields and team members of the revision as a new, audited update,
+ *       which is itself recorded as the latest revision. Email and status are not restored.
+ *     tags: [Submissions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: revision
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Submission restored
+ *       400:
+ *         description: A restored team member already belongs to another team
+ *       404:
+ *         description: Submission or revision not found
+ *       409:
+ *         description: Submission already matches this revision
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+  '/:id/revisions/:revision/restore',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('submissions:write'),
+  restoreRevisionValidation,
+  handleValidation,
+  requireEventSubmission,
+  RevisionController.restoreRevision
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/{id}/comments:
+ *   get:
+ *     summary: Get the comment threads of a submission
+ *     description: |
+ *       Admins and assigned judges see every thread. Teams, using their participant token,
+ *       only see team-visible threads on their own submission.
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Comment threads with their replies, oldest first
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Submission not found
+ *       429:
+ *         description: Rate limit exceeded
+ */
+router.get(
+  '/:id/comments',
+  commentRateLimit,
+  authenticateAdminOrParticipant,
+  idParamValidation,
+  handleValidation,
+  requireEventSubmission,
+  requireParticipantSubmission,
+  requireJudgeAssignment,
+  CommentController.getComments
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/{id}/comments:
+ *   post:
+ *     summary: Comment on a submission
+ *     description: |
+ *       Reviewer comments are internal unless visibility is TEAM. Team comments are always
+ *       team-visible. Replies join the thread of the parent comment and share its visibility.
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - body
+ *             properties:
+ *               body:
+ *                 type: string
+ *                 example: "Please add setup instructions to the repository README."
+ *               visibility:
+ *                 type: string
+ *                 enum: [INTERNAL, TEAM]
+ *                 default: INTERNAL
+ *               parentId:
+ *                 type: string
+ *                 description: Comment to reply to
+ *     responses:
+ *       201:
+ *         description: Comment created successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Submission or parent comment not found
+ *       429:
+ *         description: Rate limit exceeded
+ */
+router.post(
+  '/:id/comments',
+  commentRateLimit,
+  authenticateAdminOrParticipant,
+  requireAdminPermission('comments:write'),
+  createCommentValidation,
+  handleValidation,
+  requireEventSubmission,
+  requireParticipantSubmission,
+  requireJudgeAssignment,
+  CommentController.createComment
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/{id}/comments/{commentId}/resolve:
+ *   post:
+ *     summary: Resolve a comment thread (Admin and assigned judges)
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Comment thread resolved
+ *       400:
+ *         description: Only top-level comments can be resolved
+ *       404:
+ *         description: Comment not found
+ */
+router.post(
+  '/:id/comments/:commentId/resolve',
+  commentRateLimit,
+  authenticateToken,
+  requirePermission('comments:write'),
+  commentParamValidation,
+  handleValidation,
+  requireEventSubmission,
+  requireJudgeAssignment,
+  CommentController.resolveComment
+);
+
+/**
+ * @swagger
+ * /api/v1/submissions/{id}/comments/{commentId}/unresolve:
+ *   post:
+ *     summary: Reopen a resolved comment thread (Admin and assigned judges)
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Comment thread reopened
+ *       400:
+ *         description: Only top-level comments can be resolved
+ *       404:
+ *         description: Comment not found
+ */
+router.post(
+  '/:id/comments/:commentId/unresolve',
+  commentRateLimit,
+  authenticateToken,
+  requirePermission('comments:write'),
+  commentParamValidation,
+  handleValidation,
+  requireEventSubmission,
+  requireJudgeAssignment,
+  CommentController.unresolveComment
+);
+
 export default router;
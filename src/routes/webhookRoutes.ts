@@ -0,0 +1,299 @@
+import { Router } from 'express';
+import { WebhookController } from '../controllers/webhookController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+import { handleValidation } from '../middleware/validation';
+import { adminRateLimit } from '../middleware/rateLimit';
+import {
+  createWebhookValidation,
+  updateWebhookValidation,
+  webhookDeliveryQueryValidation,
+  webhookDeliveryParamValidation,
+  idParamValidation,
+} from '../validators/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/webhooks:
+ *   get:
+ *     summary: List webhook subscriptions (Admin only)
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Webhooks retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Webhook'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *   post:
+ *     summary: Create a webhook subscription (Admin only)
+ *     description: |
+ *       Events are POSTed as JSON to the URL. Each request carries the headers
+ *       `X-Openera-Event`, `X-Openera-Delivery`, `X-Openera-Timestamp` and
+ *       `X-Openera-Signature`, which is `sha256=` followed by the hex HMAC-SHA256
+ *       of `<timestamp>.<body>` keyed with the secret. A secret is generated when
+ *       none is given and is only returned in this response. Event data is limited
+ *       to ids, statuses and timestamps; no emails or team details are sent.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [url, eventTypes]
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 format: uri
+ *                 example: https://bot.example.com/openera
+ *               eventTypes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [submission.created, submission.status_changed, submission.deleted, admin.login]
+ *               secret:
+ *                 type: string
+ *                 minLength: 16
+ *               description:
+ *                 type: string
+ *               isActive:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Webhook created, including its secret
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get(
+  '/',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('webhooks:manage'),
+  WebhookController.getWebhooks
+);
+router.post(
+  '/',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('webhooks:manage'),
+  createWebhookValidation,
+  handleValidation,
+  WebhookController.createWebhook
+);
+
+/**
+ * @swagger
+ * /api/v1/webhooks/{id}:
+ *   get:
+ *     summary: Get a webhook subscription (Admin only)
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Webhook retrieved successfully
+ *       404:
+ *         description: Webhook not found
+ *   patch:
+ *     summary: Update a webhook subscription (Admin only)
+ *     description: Change the URL, event types or description, pause it with isActive, or rotate the secret.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 format: uri
+ *               eventTypes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               secret:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Webhook updated successfully
+ *       404:
+ *         description: Webhook not found
+ *   delete:
+ *     summary: Delete a webhook subscription and its delivery log (Admin only)
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Webhook deleted successfully
+ *       404:
+ *         description: Webhook not found
+ */
+router.get(
+  '/:id',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('webhooks:manage'),
+  idParamValidation,
+  handleValidation,
+  WebhookController.getWebhookById
+);
+router.patch(
+  '/:id',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('webhooks:manage'),
+  updateWebhookValidation,
+  handleValidation,
+  WebhookController.updateWebhook
+);
+router.delete(
+  '/:id',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('webhooks:manage'),
+  idParamValidation,
+  handleValidation,
+  WebhookController.deleteWebhook
+);
+
+/**
+ * @swagger
+ * /api/v1/webhooks/{id}/deliveries:
+ *   get:
+ *     summary: Get the delivery log of a webhook (Admin only)
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, SUCCEEDED, FAILED]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Webhook deliveries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/WebhookDelivery'
+ *       404:
+ *         description: Webhook not found
+ */
+router.get(
+  '/:id/deliveries',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('webhooks:manage'),
+  idParamValidation,
+  webhookDeliveryQueryValidation,
+  handleValidation,
+  WebhookController.getDeliveries
+);
+
+/**
+ * @swagger
+ * /api/v1/webhooks/{id}/deliveries/{deliveryId}/redeliver:
+ *   post:
+ *     summary: Send a delivery again (Admin only)
+ *     description: Creates a new delivery with the same payload and sends it right away. The original delivery stays in the log.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: deliveryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Redelivery attempted; failed attempts are retried on the normal schedule
+ *       404:
+ *         description: Webhook delivery not found
+ */
+router.post(
+  '/:id/deliveries/:deliveryId/redeliver',
+  adminRateLimit,
+  authenticateToken,
+  requirePermission('webhooks:manage'),
+  webhookDeliveryParamValidation,
+  handleValidation,
+  WebhookController.redeliver
+);
+
+export default router;
@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { JwksController } from '../controllers/jwksController';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /.well-known/jwks.json:
+ *   get:
+ *     summary: JSON Web Key Set
+ *     description: Public keys for verifying access tokens, matched by the kid header of the token. Includes the key that signs new tokens, the next key ahead of a rotation and retired keys whose tokens may still be valid. Empty when tokens are signed with HS256 secrets.
+ *     tags: [Authentication]
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: Key set retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 keys:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       kid:
+ *                         type: string
+ *                       alg:
+ *                         type: string
+ *                         enum: [RS256, ES256, EdDSA]
+ *                       use:
+ *                         type: string
+ *                         example: sig
+ *                       kty:
+ *                         type: string
+ *                         enum: [RSA, EC, OKP]
+ */
+router.get('/jwks.json', JwksController.getJwks);
+
+export default router;
@@ -0,0 +1,115 @@
+import { prisma } from '../config/database';
+import { config } from '../config/config';
+import { TokenPayload } from '../utils/jwt';
+
+interface AccountStatus {
+  isActive: boolean;
+  tokenVersion: number;
+  cachedAt: number;
+}
+
+interface SessionStatus {
+  isLive: boolean;
+  cachedAt: number;
+}
+
+export class AccountStatusService {
+  // Account state by admin ID, kept briefly so authenticating a request rarely needs a query
+  private static cache = new Map<string, AccountStatus>();
+  // Whether a session still has refresh tokens, by session ID
+  private static sessions = new Map<string, SessionStatus>();
+
+  /**
+   * Check that an access token was issued for the admin's current token version, that the account is active
+   * and that the token's session has not been revoked.
+   * Tokens issued before a deactivation, role change or password change fail this check, and so do tokens
+   * of a session that was logged out, revoked from another device or revoked after refresh token reuse.
+   */
+  static async isTokenCurrent(payload: TokenPayload): Promise<boolean> {
+    const status = await this.getStatus(payload.adminId);
+
+    if (status === null || !status.isActive || status.tokenVersion !== payload.ver) {
+      return false;
+    }
+
+    return this.isSessionLive(payload.adminId, payload.sid);
+  }
+
+  /**
+   * Check whether the account exists and is active
+   */
+  static async isActive(adminId: string): Promise<boolean> {
+    const status = await this.getStatus(adminId);
+    return status?.isActive ?? false;
+  }
+
+  /**
+   * Forget the cached state of an admin.
+   * Call after changing isActive or tokenVersion so this instance sees the change at once.
+   */
+  static invalidate(adminId: string): void {
+    this.cache.delete(adminId);
+  }
+
+  /**
+   * Forget the cached state of sessions.
+   * Call after deleting their refresh tokens so this instance rejects their access tokens at once.
+   */
+  static invalidateSessions(sessionIds: string[]): void {
+    for (const sessionId of sessionIds) {
+      this.sessions.delete(sessionId);
+    }
+  }
+
+  private static async isSessionLive(adminId: string, sessionId: string): Promise<boolean> {
+    const cached = this.sessions.get(sessionId);
+    const now = Date.now();
+
+    if (cached && now - cached.cachedAt < config.jwt.accountStatusCacheMs) {
+      return cached.isLive;
+    }
+
+    // Revoking a session deletes its whole token family, so any remaining row keeps it alive
+    const token = await prisma.refreshToken.findFirst({
+      where: { adminId, sessionId },
+      select: { id: true },
+    });
+
+    this.pruneSessions(now);
+    this.sessions.set(sessionId, { isLive: token !== null, cachedAt: now });
+
+    return token !== null;
+  }
+
+  // Drop stale entries so sessions that are never seen again do not pile up
+  private static pruneSessions(now: number): void {
+    for (const [sessionId, status] of this.sessions) {
+      if (now - status.cachedAt >= config.jwt.accountStatusCacheMs) {
+        this.sessions.delete(sessionId);
+      }
+    }
+  }
+
+  private static async getStatus(adminId: string): Promise<AccountStatus | null> {
+    const cached = this.cache.get(adminId);
+
+    if (cached && Date.now() - cached.cachedAt < config.jwt.accountStatusCacheMs) {
+      return cached;
+    }
+
+    const admin = await prisma.admin.findUnique({
+      where: { id: adminId },
+      select: { isActive: true, tokenVersion: true },
+    });
+
+    if (!admin) {
+      this.cache.delete(adminId);
+      return null;
+    }
+
+    const status = { ...admin, cachedAt: Date.now() };
+    this.cache.set(adminId, status);
+
+    return status;
+  }
+}
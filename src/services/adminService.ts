@@ -0,0 +1,711 @@
+import crypto from 'crypto';
+import { Admin, AdminSetupPurpose, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { config } from '../config/config';
+import { AdminQueryParams, InviteAdminRequest, ServiceResponse, SetupPasswordRequest } from '../types';
+import { PasswordUtils } from '../utils/password';
+import { AccountStatusService } from './accountStatusService';
+import { AuditService } from './auditService';
+import { MailService } from './mailService';
+import { RoleService } from './roleService';
+
+// Admin fields that are safe to return; never the password hash
+const ADMIN_PUBLIC_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  isActive: true,
+  lastLoginAt: true,
+  failedLoginAttempts: true,
+  lockedUntil: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.AdminSelect;
+
+export type PublicAdmin = Prisma.AdminGetPayload<{ select: typeof ADMIN_PUBLIC_SELECT }>;
+
+const SUPERADMIN_ROLE = 'superadmin';
+
+export class AdminService {
+  /**
+   * List admins (Admin only)
+   */
+  static async getAdmins(params: AdminQueryParams): Promise<ServiceResponse<{
+    admins: PublicAdmin[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }>> {
+    try {
+      const { page = 1, limit = 20, role, isActive, search } = params;
+
+      const where: Prisma.AdminWhereInput = {
+        ...(role && { role }),
+        ...(isActive !== undefined && { isActive }),
+        ...(search && {
+          OR: [
+            { name: { contains: search, mode: 'insensitive' } },
+            { email: { contains: search, mode: 'insensitive' } },
+          ],
+        }),
+      };
+
+      const [admins, total] = await Promise.all([
+        prisma.admin.findMany({
+          where,
+          select: ADMIN_PUBLIC_SELECT,
+          orderBy: { createdAt: 'asc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.admin.count({ where }),
+      ]);
+
+      return {
+        success: true,
+        data: {
+          admins,
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to get admins', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        params,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve admins',
+      };
+    }
+  }
+
+  /**
+   * Get an admin (Admin only)
+   */
+  static async getAdminById(id: string): Promise<ServiceResponse<PublicAdmin>> {
+    try {
+      const admin = await prisma.admin.findUnique({
+        where: { id },
+        select: ADMIN_PUBLIC_SELECT,
+      });
+
+      if (!admin) {
+        return {
+          success: false,
+          error: 'Admin not found',
+        };
+      }
+
+      return {
+        success: true,
+        data: admin,
+      };
+    } catch (error) {
+      logger.error('Failed to get admin', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve admin',
+      };
+    }
+  }
+
+  /**
+   * Create an admin account and email a one-time link to choose a password (Admin only).
+   * setupLinkSent is false when the email could not be sent; a password reset sends a new link.
+   */
+  static async inviteAdmin(
+    data: InviteAdminRequest,
+    invitedById: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<PublicAdmin & { setupLinkSent: boolean }>> {
+    try {
+      const existing = await prisma.admin.findUnique({
+        where: { email: data.email },
+        select: { id: true },
+      });
+
+      if (existing) {
+        return {
+          success: false,
+          error: 'An admin with this email already exists',
+        };
+      }
+
+      if (!(await RoleService.roleExists(data.role))) {
+        return {
+          success: false,
+          error: 'Role not found',
+        };
+      }
+
+      const admin = await prisma.admin.create({
+        data: {
+          email: data.email,
+          name: data.name,
+          role: data.role,
+          password: await this.getUnusablePassword(),
+        },
+        select: ADMIN_PUBLIC_SELECT,
+      });
+
+      const setupLinkSent = await this.sendSetupLink(admin, 'INVITE');
+
+      await AuditService.createAuditLog({
+        action: 'CREATE',
+        entityType: 'admin',
+        entityId: admin.id,
+        newValues: { email: admin.email, name: admin.name, role: admin.role, setupLinkSent },
+        description: `Admin ${admin.email} invited with role ${admin.role}`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId: invitedById,
+      });
+
+      logger.info('Admin invited', {
+        adminId: admin.id,
+        role: admin.role,
+        invitedById,
+        setupLinkSent,
+      });
+
+      return {
+        success: true,
+        data: { ...admin, setupLinkSent },
+      };
+    } catch (error) {
+      logger.error('Failed to invite admin', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        email: data.email,
+        invitedById,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to invite admin',
+      };
+    }
+  }
+
+  /**
+   * Disable an admin account and sign it out everywhere (Admin only).
+   * The last active superadmin cannot be deactivated.
+   */
+  static async deactivateAdmin(
+    id: string,
+    actingAdminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<PublicAdmin>> {
+    try {
+      const existing = await prisma.admin.findUnique({ where: { id }, select: ADMIN_PUBLIC_SELECT });
+
+      if (!existing) {
+        return {
+          success: false,
+          error: 'Admin not found',
+        };
+      }
+
+      if (id === actingAdminId) {
+        return {
+          success: false,
+          error: 'You cannot deactivate your own account',
+        };
+      }
+
+      if (!existing.isActive) {
+        return {
+          success: false,
+          error: 'Admin is already deactivated',
+        };
+      }
+
+      if (await this.isLastActiveSuperadmin(existing)) {
+        return {
+          success: false,
+          error: 'The last active superadmin cannot be deactivated',
+        };
+      }
+
+      const [admin, revoked] = await prisma.$transaction([
+        prisma.admin.update({
+          where: { id },
+          data: { isActive: false, tokenVersion: { increment: 1 } },
+          select: ADMIN_PUBLIC_SELECT,
+        }),
+        prisma.refreshToken.deleteMany({ where: { adminId: id } }),
+      ]);
+
+      AccountStatusService.invalidate(id);
+
+      await AuditService.createAuditLog({
+        action: 'UPDATE',
+        entityType: 'admin',
+        entityId: id,
+        oldValues: { isActive: true },
+        newValues: { isActive: false, revokedRefreshTokens: revoked.count },
+        description: `Admin ${admin.email} deactivated`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId: actingAdminId,
+      });
+
+      return {
+        success: true,
+        data: admin,
+      };
+    } catch (error) {
+      logger.error('Failed to deactivate admin', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        actingAdminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to deactivate admin',
+      };
+    }
+  }
+
+  /**
+   * Enable a deactivated admin account (Admin only)
+   */
+  static async reactivateAdmin(
+    id: string,
+    actingAdminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<PublicAdmin>> {
+    try {
+      const existing = await prisma.admin.findUnique({ where: { id }, select: ADMIN_PUBLIC_SELECT });
+
+      if (!existing) {
+        return {
+          success: false,
+          error: 'Admin not found',
+        };
+      }
+
+      if (existing.isActive) {
+        return {
+          success: false,
+          error: 'Admin is already active',
+        };
+      }
+
+      const admin = await prisma.admin.update({
+        where: { id },
+        data: { isActive: true },
+        select: ADMIN_PUBLIC_SELECT,
+      });
+
+      AccountStatusService.invalidate(id);
+
+      await AuditService.createAuditLog({
+        action: 'UPDATE',
+        entityType: 'admin',
+        entityId: id,
+        oldValues: { isActive: false },
+        newValues: { isActive: true },
+        description: `Admin ${admin.email} reactivated`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId: actingAdminId,
+      });
+
+      return {
+        success: true,
+        data: admin,
+      };
+    } catch (error) {
+      logger.error('Failed to reactivate admin', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        actingAdminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to reactivate admin',
+      };
+    }
+  }
+
+  /**
+   * Clear the failed login count and any lock on an account (Admin only)
+   */
+  static async unlockAdmin(
+    id: string,
+    actingAdminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<PublicAdmin>> {
+    try {
+      const existing = await prisma.admin.findUnique({ where: { id }, select: ADMIN_PUBLIC_SELECT });
+
+      if (!existing) {
+        return {
+          success: false,
+          error: 'Admin not found',
+        };
+      }
+
+      if (existing.failedLoginAttempts === 0 && !existing.lockedUntil) {
+        return {
+          success: false,
+          error: 'Admin is not locked',
+        };
+      }
+
+      const admin = await prisma.admin.update({
+        where: { id },
+        data: { failedLoginAttempts: 0, lockedUntil: null },
+        select: ADMIN_PUBLIC_SELECT,
+      });
+
+      await AuditService.createAuditLog({
+        action: 'UPDATE',
+        entityType: 'admin',
+        entityId: id,
+        oldValues: {
+          failedLoginAttempts: existing.failedLoginAttempts,
+          lockedUntil: existing.lockedUntil?.toISOString() ?? null,
+        },
+        newValues: { failedLoginAttempts: 0, lockedUntil: null },
+        description: `Admin ${admin.email} unlocked`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId: actingAdminId,
+      });
+
+      return {
+        success: true,
+        data: admin,
+      };
+    } catch (error) {
+      logger.error('Failed to unlock admin', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        actingAdminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to unlock admin',
+      };
+    }
+  }
+
+  /**
+   * Give an admin another role (Admin only).
+   * The admin's access tokens stop working at once, so they have to sign in again
+   * (or refresh) to get a token carrying the new permissions.
+   */
+  static async changeRole(
+    id: string,
+    role: string,
+    actingAdminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<PublicAdmin>> {
+    try {
+      const existing = await prisma.admin.findUnique({ where: { id }, select: ADMIN_PUBLIC_SELECT });
+
+      if (!existing) {
+        return {
+          success: false,
+          error: 'Admin not found',
+        };
+      }
+
+      if (!(await RoleService.roleExists(role))) {
+        return {
+          success: false,
+          error: 'Role not found',
+        };
+      }
+
+      if (role !== SUPERADMIN_ROLE && await this.isLastActiveSuperadmin(existing)) {
+        return {
+          success: false,
+          error: 'The last active superadmin cannot be given another role',
+        };
+      }
+
+      const admin = await prisma.admin.update({
+        where: { id },
+        data: { role, tokenVersion: { increment: 1 } },
+        select: ADMIN_PUBLIC_SELECT,
+      });
+
+      // Access tokens carry the old permissions; the tokenVersion bump rejects them from the next request
+      AccountStatusService.invalidate(id);
+
+      await AuditService.createAuditLog({
+        action: 'UPDATE',
+        entityType: 'admin',
+        entityId: id,
+        oldValues: { role: existing.role },
+        newValues: { role: admin.role },
+        description: `Admin ${admin.email} role changed from ${existing.role} to ${admin.role}`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId: actingAdminId,
+      });
+
+      return {
+        success: true,
+        data: admin,
+      };
+    } catch (error) {
+      logger.error('Failed to change admin role', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        role,
+        actingAdminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to change admin role',
+      };
+    }
+  }
+
+  /**
+   * Replace an admin's password with an unusable one, sign them out and email a link to choose a new one (Admin only).
+   * setupLinkSent is false when the email could not be sent; resetting again sends a new link.
+   */
+  static async forcePasswordReset(
+    id: string,
+    actingAdminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<{ setupLinkSent: boolean }>> {
+    try {
+      const admin = await prisma.admin.findUnique({ where: { id }, select: ADMIN_PUBLIC_SELECT });
+
+      if (!admin) {
+        return {
+          success: false,
+          error: 'Admin not found',
+        };
+      }
+
+      const password = await this.getUnusablePassword();
+
+      const [, revoked] = await prisma.$transaction([
+        prisma.admin.update({ where: { id }, data: { password, tokenVersion: { increment: 1 } } }),
+        prisma.refreshToken.deleteMany({ where: { adminId: id } }),
+      ]);
+
+      AccountStatusService.invalidate(id);
+
+      const setupLinkSent = await this.sendSetupLink(admin, 'PASSWORD_RESET');
+
+      await AuditService.createAuditLog({
+        action: 'UPDATE',
+        entityType: 'admin',
+        entityId: id,
+        newValues: { passwordReset: true, revokedRefreshTokens: revoked.count, setupLinkSent },
+        description: `Password reset forced for admin ${admin.email}`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId: actingAdminId,
+      });
+
+      return {
+        success: true,
+        data: { setupLinkSent },
+      };
+    } catch (error) {
+      logger.error('Failed to force password reset', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        actingAdminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to reset password',
+      };
+    }
+  }
+
+  /**
+   * Set a password with a one-time setup token from an invite or password reset email
+   */
+  static async completeSetup(
+    data: SetupPasswordRequest,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<boolean>> {
+    try {
+      const setupToken = await prisma.adminSetupToken.findUnique({
+        where: { tokenHash: this.hashToken(data.token) },
+        include: { admin: { select: { id: true, email: true, isActive: true } } },
+      });
+
+      if (!setupToken || setupToken.usedAt || setupToken.expiresAt < new Date() || !setupToken.admin.isActive) {
+        logger.warn('Invalid admin setup token used', {
+          found: !!setupToken,
+          ip: clientInfo.ipAddress,
+        });
+
+        return {
+          success: false,
+          error: 'Invalid or expired setup link',
+        };
+      }
+
+      const passwordValidation = PasswordUtils.validatePasswordStrength(data.newPassword);
+
+      if (!passwordValidation.isValid) {
+        return {
+          success: false,
+          error: 'Password does not meet security requirements',
+        };
+      }
+
+      const password = await PasswordUtils.hashPassword(data.newPassword);
+
+      const used = await prisma.$transaction(async tx => {
+        // Mark as used only if nobody else did in the meantime
+        const { count } = await tx.adminSetupToken.updateMany({
+          where: { id: setupToken.id, usedAt: null },
+          data: { usedAt: new Date() },
+        });
+
+        if (count === 0) {
+          return false;
+        }
+
+        await tx.admin.update({
+          where: { id: setupToken.adminId },
+          data: { password, failedLoginAttempts: 0, lockedUntil: null },
+        });
+
+        return true;
+      });
+
+      if (!used) {
+        return {
+          success: false,
+          error: 'Invalid or expired setup link',
+        };
+      }
+
+      await AuditService.createAuditLog({
+        action: 'UPDATE',
+        entityType: 'admin',
+        entityId: setupToken.adminId,
+        description: setupToken.purpose === 'INVITE'
+          ? `Admin ${setupToken.admin.email} accepted the invite and set a password`
+          : `Admin ${setupToken.admin.email} set a new password after a reset`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId: setupToken.adminId,
+      });
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      logger.error('Failed to complete admin setup', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ip: clientInfo.ipAddress,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to set password',
+      };
+    }
+  }
+
+  /**
+   * Check whether an admin is the only active superadmin left
+   */
+  private static async isLastActiveSuperadmin(admin: Pick<Admin, 'id' | 'role' | 'isActive'>): Promise<boolean> {
+    if (admin.role !== SUPERADMIN_ROLE || !admin.isActive) {
+      return false;
+    }
+
+    const others = await prisma.admin.count({
+      where: { role: SUPERADMIN_ROLE, isActive: true, id: { not: admin.id } },
+    });
+
+    return others === 0;
+  }
+
+  /**
+   * Issue a setup token, replacing any unused ones, and email the link to the admin.
+   * The link is sent directly rather than through the notification outbox, which admins can read,
+   * so a failed send is not retried; returns whether it went out.
+   */
+  private static async sendSetupLink(
+    admin: Pick<Admin, 'id' | 'email' | 'name'>,
+    purpose: AdminSetupPurpose
+  ): Promise<boolean> {
+    const token = crypto.randomBytes(32).toString('hex');
+
+    await prisma.$transaction([
+      prisma.adminSetupToken.deleteMany({ where: { adminId: admin.id, usedAt: null } }),
+      prisma.adminSetupToken.create({
+        data: {
+          tokenHash: this.hashToken(token),
+          adminId: admin.id,
+          purpose,
+          expiresAt: new Date(Date.now() + config.adminSetup.tokenTtlHours * 60 * 60 * 1000),
+        },
+      }),
+    ]);
+
+    const link = `${config.adminSetup.url}?token=${token}`;
+    const intro = purpose === 'INVITE'
+      ? 'You have been invited to the Open Era Hackathon admin dashboard.'
+      : 'An administrator has reset the password of your Open Era Hackathon admin account.';
+
+    const result = await MailService.send({
+      to: admin.email,
+      subject: purpose === 'INVITE' ? 'Your Open Era admin invite' : 'Choose a new Open Era admin password',
+      text: [
+        `Hi ${admin.name},`,
+        '',
+        intro,
+        `Use the link below to choose a password. It can be used once and expires in ${config.adminSetup.tokenTtlHours} hours.`,
+        '',
+        link,
+      ].join('\n'),
+    });
+
+    if (!result.success) {
+      logger.warn('Admin setup link could not be sent', {
+        adminId: admin.id,
+        purpose,
+        error: result.error,
+      });
+    }
+
+    return result.success;
+  }
+
+  /**
+   * Passwords are required on every admin; accounts waiting for setup get a random one nobody knows
+   */
+  private static async getUnusablePassword(): Promise<string> {
+    return PasswordUtils.hashPassword(crypto.randomBytes(32).toString('hex'));
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
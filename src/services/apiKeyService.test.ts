@@ -0,0 +1,139 @@
+import { prisma } from '../config/database';
+import { ApiKeyUtils } from '../utils/apiKey';
+import { TokenPayload } from '../utils/jwt';
+import { ApiKeyService } from './apiKeyService';
+import { RoleService } from './roleService';
+
+jest.mock('../config/database', () => ({
+  prisma: {
+    apiKey: { findUnique: jest.fn(), update: jest.fn(), create: jest.fn() },
+  },
+}));
+
+jest.mock('./auditService', () => ({
+  AuditService: { createAuditLog: jest.fn() },
+}));
+
+jest.mock('./roleService', () => ({
+  RoleService: { getPermissions: jest.fn() },
+}));
+
+const apiKeys = prisma.apiKey as unknown as Record<string, jest.Mock>;
+const getPermissions = RoleService.getPermissions as jest.Mock;
+
+const KEY = 'oek_0a1b2c3d_secret';
+
+const buildApiKey = (overrides: Record<string, unknown> = {}) => ({
+  id: 'key-1',
+  name: 'Dashboard',
+  prefix: 'oek_0a1b2c3d',
+  secretHash: ApiKeyUtils.hash(KEY),
+  scopes: ['submissions:read', 'audit:read'],
+  expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  revokedAt: null,
+  lastUsedAt: new Date(),
+  createdById: 'admin-1',
+  createdBy: { isActive: true, role: 'admin' },
+  ...overrides,
+});
+
+describe('ApiKeyService.authenticate', () => {
+  it('looks the key up by its hash and returns its scopes', async () => {
+    apiKeys.findUnique.mockResolvedValue(buildApiKey());
+    getPermissions.mockResolvedValue(['submissions:read', 'audit:read', 'submissions:write']);
+
+    await expect(ApiKeyService.authenticate(KEY)).resolves.toEqual({
+      id: 'key-1',
+      name: 'Dashboard',
+      scopes: ['submissions:read', 'audit:read'],
+      createdById: 'admin-1',
+    });
+    expect(apiKeys.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+      where: { secretHash: ApiKeyUtils.hash(KEY) },
+    }));
+  });
+
+  it('drops scopes the creator role no longer grants', async () => {
+    apiKeys.findUnique.mockResolvedValue(buildApiKey({ createdBy: { isActive: true, role: 'viewer' } }));
+    getPermissions.mockResolvedValue(['submissions:read']);
+
+    const principal = await ApiKeyService.authenticate(KEY);
+
+    expect(principal?.scopes).toEqual(['submissions:read']);
+    expect(getPermissions).toHaveBeenCalledWith('viewer');
+  });
+
+  it.each([
+    ['unknown', null],
+    ['revoked', buildApiKey({ revokedAt: new Date() })],
+    ['expired', buildApiKey({ expiresAt: new Date(Date.now() - 1000) })],
+    ['created by a deactivated admin', buildApiKey({ createdBy: { isActive: false, role: 'admin' } })],
+  ])('rejects a key that is %s', async (_description, apiKey) => {
+    apiKeys.findUnique.mockResolvedValue(apiKey);
+
+    await expect(ApiKeyService.authenticate(KEY)).resolves.toBeNull();
+    expect(apiKeys.update).not.toHaveBeenCalled();
+  });
+
+  it('records the last use only once per minute', async () => {
+    apiKeys.findUnique.mockResolvedValue(buildApiKey({ lastUsedAt: new Date(Date.now() - 2 * 60 * 1000) }));
+    getPermissions.mockResolvedValue(['submissions:read']);
+
+    await ApiKeyService.authenticate(KEY);
+
+    expect(apiKeys.update).toHaveBeenCalledWith({
+      where: { id: 'key-1' },
+      data: { lastUsedAt: expect.any(Date) },
+    });
+  });
+});
+
+describe('ApiKeyService.createApiKey', () => {
+  const admin: TokenPayload = {
+    adminId: 'admin-1',
+    email: 'viewer@example.com',
+    role: 'viewer',
+    permissions: ['submissions:read', 'scores:read'],
+    sid: 'session-1',
+    ver: 0,
+  };
+  const clientInfo = { ipAddress: '203.0.113.7', userAgent: 'jest' };
+
+  it('refuses scopes the admin does not have', async () => {
+    const result = await ApiKeyService.createApiKey(
+      { name: 'Audit export', scopes: ['submissions:read', 'audit:read'] },
+      admin,
+      clientInfo
+    );
+
+    expect(result).toEqual({ success: false, error: 'Cannot grant scopes your role does not have' });
+    expect(apiKeys.create).not.toHaveBeenCalled();
+  });
+
+  it('stores only the hash of the key and returns the key once', async () => {
+    apiKeys.create.mockImplementation(({ data }) => Promise.resolve({
+      id: 'key-2',
+      ...data,
+      revokedAt: null,
+      lastUsedAt: null,
+      createdAt: new Date(),
+      createdBy: { id: admin.adminId, name: 'Viewer', email: admin.email },
+    }));
+
+    const result = await ApiKeyService.createApiKey(
+      { name: 'Dashboard', scopes: ['scores:read', 'scores:read'] },
+      admin,
+      clientInfo
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data!.key.startsWith(`${result.data!.prefix}_`)).toBe(true);
+    expect(result.data).not.toHaveProperty('secretHash');
+    expect(apiKeys.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({
+        secretHash: ApiKeyUtils.hash(result.data!.key),
+        scopes: ['scores:read'],
+      }),
+    }));
+  });
+});
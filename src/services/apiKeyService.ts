@@ -0,0 +1,232 @@
+import { ApiKey } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { ApiKeyPrincipal, CreateApiKeyRequest, ServiceResponse } from '../types';
+import { ApiKeyUtils } from '../utils/apiKey';
+import { TokenPayload } from '../utils/jwt';
+import { AuditService } from './auditService';
+import { RoleService } from './roleService';
+
+// The hash is never returned
+export type PublicApiKey = Omit<ApiKey, 'secretHash'> & {
+  createdBy: { id: string; name: string; email: string };
+};
+
+const CREATED_BY_SELECT = { id: true, name: true, email: true } as const;
+
+export const DEFAULT_API_KEY_EXPIRY_DAYS = 90;
+export const MAX_API_KEY_EXPIRY_DAYS = 365;
+
+// lastUsedAt is only written when it is older than this, so busy keys do not write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export class ApiKeyService {
+  /**
+   * List API keys, newest first (Admin only)
+   */
+  static async getApiKeys(): Promise<ServiceResponse<PublicApiKey[]>> {
+    try {
+      const apiKeys = await prisma.apiKey.findMany({
+        include: { createdBy: { select: CREATED_BY_SELECT } },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return {
+        success: true,
+        data: apiKeys.map(apiKey => this.toPublic(apiKey)),
+      };
+    } catch (error) {
+      logger.error('Failed to get API keys', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve API keys',
+      };
+    }
+  }
+
+  /**
+   * Create an API key (Admin only).
+   * The response includes the key; only its hash is stored, so it is not shown again.
+   */
+  static async createApiKey(
+    data: CreateApiKeyRequest,
+    admin: TokenPayload,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<PublicApiKey & { key: string }>> {
+    try {
+      // A key cannot grant more than the admin who creates it has
+      if (data.scopes.some(scope => !admin.permissions.includes(scope))) {
+        return {
+          success: false,
+          error: 'Cannot grant scopes your role does not have',
+        };
+      }
+
+      const { key, prefix } = ApiKeyUtils.generate();
+      const expiresInDays = data.expiresInDays ?? DEFAULT_API_KEY_EXPIRY_DAYS;
+
+      const apiKey = await prisma.apiKey.create({
+        data: {
+          name: data.name,
+          prefix,
+          secretHash: ApiKeyUtils.hash(key),
+          scopes: [...new Set(data.scopes)],
+          expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+          createdById: admin.adminId,
+        },
+        include: { createdBy: { select: CREATED_BY_SELECT } },
+      });
+
+      await AuditService.createAuditLog({
+        action: 'CREATE',
+        entityType: 'api_key',
+        entityId: apiKey.id,
+        newValues: this.toAuditValues(apiKey),
+        description: `API key ${apiKey.name} created`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId: admin.adminId,
+      });
+
+      logger.info('API key created', {
+        apiKeyId: apiKey.id,
+        prefix,
+        scopes: apiKey.scopes,
+        adminId: admin.adminId,
+      });
+
+      return {
+        success: true,
+        data: { ...this.toPublic(apiKey), key },
+      };
+    } catch (error) {
+      logger.error('Failed to create API key', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        adminId: admin.adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to create API key',
+      };
+    }
+  }
+
+  /**
+   * Revoke an API key (Admin only).
+   * The key is kept so its name and last use stay visible, but it no longer authenticates.
+   */
+  static async revokeApiKey(
+    id: string,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<PublicApiKey>> {
+    try {
+      const existing = await prisma.apiKey.findUnique({ where: { id } });
+
+      if (!existing) {
+        return {
+          success: false,
+          error: 'API key not found',
+        };
+      }
+
+      if (existing.revokedAt) {
+        return {
+          success: false,
+          error: 'API key is already revoked',
+        };
+      }
+
+      const apiKey = await prisma.apiKey.update({
+        where: { id },
+        data: { revokedAt: new Date() },
+        include: { createdBy: { select: CREATED_BY_SELECT } },
+      });
+
+      await AuditService.createAuditLog({
+        action: 'DELETE',
+        entityType: 'api_key',
+        entityId: id,
+        oldValues: this.toAuditValues(existing),
+        description: `API key ${existing.name} revoked`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      logger.info('API key revoked', {
+        apiKeyId: id,
+        prefix: existing.prefix,
+        adminId,
+      });
+
+      return {
+        success: true,
+        data: this.toPublic(apiKey),
+      };
+    } catch (error) {
+      logger.error('Failed to revoke API key', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to revoke API key',
+      };
+    }
+  }
+
+  /**
+   * Look up the key sent with a request.
+   * Returns null when it is unknown, revoked or expired, or its creator has been deactivated.
+   * Scopes the creator's role no longer grants are dropped.
+   */
+  static async authenticate(key: string): Promise<ApiKeyPrincipal | null> {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { secretHash: ApiKeyUtils.hash(key) },
+      include: { createdBy: { select: { isActive: true, role: true } } },
+    });
+
+    const now = new Date();
+
+    if (!apiKey || apiKey.revokedAt || apiKey.expiresAt <= now || !apiKey.createdBy.isActive) {
+      return null;
+    }
+
+    const permissions = await RoleService.getPermissions(apiKey.createdBy.role);
+
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+      await prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: now },
+      });
+    }
+
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      scopes: apiKey.scopes.filter(scope => permissions.includes(scope)),
+      createdById: apiKey.createdById,
+    };
+  }
+
+  private static toPublic(apiKey: ApiKey & Pick<PublicApiKey, 'createdBy'>): PublicApiKey {
+    const { secretHash: _secretHash, ...rest } = apiKey;
+    return rest;
+  }
+
+  private static toAuditValues(apiKey: ApiKey): Record<string, unknown> {
+    return {
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      expiresAt: apiKey.expiresAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,648 @@
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { config } from '../config/config';
+import {
+  AutoAssignRequest,
+  AutoAssignResult,
+  JudgeQueueItem,
+  JudgeWorkload,
+  ServiceResponse,
+} from '../types';
+import { Admin, JudgeAssignment, SubmissionStatus } from '@prisma/client';
+import { AuditService } from './auditService';
+import { RoleService } from './roleService';
+import { SubmissionService } from './submissionService';
+
+type Judge = Pick<Admin, 'id' | 'email' | 'name'>;
+
+// Only submissions still waiting for a decision take part in balancing
+const ASSIGNABLE_STATUSES: SubmissionStatus[] = ['PENDING', 'UNDER_REVIEW'];
+
+export class AssignmentService {
+  /**
+   * Spread open submissions across active judges, least loaded first
+   */
+  static async autoAssign(
+    options: AutoAssignRequest,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<AutoAssignResult>> {
+    try {
+      const judgesPerSubmission = options.judgesPerSubmission || config.judging.judgesPerSubmission;
+      const judges = await this.getActiveJudges();
+
+      if (judges.length === 0) {
+        return {
+          success: false,
+          error: 'No active judges available',
+        };
+      }
+
+      const submissions = await prisma.submission.findMany({
+        where: {
+          status: { in: ASSIGNABLE_STATUSES },
+          deletedAt: null,
+          ...(options.eventId ? { eventId: options.eventId } : {}),
+          ...(options.submissionIds ? { id: { in: options.submissionIds } } : {}),
+        },
+        orderBy: { submittedAt: 'asc' },
+        select: {
+          id: true,
+          email: true,
+          members: { select: { email: true } },
+          assignments: { select: { judgeId: true } },
+        },
+      });
+
+      const workload = await this.getWorkloadMap(judges.map(judge => judge.id));
+
+      const result: AutoAssignResult = {
+        assignmentsCreated: 0,
+        submissionsProcessed: submissions.length,
+        movedToReview: 0,
+        understaffed: [],
+      };
+
+      for (const submission of submissions) {
+        const assignedJudgeIds = new Set(submission.assignments.map(assignment => assignment.judgeId));
+        const needed = judgesPerSubmission - assignedJudgeIds.size;
+
+        if (needed <= 0) {
+          continue;
+        }
+
+        const candidates = judges
+          .filter(judge => !assignedJudgeIds.has(judge.id))
+          .filter(judge => !this.hasConflictOfInterest(judge.email, this.getTeamEmails(submission)))
+          .sort((a, b) => (workload.get(a.id) || 0) - (workload.get(b.id) || 0) || a.id.localeCompare(b.id))
+          .slice(0, needed);
+
+        for (const judge of candidates) {
+          const assignResult = await this.createAssignment(submission.id, judge, adminId, clientInfo);
+
+          if (assignResult.success) {
+            result.assignmentsCreated++;
+            workload.set(judge.id, (workload.get(judge.id) || 0) + 1);
+
+            if (assignResult.data?.movedToReview) {
+              result.movedToReview++;
+            }
+          }
+        }
+
+        const totalAssigned = assignedJudgeIds.size + candidates.length;
+        if (totalAssigned < judgesPerSubmission) {
+          result.understaffed.push({
+            submissionId: submission.id,
+            assignedJudges: totalAssigned,
+            requiredJudges: judgesPerSubmission,
+          });
+        }
+      }
+
+      logger.info('Automatic judge assignment completed', {
+        adminId,
+        judgesPerSubmission,
+        assignmentsCreated: result.assignmentsCreated,
+        understaffed: result.understaffed.length,
+      });
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error) {
+      logger.error('Failed to auto-assign judges', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        options,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to assign judges',
+      };
+    }
+  }
+
+  /**
+   * Manually assign a judge to a submission
+   */
+  static async assignJudge(
+    submissionId: string,
+    judgeId: string,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<JudgeAssignment>> {
+    try {
+      const submission = await prisma.submission.findFirst({
+        where: { id: submissionId, deletedAt: null },
+        select: { id: true, email: true, members: { select: { email: true } } },
+      });
+
+      if (!submission) {
+        return {
+          success: false,
+          error: 'Submission not found',
+        };
+      }
+
+      const judgeCheck = await this.validateJudge(judgeId, this.getTeamEmails(submission));
+      if (!judgeCheck.success) {
+        return {
+          success: false,
+          error: judgeCheck.error,
+        };
+      }
+
+      const existingAssignment = await prisma.judgeAssignment.findUnique({
+        where: {
+          submissionId_judgeId: { submissionId, judgeId },
+        },
+      });
+
+      if (existingAssignment) {
+        return {
+          success: false,
+          error: 'Judge is already assigned to this submission',
+        };
+      }
+
+      const result = await this.createAssignment(submissionId, judgeCheck.data!, adminId, clientInfo);
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error,
+        };
+      }
+
+      return {
+        success: true,
+        data: result.data!.assignment,
+      };
+    } catch (error) {
+      logger.error('Failed to assign judge', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        submissionId,
+        judgeId,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to assign judge',
+      };
+    }
+  }
+
+  /**
+   * Move an existing assignment to another judge
+   */
+  static async reassign(
+    assignmentId: string,
+    newJudgeId: string,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<JudgeAssignment>> {
+    try {
+      const assignment = await prisma.judgeAssignment.findUnique({
+        where: { id: assignmentId },
+        include: {
+          submission: { select: { id: true, email: true, members: { select: { email: true } } } },
+        },
+      });
+
+      if (!assignment) {
+        return {
+          success: false,
+          error: 'Assignment not found',
+        };
+      }
+
+      if (assignment.judgeId === newJudgeId) {
+        return {
+          success: false,
+          error: 'Judge is already assigned to this submission',
+        };
+      }
+
+      const judgeCheck = await this.validateJudge(newJudgeId, this.getTeamEmails(assignment.submission));
+      if (!judgeCheck.success) {
+        return {
+          success: false,
+          error: judgeCheck.error,
+        };
+      }
+
+      const duplicate = await prisma.judgeAssignment.findUnique({
+        where: {
+          submissionId_judgeId: { submissionId: assignment.submissionId, judgeId: newJudgeId },
+        },
+      });
+
+      if (duplicate) {
+        return {
+          success: false,
+          error: 'Judge is already assigned to this submission',
+        };
+      }
+
+      const updatedAssignment = await prisma.judgeAssignment.update({
+        where: { id: assignmentId },
+        data: {
+          judgeId: newJudgeId,
+          assignedById: adminId,
+        },
+      });
+
+      await AuditService.createAuditLog({
+        action: 'UPDATE',
+        entityType: 'assignment',
+        entityId: assignmentId,
+        oldValues: { judgeId: assignment.judgeId },
+        newValues: { judgeId: newJudgeId },
+        description: `Submission reassigned to judge ${judgeCheck.data!.email}`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+        submissionId: assignment.submissionId,
+      });
+
+      logger.info('Assignment reassigned', {
+        assignmentId,
+        fromJudgeId: assignment.judgeId,
+        toJudgeId: newJudgeId,
+        adminId,
+      });
+
+      return {
+        success: true,
+        data: updatedAssignment,
+      };
+    } catch (error) {
+      logger.error('Failed to reassign judge', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        assignmentId,
+        newJudgeId,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to reassign judge',
+      };
+    }
+  }
+
+  /**
+   * Remove a judge from a submission
+   */
+  static async removeAssignment(
+    assignmentId: string,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<boolean>> {
+    try {
+      const assignment = await prisma.judgeAssignment.findUnique({
+        where: { id: assignmentId },
+      });
+
+      if (!assignment) {
+        return {
+          success: false,
+          error: 'Assignment not found',
+        };
+      }
+
+      await prisma.judgeAssignment.delete({
+        where: { id: assignmentId },
+      });
+
+      await AuditService.createAuditLog({
+        action: 'DELETE',
+        entityType: 'assignment',
+        entityId: assignmentId,
+        oldValues: assignment,
+        description: 'Judge removed from submission',
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+        submissionId: assignment.submissionId,
+      });
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      logger.error('Failed to remove assignment', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        assignmentId,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to remove assignment',
+      };
+    }
+  }
+
+  /**
+   * List assignments, optionally filtered by submission or judge
+   */
+  static async getAssignments(params: {
+    submissionId?: string;
+    judgeId?: string;
+  }): Promise<ServiceResponse<JudgeAssignment[]>> {
+    try {
+      const where: any = {};
+
+      if (params.submissionId) where.submissionId = params.submissionId;
+      if (params.judgeId) where.judgeId = params.judgeId;
+
+      const assignments = await prisma.judgeAssignment.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          judge: {
+            select: { id: true, name: true, email: true },
+          },
+          submission: {
+            select: { id: true, teamName: true, status: true },
+          },
+        },
+      });
+
+      return {
+        success: true,
+        data: assignments,
+      };
+    } catch (error) {
+      logger.error('Failed to get assignments', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        params,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve assignments',
+      };
+    }
+  }
+
+  /**
+   * Get the review queue of a judge, with whether each submission was scored
+   */
+  static async getJudgeQueue(judgeId: string): Promise<ServiceResponse<JudgeQueueItem[]>> {
+    try {
+      const assignments = await prisma.judgeAssignment.findMany({
+        where: {
+          judgeId,
+          submission: { status: { in: ASSIGNABLE_STATUSES }, deletedAt: null },
+        },
+        orderBy: { createdAt: 'asc' },
+        include: {
+          submission: {
+            select: {
+              id: true,
+              teamName: true,
+              status: true,
+              demoUrl: true,
+              githubRepository: true,
+              presentationLink: true,
+              submittedAt: true,
+              _count: {
+                select: {
+                  scores: { where: { judgeId } },
+                },
+              },
+            },
+          },
+        },
+      });
+
+      const queue = assignments.map(({ submission: { _count, ...submission }, ...assignment }): JudgeQueueItem => ({
+        assignmentId: assignment.id,
+        assignedAt: assignment.createdAt,
+        scored: _count.scores > 0,
+        submission,
+      }));
+
+      return {
+        success: true,
+        data: queue,
+      };
+    } catch (error) {
+      logger.error('Failed to get judge queue', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        judgeId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve review queue',
+      };
+    }
+  }
+
+  /**
+   * Current open assignments and completed reviews per active judge
+   */
+  static async getWorkload(): Promise<ServiceResponse<JudgeWorkload[]>> {
+    try {
+      const judges = await this.getActiveJudges();
+      const workload = await this.getWorkloadMap(judges.map(judge => judge.id));
+
+      const scoredPairs = await prisma.score.groupBy({
+        by: ['judgeId', 'submissionId'],
+        where: { judgeId: { in: judges.map(judge => judge.id) } },
+      });
+
+      const scoredCounts = scoredPairs.reduce((acc, pair) => {
+        acc[pair.judgeId] = (acc[pair.judgeId] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>);
+
+      return {
+        success: true,
+        data: judges.map(judge => ({
+          judgeId: judge.id,
+          name: judge.name,
+          email: judge.email,
+          assigned: workload.get(judge.id) || 0,
+          scored: scoredCounts[judge.id] || 0,
+        })),
+      };
+    } catch (error) {
+      logger.error('Failed to get judge workload', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve judge workload',
+      };
+    }
+  }
+
+  /**
+   * Check whether a judge is assigned to a submission
+   */
+  static async isAssigned(submissionId: string, judgeId: string): Promise<boolean> {
+    const assignment = await prisma.judgeAssignment.findUnique({
+      where: {
+        submissionId_judgeId: { submissionId, judgeId },
+      },
+      select: { id: true },
+    });
+
+    return !!assignment;
+  }
+
+  /**
+   * A judge conflicts with a team when anyone on it, leader or member, shares the judge's organisational email domain
+   */
+  static hasConflictOfInterest(judgeEmail: string, teamEmails: string[]): boolean {
+    const judgeDomain = this.getEmailDomain(judgeEmail);
+
+    if (!judgeDomain || config.judging.publicEmailDomains.includes(judgeDomain)) {
+      return false;
+    }
+
+    return teamEmails.some(email => this.getEmailDomain(email) === judgeDomain);
+  }
+
+  private static getTeamEmails(submission: { email: string; members: { email: string }[] }): string[] {
+    return [submission.email, ...submission.members.map(member => member.email)];
+  }
+
+  private static getEmailDomain(email: string): string {
+    return email.split('@')[1]?.trim().toLowerCase() || '';
+  }
+
+  /**
+   * Judges are admins whose role can score but not read every submission,
+   * so admins who run the event are not drawn into the pool
+   */
+  private static async getJudgeRoles(): Promise<string[]> {
+    const [scorers, readers] = await Promise.all([
+      RoleService.getRolesWithPermission('scores:write'),
+      RoleService.getRolesWithPermission('submissions:read'),
+    ]);
+
+    return scorers.filter(role => !readers.includes(role));
+  }
+
+  private static async getActiveJudges(): Promise<Judge[]> {
+    return prisma.admin.findMany({
+      where: { role: { in: await this.getJudgeRoles() }, isActive: true },
+      select: { id: true, email: true, name: true },
+    });
+  }
+
+  /**
+   * Number of open assignments per judge
+   */
+  private static async getWorkloadMap(judgeIds: string[]): Promise<Map<string, number>> {
+    const counts = await prisma.judgeAssignment.groupBy({
+      by: ['judgeId'],
+      where: {
+        judgeId: { in: judgeIds },
+        submission: { status: { in: ASSIGNABLE_STATUSES }, deletedAt: null },
+      },
+      _count: { judgeId: true },
+    });
+
+    return new Map(counts.map(count => [count.judgeId, count._count.judgeId]));
+  }
+
+  private static async validateJudge(
+    judgeId: string,
+    teamEmails: string[]
+  ): Promise<ServiceResponse<Judge>> {
+    const judge = await prisma.admin.findUnique({
+      where: { id: judgeId },
+      select: { id: true, email: true, name: true, role: true, isActive: true },
+    });
+
+    if (!judge || !(await this.getJudgeRoles()).includes(judge.role)) {
+      return {
+        success: false,
+        error: 'Judge not found',
+      };
+    }
+
+    if (!judge.isActive) {
+      return {
+        success: false,
+        error: 'Judge account is disabled',
+      };
+    }
+
+    if (this.hasConflictOfInterest(judge.email, teamEmails)) {
+      return {
+        success: false,
+        error: 'Judge has a conflict of interest with this submission',
+      };
+    }
+
+    return {
+      success: true,
+      data: { id: judge.id, email: judge.email, name: judge.name },
+    };
+  }
+
+  /**
+   * Create the assignment and move the submission under review on its first judge
+   */
+  private static async createAssignment(
+    submissionId: string,
+    judge: Judge,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<{ assignment: JudgeAssignment; movedToReview: boolean }>> {
+    const assignment = await prisma.judgeAssignment.create({
+      data: {
+        submissionId,
+        judgeId: judge.id,
+        assignedById: adminId,
+      },
+    });
+
+    await AuditService.createAuditLog({
+      action: 'CREATE',
+      entityType: 'assignment',
+      entityId: assignment.id,
+      newValues: { judgeId: judge.id },
+      description: `Judge ${judge.email} assigned to submission`,
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+      adminId,
+      submissionId,
+    });
+
+    let movedToReview = false;
+
+    const [assignmentCount, submission] = await Promise.all([
+      prisma.judgeAssignment.count({ where: { submissionId } }),
+      prisma.submission.findUnique({ where: { id: submissionId }, select: { status: true } }),
+    ]);
+
+    if (assignmentCount === 1 && submission?.status === 'PENDING') {
+      const updateResult = await SubmissionService.updateSubmission(
+        submissionId,
+        { status: 'UNDER_REVIEW' },
+        adminId,
+        clientInfo
+      );
+      movedToReview = updateResult.success;
+    }
+
+    return {
+      success: true,
+      data: { assignment, movedToReview },
+    };
+  }
+}
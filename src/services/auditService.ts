@@ -1,7 +1,10 @@
 import { prisma } from '../config/database';
 import { logger } from '../config/logger';
-import { CreateAuditLogData, ServiceResponse } from '../types';
+import { AuditActor, CreateAuditLogData, ServiceResponse } from '../types';
 import { AuditAction, AuditLog } from '@prisma/client';
+import { NotificationService } from './notificationService';
+import { WebhookService } from './webhookService';
+import { StreamService } from './streamService';
 
 export class AuditService {
   /**
@@ -19,6 +22,8 @@ export class AuditService {
           description: data.description,
           ipAddress: data.ipAddress,
           userAgent: data.userAgent,
+          actorType: data.actor?.type ?? (data.adminId ? 'admin' : undefined),
+          actorId: data.actor?.id ?? data.adminId,
           adminId: data.adminId,
           submissionId: data.submissionId,
         },
@@ -30,8 +35,12 @@ export class AuditService {
         entityType: data.entityType,
         entityId: data.entityId,
         adminId: data.adminId,
+        actorType: auditLog.actorType,
       });
 
+      await WebhookService.emit(auditLog);
+      await StreamService.publish(auditLog);
+
       return {
         success: true,
         data: auditLog,
@@ -59,7 +68,9 @@ export class AuditService {
     entityId?: string;
     action?: AuditAction;
     adminId?: string;
+    actorType?: string;
     submissionId?: string;
+    eventId?: string;
     dateFrom?: Date;
     dateTo?: Date;
   }): Promise<ServiceResponse<{ logs: AuditLog[]; total: number }>> {
@@ -71,7 +82,9 @@ export class AuditService {
         entityId,
         action,
         adminId,
+        actorType,
         submissionId,
+        eventId,
         dateFrom,
         dateTo,
       } = params;
@@ -85,7 +98,9 @@ export class AuditService {
       if (entityId) where.entityId = entityId;
       if (action) where.action = action;
       if (adminId) where.adminId = adminId;
+      if (actorType) where.actorType = actorType;
       if (submissionId) where.submissionId = submissionId;
+      if (eventId) where.submission = { eventId };
 
       if (dateFrom || dateTo) {
         where.createdAt = {};
@@ -208,14 +223,15 @@ export class AuditService {
   }
 
   /**
-   * Log submission update
+   * Log submission update by an admin, or by another actor when adminId is null
    */
   static async logSubmissionUpdated(
     submissionId: string,
     oldData: any,
     newData: any,
-    adminId: string,
-    clientInfo: { ipAddress: string; userAgent: string }
+    adminId: string | null,
+    clientInfo: { ipAddress: string; userAgent: string },
+    actor?: AuditActor
   ): Promise<void> {
     await this.createAuditLog({
       action: 'UPDATE',
@@ -223,11 +239,12 @@ export class AuditService {
       entityId: submissionId,
       oldValues: oldData,
       newValues: newData,
-      description: `Submission updated by admin`,
+      description: `Submission updated by ${actor?.type || 'admin'}`,
       ipAddress: clientInfo.ipAddress,
       userAgent: clientInfo.userAgent,
-      adminId,
+      adminId: adminId || undefined,
       submissionId,
+      actor,
     });
   }
 
@@ -238,19 +255,50 @@ export class AuditService {
     submissionId: string,
     oldStatus: string,
     newStatus: string,
-    adminId: string,
-    clientInfo: { ipAddress: string; userAgent: string }
+    adminId: string | null,
+    clientInfo: { ipAddress: string; userAgent: string },
+    actor?: AuditActor,
+    reason?: string
   ): Promise<void> {
     await this.createAuditLog({
       action: 'STATUS_CHANGE',
       entityType: 'submission',
       entityId: submissionId,
       oldValues: { status: oldStatus },
-      newValues: { status: newStatus },
-      description: `Status changed from ${oldStatus} to ${newStatus}`,
+      newValues: { status: newStatus, ...(reason && { reason }) },
+      description: reason
+        ? `Status changed from ${oldStatus} to ${newStatus}: ${reason}`
+        : `Status changed from ${oldStatus} to ${newStatus}`,
       ipAddress: clientInfo.ipAddress,
       userAgent: clientInfo.userAgent,
-      adminId,
+      adminId: adminId || undefined,
+      submissionId,
+      actor,
+    });
+
+    await NotificationService.notifyStatusChange(submissionId, oldStatus, newStatus, reason);
+  }
+
+  /**
+   * Log scores submitted by a judge
+   */
+  static async logScoresSubmitted(
+    submissionId: string,
+    oldScores: any[],
+    newScores: any[],
+    judgeId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<void> {
+    await this.createAuditLog({
+      action: 'REVIEW',
+      entityType: 'submission',
+      entityId: submissionId,
+      oldValues: oldScores.length > 0 ? { scores: oldScores } : undefined,
+      newValues: { scores: newScores },
+      description: `Scores submitted for ${newScores.length} criteria`,
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+      adminId: judgeId,
       submissionId,
     });
   }
@@ -294,11 +342,13 @@ export class AuditService {
   }
 
   /**
-   * Get audit statistics
+   * Get audit statistics, optionally limited to the submissions of one event
    */
-  static async getAuditStats(dateFrom?: Date, dateTo?: Date): Promise<ServiceResponse<any>> {
+  static async getAuditStats(dateFrom?: Date, dateTo?: Date, eventId?: string): Promise<ServiceResponse<any>> {
     try {
       const where: any = {};
+
+      if (eventId) where.submission = { eventId };
       
       if (dateFrom || dateTo) {
         where.createdAt = {};
@@ -0,0 +1,119 @@
+import { prisma } from '../config/database';
+import { JWTUtils } from '../utils/jwt';
+import { AccountStatusService } from './accountStatusService';
+import { AuditService } from './auditService';
+import { AuthService } from './authService';
+
+jest.mock('../config/database', () => ({
+  prisma: {
+    admin: { findUnique: jest.fn() },
+    refreshToken: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+      create: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('./auditService', () => ({
+  AuditService: { createAuditLog: jest.fn() },
+}));
+
+jest.mock('./roleService', () => ({
+  RoleService: { getPermissions: jest.fn().mockResolvedValue(['submissions:read']) },
+}));
+
+const refreshTokens = prisma.refreshToken as unknown as Record<string, jest.Mock>;
+const findAdmin = prisma.admin.findUnique as jest.Mock;
+
+const clientInfo = { ipAddress: '203.0.113.7', userAgent: 'jest' };
+const admin = { id: 'admin-1', email: 'ada@example.com', role: 'admin', isActive: true, tokenVersion: 3 };
+
+const buildTokenRecord = (overrides: Record<string, unknown> = {}) => ({
+  id: 'token-1',
+  adminId: admin.id,
+  sessionId: 'session-1',
+  sessionStartedAt: new Date(),
+  rotatedAt: null,
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  admin,
+  ...overrides,
+});
+
+const refreshTokenFor = (tokenId: string): string => JWTUtils.generateRefreshToken({ adminId: admin.id, tokenId });
+
+describe('AuthService.refreshToken', () => {
+  it('exchanges an unused refresh token for a new pair in the same session', async () => {
+    refreshTokens.findUnique.mockResolvedValue(buildTokenRecord());
+    refreshTokens.updateMany.mockResolvedValue({ count: 1 });
+
+    const result = await AuthService.refreshToken(refreshTokenFor('token-1'), clientInfo);
+
+    expect(result.success).toBe(true);
+    expect(JWTUtils.verifyAccessToken(result.data!.accessToken)).toMatchObject({
+      adminId: admin.id,
+      sid: 'session-1',
+      ver: 3,
+      permissions: ['submissions:read'],
+    });
+    expect(refreshTokens.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ adminId: admin.id, sessionId: 'session-1' }),
+    });
+    expect(refreshTokens.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('revokes the whole session when a rotated-out token is presented again', async () => {
+    refreshTokens.findUnique.mockResolvedValue(buildTokenRecord({ rotatedAt: new Date() }));
+    refreshTokens.updateMany.mockResolvedValue({ count: 0 });
+    refreshTokens.deleteMany.mockResolvedValue({ count: 2 });
+
+    const result = await AuthService.refreshToken(refreshTokenFor('token-1'), clientInfo);
+
+    expect(result).toEqual({ success: false, error: 'Invalid refresh token' });
+    expect(refreshTokens.deleteMany).toHaveBeenCalledWith({
+      where: { adminId: admin.id, sessionId: 'session-1' },
+    });
+    expect(refreshTokens.create).not.toHaveBeenCalled();
+    expect(AuditService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'TOKEN_REUSE',
+      entityId: admin.id,
+      newValues: { sessionId: 'session-1', revokedTokens: 2 },
+      actor: { type: 'system' },
+    }));
+  });
+
+  it('rejects the access tokens of the revoked session from the next request', async () => {
+    findAdmin.mockResolvedValue({ isActive: true, tokenVersion: 3 });
+    refreshTokens.findFirst.mockResolvedValueOnce({ id: 'token-2' }).mockResolvedValue(null);
+
+    const accessToken = JWTUtils.verifyAccessToken(JWTUtils.generateAccessToken({
+      adminId: admin.id,
+      email: admin.email,
+      role: admin.role,
+      permissions: [],
+      sid: 'session-2',
+      ver: 3,
+    }));
+
+    await expect(AccountStatusService.isTokenCurrent(accessToken)).resolves.toBe(true);
+
+    refreshTokens.findUnique.mockResolvedValue(buildTokenRecord({ sessionId: 'session-2', rotatedAt: new Date() }));
+    refreshTokens.updateMany.mockResolvedValue({ count: 0 });
+    refreshTokens.deleteMany.mockResolvedValue({ count: 1 });
+
+    await AuthService.refreshToken(refreshTokenFor('token-1'), clientInfo);
+
+    await expect(AccountStatusService.isTokenCurrent(accessToken)).resolves.toBe(false);
+  });
+
+  it('rejects a token that is not on record', async () => {
+    refreshTokens.findUnique.mockResolvedValue(null);
+
+    const result = await AuthService.refreshToken(refreshTokenFor('unknown'), clientInfo);
+
+    expect(result).toEqual({ success: false, error: 'Invalid refresh token' });
+    expect(refreshTokens.updateMany).not.toHaveBeenCalled();
+  });
+});
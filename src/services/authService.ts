@@ -1,15 +1,25 @@
+import crypto from 'crypto';
 import { prisma } from '../config/database';
 import { logger } from '../config/logger';
-import { JWTUtils, TokenPayload } from '../utils/jwt';
+import { config } from '../config/config';
+import { JWTUtils, TokenPayload, TwoFactorChallengePayload } from '../utils/jwt';
 import { PasswordUtils } from '../utils/password';
+import { RequestUtils } from '../utils/request';
 import { 
   LoginRequest, 
   LoginResponse, 
   ChangePasswordRequest,
-  ServiceResponse 
+  ServiceResponse,
+  TwoFactorChallengeResponse,
+  TwoFactorLoginRequest
 } from '../types';
 import { Admin, RefreshToken } from '@prisma/client';
+import { AccountStatusService } from './accountStatusService';
 import { AuditService } from './auditService';
+import { LoginAttemptService } from './loginAttemptService';
+import { NotificationService } from './notificationService';
+import { RoleService } from './roleService';
+import { TwoFactorService } from './twoFactorService';
 
 export class AuthService {
   /**
@@ -18,36 +28,43 @@ export class AuthService {
   static async login(
     credentials: LoginRequest,
     clientInfo: { ipAddress: string; userAgent: string }
-  ): Promise<ServiceResponse<LoginResponse>> {
+  ): Promise<ServiceResponse<LoginResponse | TwoFactorChallengeResponse>> {
     try {
       // Find admin by email
       const admin = await prisma.admin.findUnique({
         where: { email: credentials.email },
       });
 
+      // Unknown emails, locked accounts and wrong passwords get the same response
       if (!admin) {
         logger.warn('Login attempt with non-existent email', {
           email: credentials.email,
           ip: clientInfo.ipAddress,
         });
 
+        await LoginAttemptService.simulatePasswordCheck(credentials.password);
+        await LoginAttemptService.recordFailure(null, credentials.email, 'unknown_email', clientInfo);
+
         return {
           success: false,
           error: 'Invalid email or password',
         };
       }
 
-      // Check if admin account is active
-      if (!admin.isActive) {
-        logger.warn('Login attempt with inactive account', {
+      if (LoginAttemptService.isLocked(admin)) {
+        logger.warn('Login attempt on locked account', {
           email: credentials.email,
           adminId: admin.id,
+          lockedUntil: admin.lockedUntil,
           ip: clientInfo.ipAddress,
         });
 
+        await LoginAttemptService.simulatePasswordCheck(credentials.password);
+        await LoginAttemptService.recordFailure(admin, credentials.email, 'account_locked', clientInfo);
+
         return {
           success: false,
-          error: 'Account is disabled',
+          error: 'Invalid email or password',
         };
       }
 
@@ -64,73 +81,182 @@ export class AuthService {
           ip: clientInfo.ipAddress,
         });
 
+        await LoginAttemptService.recordFailure(admin, credentials.email, 'invalid_password', clientInfo);
+
         return {
           success: false,
           error: 'Invalid email or password',
         };
       }
 
-      // Generate tokens
-      const tokenPayload: Omit<TokenPayload, 'iat' | 'exp'> = {
-        adminId: admin.id,
-        email: admin.email,
-        role: admin.role,
-      };
+      // Checked after the password so the response does not reveal that the email exists
+      if (!admin.isActive) {
+        logger.warn('Login attempt with inactive account', {
+          email: credentials.email,
+          adminId: admin.id,
+          ip: clientInfo.ipAddress,
+        });
 
-      const accessToken = JWTUtils.generateAccessToken(tokenPayload);
+        await LoginAttemptService.recordFailure(admin, credentials.email, 'account_disabled', clientInfo);
 
-      // Create refresh token record
-      const refreshTokenRecord = await prisma.refreshToken.create({
-        data: {
-          token: '',
+        return {
+          success: false,
+          error: 'Account is disabled',
+        };
+      }
+
+      // A second step is needed when 2FA is on, or when the role requires it and the admin has not enrolled yet
+      if (admin.twoFactorEnabledAt || TwoFactorService.isRequired(admin.role)) {
+        const purpose = admin.twoFactorEnabledAt ? 'verify' : 'enroll';
+
+        logger.info('Admin password accepted, two-factor step pending', {
           adminId: admin.id,
-          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
-        },
-      });
+          purpose,
+          ip: clientInfo.ipAddress,
+        });
 
-      const refreshToken = JWTUtils.generateRefreshToken({
-        adminId: admin.id,
-        tokenId: refreshTokenRecord.id,
-      });
+        return {
+          success: true,
+          data: {
+            twoFactorRequired: true,
+            enrollmentRequired: purpose === 'enroll',
+            challengeToken: JWTUtils.generateTwoFactorChallenge({ adminId: admin.id, purpose }),
+            expiresIn: config.twoFactor.challengeExpiresIn,
+          },
+        };
+      }
 
-      // Update the refresh token record with the actual token
-      await prisma.refreshToken.update({
-        where: { id: refreshTokenRecord.id },
-        data: { token: refreshToken },
+      return {
+        success: true,
+        data: await this.createSession(admin, clientInfo),
+      };
+    } catch (error) {
+      logger.error('Login error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        email: credentials.email,
+        ip: clientInfo.ipAddress,
       });
 
-      // Update last login time
-      await prisma.admin.update({
-        where: { id: admin.id },
-        data: { lastLoginAt: new Date() },
+      return {
+        success: false,
+        error: 'Login failed',
+      };
+    }
+  }
+
+  /**
+   * Second login step: exchange the challenge token and an authenticator or recovery code for tokens
+   */
+  static async completeTwoFactorLogin(
+    data: TwoFactorLoginRequest,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<LoginResponse>> {
+    try {
+      let challenge: TwoFactorChallengePayload;
+
+      try {
+        challenge = JWTUtils.verifyTwoFactorChallenge(data.challengeToken);
+      } catch (error) {
+        return {
+          success: false,
+          error: 'Invalid or expired two-factor challenge',
+        };
+      }
+
+      if (challenge.purpose !== 'verify') {
+        return {
+          success: false,
+          error: 'Invalid or expired two-factor challenge',
+        };
+      }
+
+      const admin = await prisma.admin.findUnique({
+        where: { id: challenge.adminId },
       });
 
-      // Log the login
-      await AuditService.logAdminLogin(admin.id, admin.email, clientInfo);
+      if (!admin || !admin.isActive) {
+        return {
+          success: false,
+          error: 'Account is disabled',
+        };
+      }
+
+      if (LoginAttemptService.isLocked(admin)) {
+        await LoginAttemptService.recordFailure(admin, admin.email, 'account_locked', clientInfo);
 
-      logger.info('Admin login successful', {
-        adminId: admin.id,
-        email: admin.email,
+        return {
+          success: false,
+          error: 'Invalid two-factor code',
+        };
+      }
+
+      const verification = await TwoFactorService.verifyLogin(admin, data);
+
+      if (!verification.valid) {
+        logger.warn('Login attempt with invalid two-factor code', {
+          adminId: admin.id,
+          ip: clientInfo.ipAddress,
+        });
+
+        await LoginAttemptService.recordFailure(admin, admin.email, 'invalid_two_factor_code', clientInfo);
+
+        return {
+          success: false,
+          error: 'Invalid two-factor code',
+        };
+      }
+
+      if (verification.method === 'recovery_code') {
+        logger.info('Admin signed in with a recovery code', {
+          adminId: admin.id,
+          ip: clientInfo.ipAddress,
+        });
+      }
+
+      return {
+        success: true,
+        data: await this.createSession(admin, clientInfo),
+      };
+    } catch (error) {
+      logger.error('Two-factor login error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
         ip: clientInfo.ipAddress,
       });
 
+      return {
+        success: false,
+        error: 'Login failed',
+      };
+    }
+  }
+
+  /**
+   * Finish a login that was held back for mandatory enrollment, once 2FA has been enabled
+   */
+  static async completeEnrollmentLogin(
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<LoginResponse>> {
+    try {
+      const admin = await prisma.admin.findUnique({
+        where: { id: adminId },
+      });
+
+      if (!admin || !admin.isActive) {
+        return {
+          success: false,
+          error: 'Account is disabled',
+        };
+      }
+
       return {
         success: true,
-        data: {
-          accessToken,
-          refreshToken,
-          admin: {
-            id: admin.id,
-            email: admin.email,
-            name: admin.name,
-            role: admin.role,
-          },
-        },
+        data: await this.createSession(admin, clientInfo),
       };
     } catch (error) {
-      logger.error('Login error', {
+      logger.error('Login after two-factor enrollment failed', {
         error: error instanceof Error ? error.message : 'Unknown error',
-        email: credentials.email,
+        adminId,
         ip: clientInfo.ipAddress,
       });
 
@@ -156,7 +282,7 @@ export class AuthService {
       const tokenRecord = await prisma.refreshToken.findUnique({
         where: { 
           id: decoded.tokenId,
-          token: refreshToken,
+          tokenHash: this.hashToken(refreshToken),
         },
         include: {
           admin: true,
@@ -194,6 +320,21 @@ export class AuthService {
         };
       }
 
+      // Mark the token as exchanged. If it already was, it has been used before and may be stolen.
+      const { count } = await prisma.refreshToken.updateMany({
+        where: { id: tokenRecord.id, rotatedAt: null },
+        data: { rotatedAt: new Date() },
+      });
+
+      if (count === 0) {
+        await this.revokeTokenFamily(tokenRecord.adminId, tokenRecord.sessionId, clientInfo);
+
+        return {
+          success: false,
+          error: 'Invalid refresh token',
+        };
+      }
+
       // Check if admin account is still active
       if (!tokenRecord.admin.isActive) {
         logger.warn('Refresh token used for inactive account', {
@@ -207,38 +348,22 @@ export class AuthService {
         };
       }
 
-      // Generate new access token
+      // Generate new access token with the role's current permissions
       const tokenPayload: Omit<TokenPayload, 'iat' | 'exp'> = {
         adminId: tokenRecord.admin.id,
         email: tokenRecord.admin.email,
         role: tokenRecord.admin.role,
+        permissions: await RoleService.getPermissions(tokenRecord.admin.role),
+        sid: tokenRecord.sessionId,
+        ver: tokenRecord.admin.tokenVersion,
       };
 
       const newAccessToken = JWTUtils.generateAccessToken(tokenPayload);
 
-      // Generate new refresh token
-      const newRefreshTokenRecord = await prisma.refreshToken.create({
-        data: {
-          token: '',
-          adminId: tokenRecord.adminId,
-          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
-        },
-      });
-
-      const newRefreshToken = JWTUtils.generateRefreshToken({
-        adminId: tokenRecord.adminId,
-        tokenId: newRefreshTokenRecord.id,
-      });
-
-      // Update the new refresh token record
-      await prisma.refreshToken.update({
-        where: { id: newRefreshTokenRecord.id },
-        data: { token: newRefreshToken },
-      });
-
-      // Delete old refresh token
-      await prisma.refreshToken.delete({
-        where: { id: tokenRecord.id },
+      // Generate new refresh token for the same session
+      const newRefreshToken = await this.issueRefreshToken(tokenRecord.adminId, clientInfo, {
+        sessionId: tokenRecord.sessionId,
+        sessionStartedAt: tokenRecord.sessionStartedAt,
       });
 
       logger.info('Token refreshed successfully', {
@@ -275,10 +400,10 @@ export class AuthService {
     clientInfo: { ipAddress: string; userAgent: string }
   ): Promise<ServiceResponse<boolean>> {
     try {
-      // Find and delete refresh token
+      // Find the refresh token and delete its whole family
       const tokenRecord = await prisma.refreshToken.findFirst({
         where: {
-          token: refreshToken,
+          tokenHash: this.hashToken(refreshToken),
           adminId,
         },
         include: {
@@ -287,9 +412,10 @@ export class AuthService {
       });
 
       if (tokenRecord) {
-        await prisma.refreshToken.delete({
-          where: { id: tokenRecord.id },
+        await prisma.refreshToken.deleteMany({
+          where: { adminId, sessionId: tokenRecord.sessionId },
         });
+        AccountStatusService.invalidateSessions([tokenRecord.sessionId]);
 
         // Log the logout
         await AuditService.logAdminLogout(
@@ -378,17 +504,33 @@ export class AuthService {
         passwordData.newPassword
       );
 
-      // Update password
-      await prisma.admin.update({
-        where: { id: adminId },
-        data: { password: hashedPassword },
-      });
+      const notification = await prisma.$transaction(async tx => {
+        // Update password and invalidate outstanding access tokens
+        const updatedAdmin = await tx.admin.update({
+          where: { id: adminId },
+          data: { password: hashedPassword, tokenVersion: { increment: 1 } },
+        });
+
+        // Invalidate all refresh tokens for this admin
+        await tx.refreshToken.deleteMany({
+          where: { adminId },
+        });
 
-      // Invalidate all refresh tokens for this admin
-      await prisma.refreshToken.deleteMany({
-        where: { adminId },
+        return NotificationService.enqueue({
+          template: 'password_changed',
+          recipient: admin.email,
+          adminId,
+          variables: {
+            name: admin.name,
+            changedAt: updatedAdmin.updatedAt.toISOString(),
+            ipAddress: clientInfo.ipAddress,
+          },
+        }, tx);
       });
 
+      NotificationService.deliverSoon(notification);
+      AccountStatusService.invalidate(adminId);
+
       // Log password change
       await AuditService.createAuditLog({
         action: 'UPDATE',
@@ -437,6 +579,7 @@ export class AuthService {
           role: true,
           isActive: true,
           lastLoginAt: true,
+          twoFactorEnabledAt: true,
           createdAt: true,
           updatedAt: true,
         },
@@ -488,4 +631,131 @@ export class AuthService {
       });
     }
   }
+
+  /**
+   * Issue access and refresh tokens once every login step has passed
+   */
+  private static async createSession(
+    admin: Admin,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<LoginResponse> {
+    // Start a new session; its refresh token carries the session ID through every rotation
+    const sessionId = crypto.randomUUID();
+    const refreshToken = await this.issueRefreshToken(admin.id, clientInfo, {
+      sessionId,
+      sessionStartedAt: new Date(),
+    });
+
+    // Generate access token
+    const permissions = await RoleService.getPermissions(admin.role);
+    const tokenPayload: Omit<TokenPayload, 'iat' | 'exp'> = {
+      adminId: admin.id,
+      email: admin.email,
+      role: admin.role,
+      permissions,
+      sid: sessionId,
+      ver: admin.tokenVersion,
+    };
+
+    const accessToken = JWTUtils.generateAccessToken(tokenPayload);
+
+    // Update last login time and clear failed attempts
+    await prisma.admin.update({
+      where: { id: admin.id },
+      data: { lastLoginAt: new Date(), failedLoginAttempts: 0, lockedUntil: null },
+    });
+
+    // Log the login
+    await AuditService.logAdminLogin(admin.id, admin.email, clientInfo);
+
+    logger.info('Admin login successful', {
+      adminId: admin.id,
+      email: admin.email,
+      ip: clientInfo.ipAddress,
+    });
+
+    return {
+      accessToken,
+      refreshToken,
+      admin: {
+        id: admin.id,
+        email: admin.email,
+        name: admin.name,
+        role: admin.role,
+        permissions,
+      },
+    };
+  }
+
+  /**
+   * Create a refresh token record for a session, recording the client it was issued to
+   */
+  private static async issueRefreshToken(
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string },
+    session: { sessionId: string; sessionStartedAt: Date }
+  ): Promise<string> {
+    // The record ID is chosen up front so the token can be signed before it is stored
+    const tokenId = crypto.randomUUID();
+    const refreshToken = JWTUtils.generateRefreshToken({
+      adminId,
+      tokenId,
+    });
+
+    await prisma.refreshToken.create({
+      data: {
+        id: tokenId,
+        tokenHash: this.hashToken(refreshToken),
+        adminId,
+        sessionId: session.sessionId,
+        sessionStartedAt: session.sessionStartedAt,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        browserInfo: RequestUtils.parseBrowserInfo(clientInfo.userAgent),
+        lastUsedAt: new Date(),
+        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
+      },
+    });
+
+    return refreshToken;
+  }
+
+  /**
+   * Revoke every token of a session after a rotated-out token was presented again.
+   * Whoever holds the session, legitimate or not, has to log in again; its access tokens are rejected from the next request.
+   */
+  private static async revokeTokenFamily(
+    adminId: string,
+    sessionId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<void> {
+    const revoked = await prisma.refreshToken.deleteMany({
+      where: { adminId, sessionId },
+    });
+
+    // Access tokens of the session stop working too
+    AccountStatusService.invalidateSessions([sessionId]);
+
+    logger.warn('Refresh token reuse detected, session revoked', {
+      adminId,
+      sessionId,
+      revokedTokens: revoked.count,
+      ip: clientInfo.ipAddress,
+    });
+
+    await AuditService.createAuditLog({
+      action: 'TOKEN_REUSE',
+      entityType: 'admin',
+      entityId: adminId,
+      newValues: { sessionId, revokedTokens: revoked.count },
+      description: 'Refresh token reuse detected; the session was revoked',
+      ipAddress: clientInfo.ipAddress,
+      userAgent: clientInfo.userAgent,
+      actor: { type: 'system' },
+    });
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
 }
@@ -0,0 +1,214 @@
+import { Admin, SubmissionComment } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { CommentAuthor, CreateCommentRequest, ServiceResponse } from '../types';
+import { AuditService } from './auditService';
+
+const COMMENT_INCLUDE = {
+  authorAdmin: { select: { id: true, name: true } },
+  resolvedBy: { select: { id: true, name: true } },
+};
+
+export type CommentWithAuthors = SubmissionComment & {
+  authorAdmin: Pick<Admin, 'id' | 'name'> | null;
+  resolvedBy: Pick<Admin, 'id' | 'name'> | null;
+};
+
+export type CommentThread = CommentWithAuthors & { replies: CommentWithAuthors[] };
+
+export class CommentService {
+  /**
+   * Get the comment threads of a submission, oldest first.
+   * Teams only see team-visible threads.
+   */
+  static async getComments(
+    submissionId: string,
+    includeInternal: boolean
+  ): Promise<ServiceResponse<CommentThread[]>> {
+    try {
+      const visibility = includeInternal ? {} : { visibility: 'TEAM' as const };
+
+      const threads = await prisma.submissionComment.findMany({
+        where: { submissionId, parentId: null, ...visibility },
+        orderBy: { createdAt: 'asc' },
+        include: {
+          ...COMMENT_INCLUDE,
+          replies: {
+            where: visibility,
+            orderBy: { createdAt: 'asc' },
+            include: COMMENT_INCLUDE,
+          },
+        },
+      });
+
+      return {
+        success: true,
+        data: threads,
+      };
+    } catch (error) {
+      logger.error('Failed to get submission comments', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        submissionId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve comments',
+      };
+    }
+  }
+
+  /**
+   * Add a comment or a reply to a thread.
+   * Replies join the top-level thread and share its visibility.
+   */
+  static async createComment(
+    submissionId: string,
+    data: CreateCommentRequest,
+    author: CommentAuthor,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<CommentWithAuthors>> {
+    try {
+      let parentId: string | null = null;
+      let visibility = author.type === 'participant' ? 'TEAM' : data.visibility || 'INTERNAL';
+
+      if (data.parentId) {
+        const parent = await prisma.submissionComment.findFirst({
+          where: { id: data.parentId, submissionId },
+        });
+
+        if (!parent || (author.type === 'participant' && parent.visibility !== 'TEAM')) {
+          return {
+            success: false,
+            error: 'Comment not found',
+          };
+        }
+
+        parentId = parent.parentId ?? parent.id;
+        visibility = parent.visibility;
+      }
+
+      const comment = await prisma.submissionComment.create({
+        data: {
+          submissionId,
+          parentId,
+          body: data.body,
+          visibility,
+          authorType: author.type,
+          authorAdminId: author.adminId,
+          authorEmail: author.type === 'participant' ? author.email : undefined,
+        },
+        include: COMMENT_INCLUDE,
+      });
+
+      await AuditService.createAuditLog({
+        action: 'CREATE',
+        entityType: 'submission_comment',
+        entityId: comment.id,
+        newValues: {
+          parentId: comment.parentId,
+          visibility: comment.visibility,
+          body: comment.body,
+        },
+        description: `${visibility === 'TEAM' ? 'Team-visible' : 'Internal'} comment added by ${author.type}`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId: author.adminId,
+        submissionId,
+        actor: { type: author.type, id: author.adminId ?? author.email },
+      });
+
+      logger.info('Submission comment created', {
+        commentId: comment.id,
+        submissionId,
+        visibility,
+        authorType: author.type,
+      });
+
+      return {
+        success: true,
+        data: comment,
+      };
+    } catch (error) {
+      logger.error('Failed to create submission comment', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        submissionId,
+        authorType: author.type,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to create comment',
+      };
+    }
+  }
+
+  /**
+   * Mark a thread as resolved or reopen it
+   */
+  static async setResolved(
+    submissionId: string,
+    commentId: string,
+    resolved: boolean,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<CommentWithAuthors>> {
+    try {
+      const comment = await prisma.submissionComment.findFirst({
+        where: { id: commentId, submissionId },
+      });
+
+      if (!comment) {
+        return {
+          success: false,
+          error: 'Comment not found',
+        };
+      }
+
+      if (comment.parentId) {
+        return {
+          success: false,
+          error: 'Only top-level comments can be resolved',
+        };
+      }
+
+      const updatedComment = await prisma.submissionComment.update({
+        where: { id: commentId },
+        data: resolved
+          ? { resolvedAt: new Date(), resolvedById: adminId }
+          : { resolvedAt: null, resolvedById: null },
+        include: COMMENT_INCLUDE,
+      });
+
+      await AuditService.createAuditLog({
+        action: 'UPDATE',
+        entityType: 'submission_comment',
+        entityId: commentId,
+        oldValues: { resolvedAt: comment.resolvedAt },
+        newValues: { resolvedAt: updatedComment.resolvedAt },
+        description: resolved ? 'Comment thread resolved' : 'Comment thread reopened',
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+        submissionId,
+      });
+
+      return {
+        success: true,
+        data: updatedComment,
+      };
+    } catch (error) {
+      logger.error('Failed to update comment resolution', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        submissionId,
+        commentId,
+        resolved,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to update comment',
+      };
+    }
+  }
+}
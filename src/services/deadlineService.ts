@@ -0,0 +1,237 @@
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { config } from '../config/config';
+import {
+  GrantExtensionRequest,
+  ServiceResponse,
+  SubmissionWindow,
+} from '../types';
+import { DeadlineExtension, Event } from '@prisma/client';
+import { AuditService } from './auditService';
+
+export class DeadlineService {
+  /**
+   * Work out whether a team can submit to an event right now.
+   * A per-team extension replaces the close time; the grace period
+   * then runs from whichever close time applies.
+   */
+  static async getSubmissionWindow(
+    event: Event,
+    email?: string,
+    now: Date = new Date()
+  ): Promise<ServiceResponse<SubmissionWindow>> {
+    try {
+      const extension = email
+        ? await prisma.deadlineExtension.findUnique({
+          where: { eventId_email: { eventId: event.id, email } },
+        })
+        : null;
+
+      return {
+        success: true,
+        data: this.calculateWindow(event, extension, now),
+      };
+    } catch (error) {
+      logger.error('Failed to get submission window', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        eventId: event.id,
+        email,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to check submission deadline',
+      };
+    }
+  }
+
+  /**
+   * Grant or update a deadline extension for a team
+   */
+  static async grantExtension(
+    eventId: string,
+    data: GrantExtensionRequest,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<DeadlineExtension>> {
+    try {
+      const existingExtension = await prisma.deadlineExtension.findUnique({
+        where: { eventId_email: { eventId, email: data.email } },
+      });
+
+      const extension = await prisma.deadlineExtension.upsert({
+        where: { eventId_email: { eventId, email: data.email } },
+        create: {
+          eventId,
+          email: data.email,
+          extendedUntil: new Date(data.extendedUntil),
+          reason: data.reason,
+          grantedById: adminId,
+        },
+        update: {
+          extendedUntil: new Date(data.extendedUntil),
+          reason: data.reason,
+          grantedById: adminId,
+        },
+      });
+
+      await AuditService.createAuditLog({
+        action: existingExtension ? 'UPDATE' : 'CREATE',
+        entityType: 'deadline_extension',
+        entityId: extension.id,
+        oldValues: existingExtension || undefined,
+        newValues: extension,
+        description: `Submission deadline extended for ${extension.email} until ${extension.extendedUntil.toISOString()}`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      logger.info('Deadline extension granted', {
+        extensionId: extension.id,
+        eventId,
+        email: extension.email,
+        extendedUntil: extension.extendedUntil,
+        adminId,
+      });
+
+      return {
+        success: true,
+        data: extension,
+      };
+    } catch (error) {
+      logger.error('Failed to grant deadline extension', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        eventId,
+        data,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to grant deadline extension',
+      };
+    }
+  }
+
+  /**
+   * List deadline extensions of an event
+   */
+  static async getExtensions(eventId: string): Promise<ServiceResponse<DeadlineExtension[]>> {
+    try {
+      const extensions = await prisma.deadlineExtension.findMany({
+        where: { eventId },
+        orderBy: { extendedUntil: 'desc' },
+      });
+
+      return {
+        success: true,
+        data: extensions,
+      };
+    } catch (error) {
+      logger.error('Failed to get deadline extensions', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        eventId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve deadline extensions',
+      };
+    }
+  }
+
+  /**
+   * Revoke a deadline extension
+   */
+  static async revokeExtension(
+    eventId: string,
+    id: string,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<boolean>> {
+    try {
+      const extension = await prisma.deadlineExtension.findFirst({
+        where: { id, eventId },
+      });
+
+      if (!extension) {
+        return {
+          success: false,
+          error: 'Deadline extension not found',
+        };
+      }
+
+      await prisma.deadlineExtension.delete({
+        where: { id },
+      });
+
+      await AuditService.createAuditLog({
+        action: 'DELETE',
+        entityType: 'deadline_extension',
+        entityId: id,
+        oldValues: extension,
+        description: `Submission deadline extension revoked for ${extension.email}`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      logger.info('Deadline extension revoked', {
+        extensionId: id,
+        eventId,
+        adminId,
+      });
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      logger.error('Failed to revoke deadline extension', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        eventId,
+        id,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to revoke deadline extension',
+      };
+    }
+  }
+
+  /**
+   * Classify a point in time against the submission window of an event
+   */
+  static calculateWindow(
+    event: Event,
+    extension: DeadlineExtension | null,
+    now: Date
+  ): SubmissionWindow {
+    const gracePeriodMinutes = event.gracePeriodMinutes ?? config.events.defaultGracePeriodMinutes;
+    const extendedUntil = extension?.extendedUntil ?? null;
+    const effectiveClose = extendedUntil ?? event.submissionClosesAt;
+    const gracePeriodEndsAt = effectiveClose
+      ? new Date(effectiveClose.getTime() + gracePeriodMinutes * 60 * 1000)
+      : null;
+
+    let state: SubmissionWindow['state'] = 'OPEN';
+
+    if (event.submissionOpensAt && now < event.submissionOpensAt) {
+      state = 'NOT_OPEN';
+    } else if (effectiveClose && now > effectiveClose) {
+      state = gracePeriodEndsAt && now <= gracePeriodEndsAt ? 'GRACE' : 'CLOSED';
+    }
+
+    return {
+      state,
+      opensAt: event.submissionOpensAt,
+      closesAt: event.submissionClosesAt,
+      extendedUntil,
+      gracePeriodMinutes,
+      gracePeriodEndsAt,
+    };
+  }
+}
@@ -0,0 +1,258 @@
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { config } from '../config/config';
+import {
+  CreateEventRequest,
+  UpdateEventRequest,
+  ServiceResponse,
+} from '../types';
+import { Event, EventStatus } from '@prisma/client';
+import { AuditService } from './auditService';
+
+export class EventService {
+  /**
+   * Create a new event
+   */
+  static async createEvent(
+    data: CreateEventRequest,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<Event>> {
+    try {
+      const existingEvent = await prisma.event.findUnique({
+        where: { slug: data.slug },
+      });
+
+      if (existingEvent) {
+        return {
+          success: false,
+          error: 'An event with this slug already exists',
+        };
+      }
+
+      const event = await prisma.event.create({
+        data: {
+          name: data.name,
+          slug: data.slug,
+          description: data.description,
+          submissionOpensAt: data.submissionOpensAt ? new Date(data.submissionOpensAt) : undefined,
+          submissionClosesAt: data.submissionClosesAt ? new Date(data.submissionClosesAt) : undefined,
+          gracePeriodMinutes: data.gracePeriodMinutes,
+          status: data.status || 'DRAFT',
+        },
+      });
+
+      await AuditService.createAuditLog({
+        action: 'CREATE',
+        entityType: 'event',
+        entityId: event.id,
+        newValues: event,
+        description: `Event "${event.name}" created`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      logger.info('Event created successfully', {
+        eventId: event.id,
+        slug: event.slug,
+        adminId,
+      });
+
+      return {
+        success: true,
+        data: event,
+      };
+    } catch (error) {
+      logger.error('Failed to create event', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        data,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to create event',
+      };
+    }
+  }
+
+  /**
+   * List events, hiding drafts unless requested
+   */
+  static async getEvents(includeDrafts: boolean = false): Promise<ServiceResponse<Event[]>> {
+    try {
+      const events = await prisma.event.findMany({
+        where: includeDrafts ? {} : { status: { not: 'DRAFT' } },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return {
+        success: true,
+        data: events,
+      };
+    } catch (error) {
+      logger.error('Failed to get events', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve events',
+      };
+    }
+  }
+
+  /**
+   * Get a single event by slug
+   */
+  static async getEventBySlug(slug: string): Promise<ServiceResponse<Event>> {
+    try {
+      const event = await prisma.event.findUnique({
+        where: { slug },
+      });
+
+      if (!event) {
+        return {
+          success: false,
+          error: 'Event not found',
+        };
+      }
+
+      return {
+        success: true,
+        data: event,
+      };
+    } catch (error) {
+      logger.error('Failed to get event by slug', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        slug,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve event',
+      };
+    }
+  }
+
+  /**
+   * Get the event served by the unscoped submission routes:
+   * the configured default event, otherwise the most recent open one
+   */
+  static async getCurrentEvent(): Promise<ServiceResponse<Event>> {
+    try {
+      const event = await prisma.event.findUnique({
+        where: { slug: config.events.defaultSlug },
+      }) || await prisma.event.findFirst({
+        where: { status: 'OPEN' },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      if (!event) {
+        return {
+          success: false,
+          error: 'Event not found',
+        };
+      }
+
+      return {
+        success: true,
+        data: event,
+      };
+    } catch (error) {
+      logger.error('Failed to get current event', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve event',
+      };
+    }
+  }
+
+  /**
+   * Update an event
+   */
+  static async updateEvent(
+    slug: string,
+    data: UpdateEventRequest,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<Event>> {
+    try {
+      const currentEvent = await prisma.event.findUnique({
+        where: { slug },
+      });
+
+      if (!currentEvent) {
+        return {
+          success: false,
+          error: 'Event not found',
+        };
+      }
+
+      const opensAt = data.submissionOpensAt !== undefined
+        ? (data.submissionOpensAt ? new Date(data.submissionOpensAt) : null)
+        : currentEvent.submissionOpensAt;
+      const closesAt = data.submissionClosesAt !== undefined
+        ? (data.submissionClosesAt ? new Date(data.submissionClosesAt) : null)
+        : currentEvent.submissionClosesAt;
+
+      if (opensAt && closesAt && closesAt <= opensAt) {
+        return {
+          success: false,
+          error: 'Submission closing time must be after the opening time',
+        };
+      }
+
+      const updatedEvent = await prisma.event.update({
+        where: { id: currentEvent.id },
+        data: {
+          name: data.name,
+          description: data.description,
+          status: data.status as EventStatus | undefined,
+          submissionOpensAt: opensAt,
+          submissionClosesAt: closesAt,
+          gracePeriodMinutes: data.gracePeriodMinutes,
+        },
+      });
+
+      await AuditService.createAuditLog({
+        action: 'UPDATE',
+        entityType: 'event',
+        entityId: updatedEvent.id,
+        oldValues: currentEvent,
+        newValues: updatedEvent,
+        description: `Event "${updatedEvent.name}" updated`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      logger.info('Event updated successfully', {
+        eventId: updatedEvent.id,
+        adminId,
+        changes: data,
+      });
+
+      return {
+        success: true,
+        data: updatedEvent,
+      };
+    } catch (error) {
+      logger.error('Failed to update event', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        slug,
+        data,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to update event',
+      };
+    }
+  }
+}
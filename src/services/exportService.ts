@@ -0,0 +1,167 @@
+import { Writable } from 'stream';
+import { once } from 'events';
+import ExcelJS from 'exceljs';
+import { logger } from '../config/logger';
+import { AuditActor, ServiceResponse, SubmissionQueryParams } from '../types';
+import { CsvUtils, CsvValue } from '../utils/csv';
+import { AuditService } from './auditService';
+import { SubmissionService, SubmissionWithScore } from './submissionService';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'ndjson';
+
+interface ExportColumn {
+  header: string;
+  value: (submission: SubmissionWithScore) => CsvValue;
+}
+
+export const SUBMISSION_EXPORT_COLUMNS: Record<string, ExportColumn> = {
+  id: { header: 'ID', value: s => s.id },
+  teamName: { header: 'Team Name', value: s => s.teamName },
+  teamLeader: { header: 'Team Leader', value: s => s.teamLeader },
+  email: { header: 'Email', value: s => s.email },
+  status: { header: 'Status', value: s => s.status },
+  demoUrl: { header: 'Demo URL', value: s => s.demoUrl },
+  githubRepository: { header: 'GitHub Repository', value: s => s.githubRepository },
+  presentationLink: { header: 'Presentation Link', value: s => s.presentationLink },
+  members: {
+    header: 'Members',
+    value: s => s.members.map(member => `${member.name} <${member.email}>`).join('; '),
+  },
+  memberCount: { header: 'Member Count', value: s => s.members.length },
+  weightedScore: { header: 'Weighted Score', value: s => s.scoreSummary?.weightedScore ?? null },
+  judgeCount: { header: 'Judge Count', value: s => s.scoreSummary?.judgeCount ?? 0 },
+  isLate: { header: 'Late', value: s => s.isLate },
+  submittedAt: { header: 'Submitted At', value: s => s.submittedAt },
+  updatedAt: { header: 'Updated At', value: s => s.updatedAt },
+};
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  'id',
+  'teamName',
+  'teamLeader',
+  'email',
+  'status',
+  'demoUrl',
+  'githubRepository',
+  'presentationLink',
+  'memberCount',
+  'weightedScore',
+  'isLate',
+  'submittedAt',
+];
+
+export class ExportService {
+  /**
+   * Write the submissions of an event to a stream, batch by batch.
+   * Accepts the list filters and sorting of getSubmissions, without pagination.
+   * adminId is null when an API key makes the export; the actor then identifies it in the audit log.
+   */
+  static async exportSubmissions(
+    eventId: string,
+    params: Pick<SubmissionQueryParams, 'status' | 'search' | 'sortBy' | 'sortOrder'>,
+    format: ExportFormat,
+    columnKeys: string[],
+    output: Writable,
+    adminId: string | null,
+    clientInfo: { ipAddress: string; userAgent: string },
+    actor?: AuditActor
+  ): Promise<ServiceResponse<{ rows: number }>> {
+    const columns = columnKeys.map(key => ({ key, ...SUBMISSION_EXPORT_COLUMNS[key] }));
+    const batches = SubmissionService.iterateSubmissions(eventId, params);
+    let rows = 0;
+
+    try {
+      if (format === 'xlsx') {
+        const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+          stream: output,
+          useStyles: false,
+          useSharedStrings: false,
+        });
+        const sheet = workbook.addWorksheet('Submissions');
+        sheet.columns = columns.map(column => ({ header: column.header, key: column.key }));
+
+        for await (const batch of batches) {
+          for (const submission of batch) {
+            sheet.addRow(columns.map(column => column.value(submission) ?? null)).commit();
+            rows++;
+          }
+        }
+
+        sheet.commit();
+        await workbook.commit();
+      } else {
+        if (format === 'csv') {
+          await this.write(output, CsvUtils.row(columns.map(column => column.header)));
+        }
+
+        for await (const batch of batches) {
+          for (const submission of batch) {
+            const line = format === 'csv'
+              ? CsvUtils.row(columns.map(column => column.value(submission)))
+              : `${JSON.stringify(Object.fromEntries(columns.map(column => [column.key, column.value(submission) ?? null])))}\n`;
+
+            await this.write(output, line);
+            rows++;
+          }
+        }
+
+        output.end();
+      }
+
+      logger.info('Submissions exported', {
+        eventId,
+        format,
+        rows,
+      });
+
+      await AuditService.createAuditLog({
+        action: 'EXPORT',
+        entityType: 'event',
+        entityId: eventId,
+        newValues: {
+          format,
+          columns: columnKeys,
+          rows,
+          ...(params.status && { status: params.status }),
+          ...(params.search && { search: params.search }),
+        },
+        description: `Exported ${rows} submissions as ${format}`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId: adminId || undefined,
+        actor,
+      });
+
+      return {
+        success: true,
+        data: { rows },
+      };
+    } catch (error) {
+      logger.error('Failed to export submissions', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        eventId,
+        format,
+        rows,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to export submissions',
+      };
+    }
+  }
+
+  /**
+   * Write a chunk and wait for the stream to drain when its buffer is full.
+   * Stops the export when the client has gone away.
+   */
+  private static async write(output: Writable, chunk: string): Promise<void> {
+    if (output.destroyed) {
+      throw new Error('Export stream closed');
+    }
+
+    if (!output.write(chunk)) {
+      await Promise.race([once(output, 'drain'), once(output, 'close')]);
+    }
+  }
+}
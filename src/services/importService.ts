@@ -0,0 +1,386 @@
+import crypto from 'crypto';
+import { Event, Prisma } from '@prisma/client';
+import { validationResult } from 'express-validator';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { config } from '../config/config';
+import {
+  ImportRowResult,
+  ImportSubmissionsOptions,
+  ImportSubmissionsResult,
+  ServiceResponse,
+  TeamMemberInput,
+} from '../types';
+import { createSubmissionValidation } from '../validators/validation';
+import { AuditService } from './auditService';
+import { RevisionService } from './revisionService';
+import { TeamMemberRow, TeamService } from './teamService';
+import { MEMBERS_INCLUDE, SubmissionWithMembers } from './submissionService';
+
+interface ImportRowData {
+  teamName: string;
+  teamLeader: string;
+  email: string;
+  demoUrl?: string;
+  githubRepository?: string;
+  presentationLink?: string;
+  members: TeamMemberInput[];
+  submittedAt?: Date;
+}
+
+interface PlannedRow {
+  result: ImportRowResult;
+  raw: Record<string, unknown>;
+  data: ImportRowData;
+  team: TeamMemberRow[];
+  existing?: SubmissionWithMembers;
+}
+
+const IMPORT_FIELDS = [
+  'teamName',
+  'teamLeader',
+  'email',
+  'demoUrl',
+  'githubRepository',
+  'presentationLink',
+  'members',
+  'submittedAt',
+];
+
+// Matches "Team Name", "team_name" and "teamName" alike, so export files and form sheets import as is
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const FIELD_BY_HEADER = new Map(IMPORT_FIELDS.map(field => [normalizeHeader(field), field]));
+
+// Members in CSV files use the export format: "Jane Doe <jane@example.com>; John Roe <john@example.com>"
+const MEMBER_PATTERN = /^(.+?)\s*<([^>]+)>$/;
+
+export class ImportService {
+  /**
+   * Import submissions into an event.
+   * Every row is checked with the public submission rules; valid rows are committed in one
+   * transaction unless this is a dry run. Existing emails are skipped or merged.
+   */
+  static async importSubmissions(
+    event: Event,
+    rows: Record<string, unknown>[],
+    options: ImportSubmissionsOptions,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<ImportSubmissionsResult>> {
+    const batchId = crypto.randomUUID();
+
+    try {
+      if (rows.length === 0) {
+        return {
+          success: false,
+          error: 'The import contains no rows',
+        };
+      }
+
+      if (rows.length > config.imports.maxRows) {
+        return {
+          success: false,
+          error: `Imports are limited to ${config.imports.maxRows} rows`,
+        };
+      }
+
+      const planned = await this.planRows(event.id, rows, options);
+
+      const summary = (results: ImportRowResult[]): ImportSubmissionsResult => ({
+        batchId,
+        dryRun: options.dryRun,
+        total: results.length,
+        created: results.filter(result => result.action === 'create').length,
+        merged: results.filter(result => result.action === 'merge').length,
+        skipped: results.filter(result => result.action === 'skip').length,
+        failed: results.filter(result => result.action === 'error').length,
+        rows: results,
+      });
+
+      if (options.dryRun) {
+        return {
+          success: true,
+          data: summary(planned.map(row => row.result)),
+        };
+      }
+
+      const actor = { type: 'admin' as const, id: adminId };
+      const committed = planned.filter(row => row.result.action === 'create' || row.result.action === 'merge');
+
+      const changes = await prisma.$transaction(async tx => {
+        const saved: { row: PlannedRow; submission: SubmissionWithMembers }[] = [];
+
+        for (const row of committed) {
+          const submission = row.existing
+            ? await this.mergeRow(tx, event.id, row)
+            : await tx.submission.create({
+              data: {
+                eventId: event.id,
+                teamName: row.data.teamName,
+                teamLeader: row.data.teamLeader,
+                email: row.data.email,
+                demoUrl: row.data.demoUrl,
+                githubRepository: row.data.githubRepository,
+                presentationLink: row.data.presentationLink,
+                submittedAt: row.data.submittedAt,
+                status: 'PENDING',
+                members: {
+                  create: row.team.map(member => ({ ...member, eventId: event.id })),
+                },
+              },
+              include: MEMBERS_INCLUDE,
+            });
+
+          await RevisionService.recordRevision(tx, submission, actor);
+          row.result.submissionId = submission.id;
+          saved.push({ row, submission });
+        }
+
+        return saved;
+      }, { timeout: 60000 });
+
+      // Tag every imported row with the batch so it can be traced back in the audit log
+      for (const { row, submission } of changes) {
+        const { members, ...values } = submission;
+        const imported = { ...values, members: TeamService.snapshot(members), importBatchId: batchId };
+
+        if (row.existing) {
+          const { members: oldMembers, ...oldValues } = row.existing;
+
+          await AuditService.createAuditLog({
+            action: 'UPDATE',
+            entityType: 'submission',
+            entityId: submission.id,
+            oldValues: { ...oldValues, members: TeamService.snapshot(oldMembers) },
+            newValues: imported,
+            description: `Submission merged from import ${batchId} (row ${row.result.row})`,
+            ipAddress: clientInfo.ipAddress,
+            userAgent: clientInfo.userAgent,
+            adminId,
+            submissionId: submission.id,
+          });
+        } else {
+          await AuditService.createAuditLog({
+            action: 'CREATE',
+            entityType: 'submission',
+            entityId: submission.id,
+            newValues: imported,
+            description: `Submission imported by admin in batch ${batchId} (row ${row.result.row})`,
+            ipAddress: clientInfo.ipAddress,
+            userAgent: clientInfo.userAgent,
+            adminId,
+            submissionId: submission.id,
+          });
+        }
+      }
+
+      const result = summary(planned.map(row => row.result));
+
+      logger.info('Submissions imported', {
+        batchId,
+        eventId: event.id,
+        adminId,
+        created: result.created,
+        merged: result.merged,
+        skipped: result.skipped,
+        failed: result.failed,
+      });
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error) {
+      logger.error('Failed to import submissions', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        batchId,
+        eventId: event.id,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to import submissions',
+      };
+    }
+  }
+
+  /**
+   * Turn uploaded CSV lines into import rows, mapping headers to submission fields.
+   * Unknown columns are ignored and empty cells are treated as missing.
+   */
+  static fromCsv(lines: Record<string, string>[]): Record<string, unknown>[] {
+    return lines.map(line => {
+      const row: Record<string, unknown> = {};
+
+      for (const [header, value] of Object.entries(line)) {
+        const field = FIELD_BY_HEADER.get(normalizeHeader(header));
+
+        if (!field || value.trim() === '') {
+          continue;
+        }
+
+        row[field] = field === 'members' ? this.parseMembers(value) : value;
+      }
+
+      return row;
+    });
+  }
+
+  /**
+   * Validate every row and decide what will happen to it, without writing anything
+   */
+  private static async planRows(
+    eventId: string,
+    rows: Record<string, unknown>[],
+    options: ImportSubmissionsOptions
+  ): Promise<PlannedRow[]> {
+    const planned: PlannedRow[] = [];
+
+    for (const [index, raw] of rows.entries()) {
+      const result: ImportRowResult = { row: index + 1, action: 'error' };
+      const { data, errors } = await this.validateRow(raw);
+
+      if (errors.length > 0) {
+        result.errors = errors;
+        result.email = typeof raw.email === 'string' ? raw.email : undefined;
+      } else {
+        result.email = data.email;
+      }
+
+      planned.push({ result, raw, data, team: [] });
+    }
+
+    const valid = planned.filter(row => !row.result.errors);
+
+    const existing = await prisma.submission.findMany({
+      where: { eventId, email: { in: valid.map(row => row.data.email) } },
+      include: MEMBERS_INCLUDE,
+    });
+    const existingByEmail = new Map(existing.map(submission => [submission.email, submission]));
+
+    // Emails used by earlier rows of this import, so two rows cannot claim the same person
+    const seenEmails = new Map<string, number>();
+    const claimedMembers = new Map<string, number>();
+
+    for (const row of valid) {
+      const { result, data } = row;
+      const duplicateOf = seenEmails.get(data.email);
+
+      if (duplicateOf !== undefined) {
+        result.errors = [`Duplicate email, already used in row ${duplicateOf}`];
+        continue;
+      }
+      seenEmails.set(data.email, result.row);
+
+      const current = existingByEmail.get(data.email);
+
+      if (current?.deletedAt) {
+        result.errors = ['A deleted submission still uses this email'];
+        continue;
+      }
+
+      if (current && options.onDuplicate === 'skip') {
+        result.action = 'skip';
+        result.submissionId = current.id;
+        continue;
+      }
+
+      // Merged rows without a members column keep the current team
+      const members = current && row.raw.members === undefined
+        ? current.members.filter(member => member.role === 'MEMBER')
+        : data.members;
+
+      const team = TeamService.buildMembers(
+        { name: data.teamLeader, email: data.email },
+        members.map(member => ({ name: member.name, email: member.email, githubHandle: member.githubHandle ?? undefined }))
+      );
+
+      const teamError = await TeamService.validateTeam(eventId, team, current?.id);
+      if (teamError) {
+        result.errors = [teamError];
+        continue;
+      }
+
+      const claimedBy = team.map(member => claimedMembers.get(member.email)).find(rowNumber => rowNumber !== undefined);
+      if (claimedBy !== undefined) {
+        result.errors = [`One or more team members are already on the team in row ${claimedBy}`];
+        continue;
+      }
+      team.forEach(member => claimedMembers.set(member.email, result.row));
+
+      result.action = current ? 'merge' : 'create';
+      row.team = team;
+      row.existing = current;
+    }
+
+    return planned;
+  }
+
+  /**
+   * Run the createSubmissionValidation chains against one row
+   */
+  private static async validateRow(raw: Record<string, unknown>): Promise<{ data: ImportRowData; errors: string[] }> {
+    const { submittedAt, ...body } = raw;
+    const req = { body: { ...body } };
+
+    for (const chain of createSubmissionValidation) {
+      await chain.run(req);
+    }
+
+    const errors = validationResult(req).array({ onlyFirstError: true }).map(error => error.msg as string);
+    let importedAt: Date | undefined;
+
+    if (submittedAt !== undefined) {
+      importedAt = new Date(String(submittedAt));
+      if (Number.isNaN(importedAt.getTime())) {
+        errors.push('Submitted at must be a valid date');
+      }
+    }
+
+    return {
+      data: { ...(req.body as Omit<ImportRowData, 'submittedAt'>), submittedAt: importedAt },
+      errors,
+    };
+  }
+
+  /**
+   * Update an existing submission with the imported content.
+   * Columns missing from the row are left as they are, and the status is kept.
+   */
+  private static async mergeRow(
+    tx: Prisma.TransactionClient,
+    eventId: string,
+    row: PlannedRow
+  ): Promise<SubmissionWithMembers> {
+    const id = row.existing!.id;
+
+    await TeamService.replaceMembers(tx, id, eventId, row.team);
+
+    return tx.submission.update({
+      where: { id },
+      data: {
+        teamName: row.data.teamName,
+        teamLeader: row.data.teamLeader,
+        demoUrl: row.data.demoUrl,
+        githubRepository: row.data.githubRepository,
+        presentationLink: row.data.presentationLink,
+      },
+      include: MEMBERS_INCLUDE,
+    });
+  }
+
+  private static parseMembers(value: string): TeamMemberInput[] {
+    return value
+      .split(';')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const match = MEMBER_PATTERN.exec(entry);
+        return match
+          ? { name: match[1].trim(), email: match[2].trim() }
+          : { name: entry, email: '' };
+      });
+  }
+}
@@ -0,0 +1,375 @@
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { config } from '../config/config';
+import {
+  Leaderboard,
+  LeaderboardEntry,
+  ServiceResponse,
+  SubmissionScoreSummary,
+  TieBreakRule,
+} from '../types';
+import { LeaderboardSnapshot, Prisma } from '@prisma/client';
+import { AuditService } from './auditService';
+import { ScoringService } from './scoringService';
+
+export const TIE_BREAK_RULES: TieBreakRule[] = ['rawScore', 'judgeCount', 'submittedAt', 'teamName'];
+
+// A leaderboard entry as stored in a snapshot's JSON column
+type StoredLeaderboardEntry = Omit<LeaderboardEntry, 'submittedAt'> & {
+  submittedAt: string;
+};
+
+type RankableEntry = Omit<LeaderboardEntry, 'rank'>;
+
+const tieBreakComparators: Record<TieBreakRule, (a: RankableEntry, b: RankableEntry) => number> = {
+  rawScore: (a, b) => b.rawScore - a.rawScore,
+  judgeCount: (a, b) => b.judgeCount - a.judgeCount,
+  submittedAt: (a, b) => new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime(),
+  teamName: (a, b) => a.teamName.localeCompare(b.teamName),
+};
+
+export class LeaderboardService {
+  /**
+   * Rank scored submissions of an event by their judge-normalized score
+   */
+  static async getLiveLeaderboard(
+    eventId: string,
+    tieBreak: TieBreakRule[] = this.getDefaultTieBreak()
+  ): Promise<ServiceResponse<Leaderboard>> {
+    try {
+      // Rejected submissions are out of the competition
+      const submissions = await prisma.submission.findMany({
+        where: {
+          eventId,
+          deletedAt: null,
+          status: { not: 'REJECTED' },
+          scores: { some: {} },
+        },
+        select: {
+          id: true,
+          teamName: true,
+          submittedAt: true,
+        },
+      });
+
+      const summaries = await ScoringService.getScoreSummaries(
+        submissions.map(submission => submission.id)
+      );
+      const normalizedScores = this.normalizeByJudge(summaries);
+
+      const entries: RankableEntry[] = submissions.map(submission => ({
+        submissionId: submission.id,
+        teamName: submission.teamName,
+        normalizedScore: normalizedScores[submission.id] ?? 0,
+        rawScore: summaries[submission.id].weightedScore ?? 0,
+        judgeCount: summaries[submission.id].judgeCount,
+        submittedAt: submission.submittedAt,
+      }));
+
+      return {
+        success: true,
+        data: {
+          mode: 'live',
+          tieBreak,
+          entries: this.rankEntries(entries, tieBreak),
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to compute leaderboard', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        eventId,
+        tieBreak,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to compute leaderboard',
+      };
+    }
+  }
+
+  /**
+   * Get the leaderboard of an event frozen by organizers
+   */
+  static async getPublishedLeaderboard(eventId: string): Promise<ServiceResponse<Leaderboard>> {
+    try {
+      const snapshot = await this.getActiveSnapshot(eventId);
+
+      if (!snapshot) {
+        return {
+          success: false,
+          error: 'Leaderboard has not been published yet',
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          mode: 'published',
+          tieBreak: snapshot.tieBreak as TieBreakRule[],
+          frozenAt: snapshot.frozenAt,
+          entries: this.fromStoredEntries(snapshot.entries),
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to get published leaderboard', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        eventId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve leaderboard',
+      };
+    }
+  }
+
+  /**
+   * Freeze the current ranking and publish it
+   */
+  static async freeze(
+    eventId: string,
+    tieBreak: TieBreakRule[] | undefined,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<Leaderboard>> {
+    try {
+      const activeSnapshot = await this.getActiveSnapshot(eventId);
+
+      if (activeSnapshot) {
+        return {
+          success: false,
+          error: 'Leaderboard is already frozen',
+        };
+      }
+
+      const liveResult = await this.getLiveLeaderboard(eventId, tieBreak);
+
+      if (!liveResult.success || !liveResult.data) {
+        return {
+          success: false,
+          error: liveResult.error || 'Failed to compute leaderboard',
+        };
+      }
+
+      const snapshot = await prisma.leaderboardSnapshot.create({
+        data: {
+          eventId,
+          entries: this.toStoredEntries(liveResult.data.entries),
+          tieBreak: liveResult.data.tieBreak,
+          frozenById: adminId,
+        },
+      });
+
+      await AuditService.createAuditLog({
+        action: 'CREATE',
+        entityType: 'leaderboard',
+        entityId: snapshot.id,
+        newValues: {
+          eventId,
+          tieBreak: snapshot.tieBreak,
+          entries: liveResult.data.entries.length,
+        },
+        description: 'Leaderboard frozen and published',
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      logger.info('Leaderboard frozen', {
+        snapshotId: snapshot.id,
+        eventId,
+        entries: liveResult.data.entries.length,
+        adminId,
+      });
+
+      return {
+        success: true,
+        data: {
+          mode: 'published',
+          tieBreak: liveResult.data.tieBreak,
+          frozenAt: snapshot.frozenAt,
+          entries: liveResult.data.entries,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to freeze leaderboard', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        eventId,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to freeze leaderboard',
+      };
+    }
+  }
+
+  /**
+   * Withdraw the published leaderboard
+   */
+  static async unfreeze(
+    eventId: string,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<boolean>> {
+    try {
+      const activeSnapshot = await this.getActiveSnapshot(eventId);
+
+      if (!activeSnapshot) {
+        return {
+          success: false,
+          error: 'Leaderboard is not frozen',
+        };
+      }
+
+      await prisma.leaderboardSnapshot.update({
+        where: { id: activeSnapshot.id },
+        data: {
+          unfrozenAt: new Date(),
+          unfrozenById: adminId,
+        },
+      });
+
+      await AuditService.createAuditLog({
+        action: 'UPDATE',
+        entityType: 'leaderboard',
+        entityId: activeSnapshot.id,
+        oldValues: { frozenAt: activeSnapshot.frozenAt },
+        newValues: { unfrozen: true },
+        description: 'Leaderboard unfrozen and unpublished',
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      logger.info('Leaderboard unfrozen', {
+        snapshotId: activeSnapshot.id,
+        eventId,
+        adminId,
+      });
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      logger.error('Failed to unfreeze leaderboard', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        eventId,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to unfreeze leaderboard',
+      };
+    }
+  }
+
+  /**
+   * Tie-break rules from configuration, ignoring unknown values
+   */
+  static getDefaultTieBreak(): TieBreakRule[] {
+    return config.leaderboard.tieBreak.filter(
+      (rule): rule is TieBreakRule => TIE_BREAK_RULES.includes(rule as TieBreakRule)
+    );
+  }
+
+  /**
+   * Convert each judge's scores to z-scores so lenient and harsh judges weigh equally,
+   * then average the z-scores per submission
+   */
+  static normalizeByJudge(
+    summaries: Record<string, SubmissionScoreSummary>
+  ): Record<string, number> {
+    const scoresByJudge = new Map<string, number[]>();
+
+    for (const summary of Object.values(summaries)) {
+      for (const judge of summary.judges) {
+        const list = scoresByJudge.get(judge.judgeId) || [];
+        list.push(judge.weightedScore);
+        scoresByJudge.set(judge.judgeId, list);
+      }
+    }
+
+    const judgeStats = new Map<string, { mean: number; stdDev: number }>();
+    for (const [judgeId, scores] of scoresByJudge) {
+      const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+      const variance = scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / scores.length;
+      judgeStats.set(judgeId, { mean, stdDev: Math.sqrt(variance) });
+    }
+
+    const normalized: Record<string, number> = {};
+    for (const [submissionId, summary] of Object.entries(summaries)) {
+      if (summary.judges.length === 0) {
+        continue;
+      }
+
+      const zScores = summary.judges.map(judge => {
+        const stats = judgeStats.get(judge.judgeId)!;
+        // A judge who gave everyone the same score carries no ranking signal
+        return stats.stdDev === 0 ? 0 : (judge.weightedScore - stats.mean) / stats.stdDev;
+      });
+
+      normalized[submissionId] = Math.round(
+        (zScores.reduce((sum, z) => sum + z, 0) / zScores.length) * 10000
+      ) / 10000;
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Sort by normalized score, apply tie-breaks and assign ranks.
+   * Entries still equal after every tie-break share a rank.
+   */
+  static rankEntries(entries: RankableEntry[], tieBreak: TieBreakRule[]): LeaderboardEntry[] {
+    const compare = (a: RankableEntry, b: RankableEntry): number => {
+      const diff = b.normalizedScore - a.normalizedScore;
+      if (diff !== 0) return diff;
+
+      for (const rule of tieBreak) {
+        const result = tieBreakComparators[rule](a, b);
+        if (result !== 0) return result;
+      }
+
+      return 0;
+    };
+
+    const sorted = [...entries].sort(compare);
+    const ranked: LeaderboardEntry[] = [];
+
+    sorted.forEach((entry, index) => {
+      const isTied = index > 0 && compare(sorted[index - 1], entry) === 0;
+      ranked.push({
+        rank: isTied ? ranked[index - 1].rank : index + 1,
+        ...entry,
+      });
+    });
+
+    return ranked;
+  }
+
+  private static toStoredEntries(entries: LeaderboardEntry[]): Prisma.InputJsonValue {
+    return entries.map((entry): StoredLeaderboardEntry => ({
+      ...entry,
+      submittedAt: entry.submittedAt.toISOString(),
+    }));
+  }
+
+  private static fromStoredEntries(entries: Prisma.JsonValue): LeaderboardEntry[] {
+    return (entries as unknown as StoredLeaderboardEntry[]).map(entry => ({
+      ...entry,
+      submittedAt: new Date(entry.submittedAt),
+    }));
+  }
+
+  private static async getActiveSnapshot(eventId: string): Promise<LeaderboardSnapshot | null> {
+    return prisma.leaderboardSnapshot.findFirst({
+      where: { eventId, unfrozenAt: null },
+      orderBy: { frozenAt: 'desc' },
+    });
+  }
+}
@@ -0,0 +1,123 @@
+import { Admin } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { config } from '../config/config';
+import { PasswordUtils } from '../utils/password';
+import { AuditService } from './auditService';
+
+export type FailedLoginReason =
+  | 'unknown_email'
+  | 'invalid_password'
+  | 'account_disabled'
+  | 'account_locked'
+  | 'invalid_two_factor_code';
+
+// Only wrong credentials count toward a lock
+const COUNTED_REASONS: FailedLoginReason[] = ['invalid_password', 'invalid_two_factor_code'];
+
+export class LoginAttemptService {
+  // Hash of a random password, compared against when there is no real hash to check
+  private static dummyHash?: Promise<string>;
+
+  /**
+   * Check whether the account is locked right now
+   */
+  static isLocked(admin: Pick<Admin, 'lockedUntil'>, now: Date = new Date()): boolean {
+    return admin.lockedUntil !== null && admin.lockedUntil > now;
+  }
+
+  /**
+   * Get how long to lock an account after this many consecutive failures.
+   * Returns 0 below the threshold; from there the lock doubles with every failure, up to the maximum.
+   */
+  static getLockDuration(failedAttempts: number): number {
+    const { threshold, baseDurationMs, maxDurationMs } = config.lockout;
+
+    if (failedAttempts < threshold) {
+      return 0;
+    }
+
+    return Math.min(baseDurationMs * 2 ** (failedAttempts - threshold), maxDurationMs);
+  }
+
+  /**
+   * Spend the same time as a real password check, so responses for unknown
+   * emails and locked accounts cannot be told apart by timing
+   */
+  static async simulatePasswordCheck(password: string): Promise<void> {
+    if (!this.dummyHash) {
+      this.dummyHash = PasswordUtils.hashPassword(PasswordUtils.generateRandomPassword(32));
+    }
+
+    await PasswordUtils.comparePassword(password, await this.dummyHash);
+  }
+
+  /**
+   * Record a failed login and lock the account once the threshold is reached.
+   * Attempts on a locked or disabled account are audited but do not count toward the lock.
+   */
+  static async recordFailure(
+    admin: Admin | null,
+    email: string,
+    reason: FailedLoginReason,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<void> {
+    try {
+      let failedLoginAttempts: number | undefined;
+      let lockedUntil: Date | null | undefined;
+
+      if (admin && COUNTED_REASONS.includes(reason)) {
+        const now = new Date();
+        const updated = await prisma.admin.update({
+          where: { id: admin.id },
+          data: {
+            failedLoginAttempts: { increment: 1 },
+            lastFailedLoginAt: now,
+          },
+        });
+
+        failedLoginAttempts = updated.failedLoginAttempts;
+        const lockDuration = this.getLockDuration(failedLoginAttempts);
+
+        if (lockDuration > 0) {
+          lockedUntil = new Date(now.getTime() + lockDuration);
+
+          await prisma.admin.update({
+            where: { id: admin.id },
+            data: { lockedUntil },
+          });
+
+          logger.warn('Admin account locked after failed logins', {
+            adminId: admin.id,
+            failedLoginAttempts,
+            lockedUntil: lockedUntil.toISOString(),
+            ip: clientInfo.ipAddress,
+          });
+        }
+      }
+
+      await AuditService.createAuditLog({
+        action: 'LOGIN_FAILED',
+        entityType: 'admin',
+        entityId: admin?.id ?? email,
+        newValues: {
+          email,
+          reason,
+          ...(failedLoginAttempts !== undefined && { failedLoginAttempts }),
+          ...(lockedUntil && { lockedUntil: lockedUntil.toISOString() }),
+        },
+        description: lockedUntil
+          ? `Failed login for ${email}; account locked until ${lockedUntil.toISOString()}`
+          : `Failed login for ${email}`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+      });
+    } catch (error) {
+      logger.error('Failed to record failed login', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        adminId: admin?.id,
+        reason,
+      });
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { logger } from '../config/logger';
+import { config } from '../config/config';
+import { ServiceResponse } from '../types';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Logs messages instead of sending them. Meant for local development.
+ */
+class ConsoleTransport implements MailTransport {
+  name = 'console';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    logger.info('Email sent (console transport)', message);
+  }
+}
+
+/**
+ * Writes each message to a file in MAIL_FILE_DIR. Meant for offline development and tests.
+ */
+class FileTransport implements MailTransport {
+  name = 'file';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(config.mail.fileDir, { recursive: true });
+
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@.-]/g, '_')}.eml`;
+    const content = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      '',
+      message.text,
+    ].join('\n');
+
+    await fs.writeFile(path.join(config.mail.fileDir, fileName), content, 'utf8');
+  }
+}
+
+/**
+ * Sends messages through an SMTP server
+ */
+class SmtpTransport implements MailTransport {
+  name = 'smtp';
+
+  private transporter = nodemailer.createTransport({
+    host: config.mail.smtp.host,
+    port: config.mail.smtp.port,
+    secure: config.mail.smtp.secure,
+    auth: config.mail.smtp.user
+      ? { user: config.mail.smtp.user, pass: config.mail.smtp.pass }
+      : undefined,
+  });
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+export class MailService {
+  private static transport: MailTransport | null = null;
+
+  /**
+   * Send an email through the configured transport
+   */
+  static async send(message: MailMessage): Promise<ServiceResponse<boolean>> {
+    const transport = this.getTransport();
+
+    try {
+      await transport.send({ ...message, from: config.mail.from });
+
+      logger.debug('Email delivered', {
+        transport: transport.name,
+        to: message.to,
+        subject: message.subject,
+      });
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      logger.error('Failed to send email', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        transport: transport.name,
+        to: message.to,
+        subject: message.subject,
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to send email',
+      };
+    }
+  }
+
+  /**
+   * Replace the transport, e.g. with a stub in tests
+   */
+  static setTransport(transport: MailTransport | null): void {
+    this.transport = transport;
+  }
+
+  private static getTransport(): MailTransport {
+    if (!this.transport) {
+      switch (config.mail.transport) {
+        case 'smtp':
+          this.transport = new SmtpTransport();
+          break;
+        case 'file':
+          this.transport = new FileTransport();
+          break;
+        case 'console':
+          this.transport = new ConsoleTransport();
+          break;
+        default:
+          logger.warn('Unsupported mail transport, falling back to console', {
+            transport: config.mail.transport,
+          });
+          this.transport = new ConsoleTransport();
+      }
+    }
+
+    return this.transport;
+  }
+}
@@ -0,0 +1,83 @@
+import cron from 'node-cron';
+import { logger } from '../config/logger';
+import { NotificationService } from './notificationService';
+
+/**
+ * Scheduled delivery of queued notifications, including retries of failed attempts
+ * Runs every minute
+ */
+export class NotificationDispatchService {
+  private static instance: NotificationDispatchService;
+  private cronJob: cron.ScheduledTask | null = null;
+  private isRunning = false;
+  private isDispatching = false;
+
+  private constructor() {}
+
+  static getInstance(): NotificationDispatchService {
+    if (!NotificationDispatchService.instance) {
+      NotificationDispatchService.instance = new NotificationDispatchService();
+    }
+    return NotificationDispatchService.instance;
+  }
+
+  /**
+   * Start the dispatch cron job
+   */
+  start(): void {
+    if (this.isRunning) {
+      logger.warn('Notification dispatch service is already running');
+      return;
+    }
+
+    this.cronJob = cron.schedule('* * * * *', async () => {
+      await this.dispatch();
+    }, {
+      scheduled: false,
+      name: 'notification-dispatch',
+      timezone: 'UTC'
+    });
+
+    this.cronJob.start();
+    this.isRunning = true;
+
+    logger.info('Notification dispatch service started - delivering queued notifications every minute');
+  }
+
+  /**
+   * Stop the notification dispatch service
+   */
+  stop(): void {
+    if (this.cronJob) {
+      this.cronJob.stop();
+      this.cronJob = null;
+    }
+    this.isRunning = false;
+    logger.info('Notification dispatch service stopped');
+  }
+
+  /**
+   * Deliver due notifications now. Skipped while a previous run is still going.
+   */
+  async dispatch(): Promise<void> {
+    if (this.isDispatching) {
+      return;
+    }
+
+    this.isDispatching = true;
+
+    try {
+      const result = await NotificationService.processDue();
+
+      if (!result.success) {
+        logger.error('Scheduled notification dispatch failed', { error: result.error });
+      } else if (result.data!.sent > 0 || result.data!.failed > 0) {
+        logger.info('Notification dispatch completed', result.data);
+      }
+    } finally {
+      this.isDispatching = false;
+    }
+  }
+}
+
+export const notificationDispatchService = NotificationDispatchService.getInstance();
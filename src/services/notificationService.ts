@@ -0,0 +1,374 @@
+import { NotificationOutbox, NotificationStatus, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { config } from '../config/config';
+import { ServiceResponse } from '../types';
+import { NotificationTemplate, renderTemplate } from '../templates/notifications';
+import { AuditService } from './auditService';
+import { MailService } from './mailService';
+
+export interface EnqueueNotificationData {
+  template: NotificationTemplate;
+  recipient: string;
+  variables: Record<string, string | number | null | undefined>;
+  submissionId?: string;
+  adminId?: string;
+}
+
+// Rows are leased for this long while a delivery attempt is running
+const DELIVERY_LEASE_MS = 5 * 60 * 1000;
+const BATCH_SIZE = 50;
+
+export class NotificationService {
+  /**
+   * Render a notification and store it in the outbox.
+   * Pass the transaction client to store it together with the change that triggered it.
+   */
+  static async enqueue(
+    data: EnqueueNotificationData,
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<NotificationOutbox> {
+    const { subject, text } = renderTemplate(data.template, data.variables);
+
+    return tx.notificationOutbox.create({
+      data: {
+        template: data.template,
+        recipient: data.recipient,
+        subject,
+        body: text,
+        submissionId: data.submissionId,
+        adminId: data.adminId,
+      },
+    });
+  }
+
+  /**
+   * Try to deliver a notification right away without waiting for the dispatcher.
+   * Failures are left to the retry schedule.
+   */
+  static deliverSoon(notification: NotificationOutbox): void {
+    this.deliver(notification).catch(error => {
+      logger.error('Immediate notification delivery failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        notificationId: notification.id,
+      });
+    });
+  }
+
+  /**
+   * Queue the confirmation email for a new submission
+   */
+  static async notifySubmissionCreated(
+    submission: { id: string; teamName: string; teamLeader: string; email: string; isLate: boolean },
+    eventName: string,
+    tx?: Prisma.TransactionClient
+  ): Promise<NotificationOutbox> {
+    return this.enqueue({
+      template: 'submission_confirmation',
+      recipient: submission.email,
+      submissionId: submission.id,
+      variables: {
+        teamLeader: submission.teamLeader,
+        teamName: submission.teamName,
+        eventName,
+        submissionId: submission.id,
+        lateNotice: submission.isLate
+          ? 'It arrived during the grace period after the deadline and is marked as late.'
+          : '',
+      },
+    }, tx);
+  }
+
+  /**
+   * Queue and send the status change email of a submission
+   */
+  static async notifyStatusChange(
+    submissionId: string,
+    oldStatus: string,
+    newStatus: string,
+    reason?: string
+  ): Promise<void> {
+    try {
+      const submission = await prisma.submission.findUnique({
+        where: { id: submissionId },
+        select: { email: true, teamName: true, teamLeader: true, event: { select: { name: true } } },
+      });
+
+      if (!submission) {
+        return;
+      }
+
+      const notification = await this.enqueue({
+        template: 'status_changed',
+        recipient: submission.email,
+        submissionId,
+        variables: {
+          teamLeader: submission.teamLeader,
+          teamName: submission.teamName,
+          eventName: submission.event.name,
+          oldStatus,
+          newStatus,
+          reason: reason ? `Reason: ${reason}` : '',
+        },
+      });
+
+      this.deliverSoon(notification);
+    } catch (error) {
+      // Notifications must never break the status change itself
+      logger.error('Failed to queue status change notification', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        submissionId,
+        newStatus,
+      });
+    }
+  }
+
+  /**
+   * Deliver due notifications. Called by the dispatcher on a schedule.
+   */
+  static async processDue(now: Date = new Date()): Promise<ServiceResponse<{ sent: number; failed: number }>> {
+    try {
+      const due = await prisma.notificationOutbox.findMany({
+        where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: BATCH_SIZE,
+      });
+
+      let sent = 0;
+      let failed = 0;
+
+      for (const notification of due) {
+        const delivered = await this.deliver(notification);
+        if (delivered === true) sent++;
+        if (delivered === false) failed++;
+      }
+
+      return {
+        success: true,
+        data: { sent, failed },
+      };
+    } catch (error) {
+      logger.error('Failed to process notification outbox', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to process notification outbox',
+      };
+    }
+  }
+
+  /**
+   * List outbox messages (Admin only)
+   */
+  static async getNotifications(params: {
+    status?: NotificationStatus;
+    page?: number;
+    limit?: number;
+  }): Promise<ServiceResponse<{
+    notifications: NotificationOutbox[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }>> {
+    try {
+      const { status, page = 1, limit = 20 } = params;
+      const where = status ? { status } : {};
+
+      const [notifications, total] = await Promise.all([
+        prisma.notificationOutbox.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.notificationOutbox.count({ where }),
+      ]);
+
+      return {
+        success: true,
+        data: {
+          notifications,
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to get notifications', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        params,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve notifications',
+      };
+    }
+  }
+
+  /**
+   * Get a single outbox message (Admin only)
+   */
+  static async getNotificationById(id: string): Promise<ServiceResponse<NotificationOutbox>> {
+    try {
+      const notification = await prisma.notificationOutbox.findUnique({ where: { id } });
+
+      if (!notification) {
+        return {
+          success: false,
+          error: 'Notification not found',
+        };
+      }
+
+      return {
+        success: true,
+        data: notification,
+      };
+    } catch (error) {
+      logger.error('Failed to get notification', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve notification',
+      };
+    }
+  }
+
+  /**
+   * Reset a failed message and try to deliver it again (Admin only)
+   */
+  static async resend(
+    id: string,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<NotificationOutbox>> {
+    try {
+      const notification = await prisma.notificationOutbox.findUnique({ where: { id } });
+
+      if (!notification) {
+        return {
+          success: false,
+          error: 'Notification not found',
+        };
+      }
+
+      if (notification.status !== 'FAILED') {
+        return {
+          success: false,
+          error: 'Only failed notifications can be resent',
+        };
+      }
+
+      const reset = await prisma.notificationOutbox.update({
+        where: { id },
+        data: {
+          status: 'PENDING',
+          attempts: 0,
+          nextAttemptAt: new Date(),
+          lastError: null,
+        },
+      });
+
+      await AuditService.createAuditLog({
+        action: 'UPDATE',
+        entityType: 'notification',
+        entityId: id,
+        oldValues: { status: notification.status, attempts: notification.attempts, lastError: notification.lastError },
+        newValues: { status: 'PENDING' },
+        description: `Notification to ${notification.recipient} queued for resending`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+        submissionId: notification.submissionId ?? undefined,
+      });
+
+      await this.deliver(reset);
+
+      const updated = await prisma.notificationOutbox.findUniqueOrThrow({ where: { id } });
+
+      return {
+        success: true,
+        data: updated,
+      };
+    } catch (error) {
+      logger.error('Failed to resend notification', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to resend notification',
+      };
+    }
+  }
+
+  /**
+   * Attempt delivery of one message.
+   * Returns true when sent, false when the attempt failed, and null when another worker holds it.
+   */
+  private static async deliver(notification: NotificationOutbox): Promise<boolean | null> {
+    // Lease the row so the dispatcher and immediate sends never deliver it twice
+    const { count } = await prisma.notificationOutbox.updateMany({
+      where: { id: notification.id, status: 'PENDING', nextAttemptAt: notification.nextAttemptAt },
+      data: { nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS) },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const result = await MailService.send({
+      to: notification.recipient,
+      subject: notification.subject,
+      text: notification.body,
+    });
+
+    const attempts = notification.attempts + 1;
+
+    if (result.success) {
+      await prisma.notificationOutbox.update({
+        where: { id: notification.id },
+        data: { status: 'SENT', attempts, sentAt: new Date(), lastError: null },
+      });
+
+      return true;
+    }
+
+    const exhausted = attempts >= config.notifications.maxAttempts;
+
+    await prisma.notificationOutbox.update({
+      where: { id: notification.id },
+      data: {
+        status: exhausted ? 'FAILED' : 'PENDING',
+        attempts,
+        lastError: result.error,
+        nextAttemptAt: new Date(Date.now() + this.getRetryDelay(attempts)),
+      },
+    });
+
+    logger.warn('Notification delivery failed', {
+      notificationId: notification.id,
+      attempts,
+      exhausted,
+      error: result.error,
+    });
+
+    return false;
+  }
+
+  /**
+   * Exponential backoff: the base delay doubles after each failed attempt
+   */
+  private static getRetryDelay(attempts: number): number {
+    return config.notifications.retryBaseDelayMs * 2 ** (attempts - 1);
+  }
+}
@@ -0,0 +1,384 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { config } from '../config/config';
+import { JWTUtils } from '../utils/jwt';
+import {
+  ParticipantLoginResponse,
+  ParticipantUpdateSubmissionRequest,
+  ServiceResponse,
+} from '../types';
+import { Event, Submission, TeamMember } from '@prisma/client';
+import { AuditService } from './auditService';
+import { DeadlineService } from './deadlineService';
+import { MailService } from './mailService';
+import { SubmissionService } from './submissionService';
+
+// Fields a team may change on its own submission
+const PARTICIPANT_EDITABLE_FIELDS: (keyof ParticipantUpdateSubmissionRequest)[] = [
+  'teamName',
+  'teamLeader',
+  'members',
+  'demoUrl',
+  'githubRepository',
+  'presentationLink',
+];
+
+export type ParticipantSubmission = Pick<
+  Submission,
+  'id' | 'eventId' | 'teamName' | 'teamLeader' | 'email' | 'status' | 'isLate' |
+  'demoUrl' | 'githubRepository' | 'presentationLink' | 'submittedAt' | 'updatedAt'
+> & {
+  members: Pick<TeamMember, 'name' | 'email' | 'role' | 'githubHandle'>[];
+};
+
+export class ParticipantService {
+  /**
+   * Email a one-time access link to the team behind a submission.
+   * Succeeds for unknown emails too so the endpoint cannot be used to probe for submissions.
+   */
+  static async requestMagicLink(
+    event: Event,
+    email: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<boolean>> {
+    try {
+      const submission = await prisma.submission.findUnique({
+        where: { eventId_email: { eventId: event.id, email } },
+        select: { id: true, teamName: true, deletedAt: true },
+      });
+
+      if (!submission || submission.deletedAt) {
+        logger.warn('Magic link requested for unknown submission', {
+          eventId: event.id,
+          email,
+          ip: clientInfo.ipAddress,
+        });
+
+        return {
+          success: true,
+          data: true,
+        };
+      }
+
+      const token = crypto.randomBytes(32).toString('hex');
+      const expiresAt = new Date(Date.now() + config.participant.magicLinkTtlMinutes * 60 * 1000);
+
+      await prisma.magicLinkToken.create({
+        data: {
+          tokenHash: this.hashToken(token),
+          submissionId: submission.id,
+          email,
+          expiresAt,
+          ipAddress: clientInfo.ipAddress,
+        },
+      });
+
+      const link = `${config.participant.magicLinkUrl}?token=${token}`;
+
+      await MailService.send({
+        to: email,
+        subject: `Access your ${event.name} submission`,
+        text: [
+          `Hi ${submission.teamName},`,
+          '',
+          `Use the link below to view and edit your submission. It can be used once and expires in ${config.participant.magicLinkTtlMinutes} minutes.`,
+          '',
+          link,
+        ].join('\n'),
+      });
+
+      logger.info('Magic link issued', {
+        submissionId: submission.id,
+        eventId: event.id,
+        ip: clientInfo.ipAddress,
+      });
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      logger.error('Failed to issue magic link', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        eventId: event.id,
+        email,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to send access link',
+      };
+    }
+  }
+
+  /**
+   * Exchange a magic link token for a participant access token
+   */
+  static async verifyMagicLink(
+    token: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<ParticipantLoginResponse>> {
+    try {
+      const magicLink = await prisma.magicLinkToken.findUnique({
+        where: { tokenHash: this.hashToken(token) },
+        include: { submission: { select: { id: true, eventId: true, email: true, deletedAt: true } } },
+      });
+
+      if (!magicLink || magicLink.usedAt || magicLink.expiresAt < new Date() || magicLink.submission.deletedAt) {
+        logger.warn('Invalid magic link used', {
+          found: !!magicLink,
+          ip: clientInfo.ipAddress,
+        });
+
+        return {
+          success: false,
+          error: 'Invalid or expired access link',
+        };
+      }
+
+      // Mark as used only if nobody else did in the meantime
+      const { count } = await prisma.magicLinkToken.updateMany({
+        where: { id: magicLink.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+      if (count === 0) {
+        return {
+          success: false,
+          error: 'Invalid or expired access link',
+        };
+      }
+
+      const accessToken = JWTUtils.generateParticipantToken({
+        submissionId: magicLink.submission.id,
+        eventId: magicLink.submission.eventId,
+        email: magicLink.email,
+      });
+
+      await AuditService.createAuditLog({
+        action: 'LOGIN',
+        entityType: 'participant',
+        entityId: magicLink.submission.id,
+        description: `Participant ${magicLink.email} signed in with a magic link`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        submissionId: magicLink.submission.id,
+        actor: { type: 'participant', id: magicLink.email },
+      });
+
+      return {
+        success: true,
+        data: {
+          accessToken,
+          expiresIn: config.participant.tokenExpiresIn,
+          submissionId: magicLink.submission.id,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to verify magic link', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ip: clientInfo.ipAddress,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to verify access link',
+      };
+    }
+  }
+
+  /**
+   * Get the submission of the signed-in team
+   */
+  static async getOwnSubmission(submissionId: string): Promise<ServiceResponse<ParticipantSubmission>> {
+    try {
+      const submission = await prisma.submission.findFirst({
+        where: { id: submissionId, deletedAt: null },
+        select: {
+          id: true,
+          eventId: true,
+          teamName: true,
+          teamLeader: true,
+          email: true,
+          status: true,
+          isLate: true,
+          demoUrl: true,
+          githubRepository: true,
+          presentationLink: true,
+          submittedAt: true,
+          updatedAt: true,
+          members: {
+            select: { name: true, email: true, role: true, githubHandle: true },
+            orderBy: [{ role: 'asc' }, { createdAt: 'asc' }],
+          },
+        },
+      });
+
+      if (!submission) {
+        return {
+          success: false,
+          error: 'Submission not found',
+        };
+      }
+
+      return {
+        success: true,
+        data: submission,
+      };
+    } catch (error) {
+      logger.error('Failed to get participant submission', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        submissionId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve submission',
+      };
+    }
+  }
+
+  /**
+   * Let a team edit its own submission until the deadline.
+   * A submission that requires changes stays editable after it, so the team can make them before resubmitting.
+   */
+  static async updateOwnSubmission(
+    event: Event,
+    submissionId: string,
+    email: string,
+    data: ParticipantUpdateSubmissionRequest,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<ParticipantSubmission>> {
+    try {
+      const submission = await prisma.submission.findFirst({
+        where: { id: submissionId, deletedAt: null },
+        select: { status: true },
+      });
+
+      if (!submission) {
+        return {
+          success: false,
+          error: 'Submission not found',
+        };
+      }
+
+      const windowResult = await DeadlineService.getSubmissionWindow(event, email);
+
+      if (!windowResult.success || !windowResult.data) {
+        return {
+          success: false,
+          error: windowResult.error || 'Failed to check submission deadline',
+        };
+      }
+
+      if (windowResult.data.state !== 'OPEN' && submission.status !== 'REQUIRES_CHANGES') {
+        return {
+          success: false,
+          error: 'The submission deadline has passed',
+        };
+      }
+
+      const changes: Record<string, unknown> = {};
+      for (const field of PARTICIPANT_EDITABLE_FIELDS) {
+        if (data[field] !== undefined) {
+          changes[field] = data[field];
+        }
+      }
+
+      const result = await SubmissionService.updateSubmission(
+        submissionId,
+        changes as ParticipantUpdateSubmissionRequest,
+        null,
+        clientInfo,
+        { type: 'participant', id: email }
+      );
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error,
+        };
+      }
+
+      return this.getOwnSubmission(submissionId);
+    } catch (error) {
+      logger.error('Failed to update participant submission', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        submissionId,
+        data,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to update submission',
+      };
+    }
+  }
+
+  /**
+   * Send a submission that requires changes back to the reviewers
+   */
+  static async resubmitOwnSubmission(
+    submissionId: string,
+    email: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<ParticipantSubmission>> {
+    try {
+      const submission = await prisma.submission.findFirst({
+        where: { id: submissionId, deletedAt: null },
+        select: { status: true },
+      });
+
+      if (!submission) {
+        return {
+          success: false,
+          error: 'Submission not found',
+        };
+      }
+
+      if (submission.status !== 'REQUIRES_CHANGES') {
+        return {
+          success: false,
+          error: 'Only submissions that require changes can be resubmitted',
+        };
+      }
+
+      const result = await SubmissionService.updateSubmission(
+        submissionId,
+        { status: 'UNDER_REVIEW' },
+        null,
+        clientInfo,
+        { type: 'participant', id: email }
+      );
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error,
+        };
+      }
+
+      logger.info('Submission resubmitted by team', {
+        submissionId,
+        email,
+      });
+
+      return this.getOwnSubmission(submissionId);
+    } catch (error) {
+      logger.error('Failed to resubmit participant submission', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        submissionId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to resubmit submission',
+      };
+    }
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
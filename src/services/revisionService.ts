@@ -0,0 +1,254 @@
+import { Prisma, SubmissionRevision } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import {
+  AuditActor,
+  RevisionFieldChange,
+  ServiceResponse,
+  SubmissionRevisionDiff,
+  SubmissionRevisionSnapshot,
+} from '../types';
+import { AuditService } from './auditService';
+import { MEMBERS_INCLUDE, SubmissionService, SubmissionWithMembers } from './submissionService';
+import { TeamService } from './teamService';
+
+const SNAPSHOT_FIELDS: (keyof SubmissionRevisionSnapshot)[] = [
+  'teamName',
+  'teamLeader',
+  'email',
+  'status',
+  'demoUrl',
+  'githubRepository',
+  'presentationLink',
+  'members',
+];
+
+export class RevisionService {
+  /**
+   * Record the current state of a submission as its next revision.
+   * Runs inside the transaction that changed the submission.
+   */
+  static async recordRevision(
+    tx: Prisma.TransactionClient,
+    submission: SubmissionWithMembers,
+    actor?: AuditActor
+  ): Promise<SubmissionRevision> {
+    const latest = await tx.submissionRevision.aggregate({
+      where: { submissionId: submission.id },
+      _max: { revision: true },
+    });
+
+    return tx.submissionRevision.create({
+      data: {
+        submissionId: submission.id,
+        revision: (latest._max.revision ?? 0) + 1,
+        snapshot: this.toSnapshot(submission) as unknown as Prisma.InputJsonValue,
+        actorType: actor?.type,
+        actorId: actor?.id,
+      },
+    });
+  }
+
+  /**
+   * List the revisions of a submission, newest first
+   */
+  static async getRevisions(submissionId: string): Promise<ServiceResponse<SubmissionRevision[]>> {
+    try {
+      const revisions = await prisma.submissionRevision.findMany({
+        where: { submissionId },
+        orderBy: { revision: 'desc' },
+      });
+
+      return {
+        success: true,
+        data: revisions,
+      };
+    } catch (error) {
+      logger.error('Failed to get submission revisions', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        submissionId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve revisions',
+      };
+    }
+  }
+
+  /**
+   * Field-level diff between two revisions of a submission
+   */
+  static async diffRevisions(
+    submissionId: string,
+    from: number,
+    to: number
+  ): Promise<ServiceResponse<SubmissionRevisionDiff>> {
+    try {
+      const revisions = await prisma.submissionRevision.findMany({
+        where: { submissionId, revision: { in: [from, to] } },
+      });
+
+      const fromRevision = revisions.find(revision => revision.revision === from);
+      const toRevision = revisions.find(revision => revision.revision === to);
+
+      if (!fromRevision || !toRevision) {
+        return {
+          success: false,
+          error: 'Revision not found',
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          submissionId,
+          from,
+          to,
+          changes: this.diffSnapshots(
+            fromRevision.snapshot as unknown as SubmissionRevisionSnapshot,
+            toRevision.snapshot as unknown as SubmissionRevisionSnapshot
+          ),
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to diff submission revisions', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        submissionId,
+        from,
+        to,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to compare revisions',
+      };
+    }
+  }
+
+  /**
+   * Restore the content of an older revision as a new update.
+   * Email and status are not restored; they identify the team and follow the review process.
+   */
+  static async restoreRevision(
+    submissionId: string,
+    revisionNumber: number,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<SubmissionWithMembers>> {
+    try {
+      const [revision, current] = await Promise.all([
+        prisma.submissionRevision.findUnique({
+          where: { submissionId_revision: { submissionId, revision: revisionNumber } },
+        }),
+        prisma.submission.findUnique({
+          where: { id: submissionId },
+          include: MEMBERS_INCLUDE,
+        }),
+      ]);
+
+      if (!revision || !current) {
+        return {
+          success: false,
+          error: 'Revision not found',
+        };
+      }
+
+      const snapshot = revision.snapshot as unknown as SubmissionRevisionSnapshot;
+      const changes = this.diffSnapshots(this.toSnapshot(current), snapshot)
+        .filter(change => change.field !== 'email' && change.field !== 'status');
+
+      if (changes.length === 0) {
+        return {
+          success: false,
+          error: 'Submission already matches this revision',
+        };
+      }
+
+      const result = await SubmissionService.updateSubmission(
+        submissionId,
+        {
+          teamName: snapshot.teamName,
+          teamLeader: snapshot.teamLeader,
+          demoUrl: snapshot.demoUrl,
+          githubRepository: snapshot.githubRepository,
+          presentationLink: snapshot.presentationLink,
+          members: snapshot.members
+            .filter(member => member.role === 'MEMBER')
+            .map(member => ({
+              name: member.name,
+              email: member.email,
+              githubHandle: member.githubHandle ?? undefined,
+            })),
+        },
+        adminId,
+        clientInfo
+      );
+
+      if (!result.success) {
+        return result;
+      }
+
+      await AuditService.createAuditLog({
+        action: 'UPDATE',
+        entityType: 'submission_revision',
+        entityId: revision.id,
+        newValues: {
+          restoredRevision: revisionNumber,
+          fields: changes.map(change => change.field),
+        },
+        description: `Submission restored to revision ${revisionNumber}`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+        submissionId,
+      });
+
+      logger.info('Submission revision restored', {
+        submissionId,
+        revision: revisionNumber,
+        adminId,
+      });
+
+      return result;
+    } catch (error) {
+      logger.error('Failed to restore submission revision', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        submissionId,
+        revision: revisionNumber,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to restore revision',
+      };
+    }
+  }
+
+  private static toSnapshot(submission: SubmissionWithMembers): SubmissionRevisionSnapshot {
+    return {
+      teamName: submission.teamName,
+      teamLeader: submission.teamLeader,
+      email: submission.email,
+      status: submission.status,
+      demoUrl: submission.demoUrl,
+      githubRepository: submission.githubRepository,
+      presentationLink: submission.presentationLink,
+      members: TeamService.snapshot(submission.members),
+    };
+  }
+
+  private static diffSnapshots(
+    from: SubmissionRevisionSnapshot,
+    to: SubmissionRevisionSnapshot
+  ): RevisionFieldChange[] {
+    return SNAPSHOT_FIELDS
+      .filter(field => JSON.stringify(from[field] ?? null) !== JSON.stringify(to[field] ?? null))
+      .map(field => ({
+        field,
+        from: from[field] ?? null,
+        to: to[field] ?? null,
+      }));
+  }
+}
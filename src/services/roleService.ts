@@ -0,0 +1,313 @@
+import { Role } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { CreateRoleRequest, ServiceResponse, UpdateRoleRequest } from '../types';
+import { Permission, PermissionUtils, SYSTEM_ROLES } from '../utils/permissions';
+import { AccountStatusService } from './accountStatusService';
+import { AuditService } from './auditService';
+
+export class RoleService {
+  /**
+   * Resolve the permissions of a role.
+   * Built-in roles fall back to their defaults until they are seeded; unknown roles get none.
+   */
+  static async getPermissions(roleName: string): Promise<string[]> {
+    const role = await prisma.role.findUnique({
+      where: { name: roleName },
+      select: { permissions: true },
+    });
+
+    if (role) {
+      return role.permissions;
+    }
+
+    return PermissionUtils.getSystemRole(roleName)?.permissions ?? [];
+  }
+
+  /**
+   * Names of the roles granting a permission, built-in roles included
+   */
+  static async getRolesWithPermission(permission: Permission): Promise<string[]> {
+    const roles = await prisma.role.findMany({ select: { name: true, permissions: true } });
+    const stored = new Set(roles.map(role => role.name));
+
+    const unseeded = Object.entries(SYSTEM_ROLES)
+      .filter(([name]) => !stored.has(name))
+      .map(([name, role]) => ({ name, permissions: role.permissions as string[] }));
+
+    return [...roles, ...unseeded]
+      .filter(role => role.permissions.includes(permission))
+      .map(role => role.name);
+  }
+
+  /**
+   * List roles with the number of admins holding each one (Admin only)
+   */
+  static async getRoles(): Promise<ServiceResponse<(Role & { adminCount: number })[]>> {
+    try {
+      for (const name of Object.keys(SYSTEM_ROLES)) {
+        await this.findOrSeed(name);
+      }
+
+      const [roles, counts] = await Promise.all([
+        prisma.role.findMany({ orderBy: { name: 'asc' } }),
+        prisma.admin.groupBy({ by: ['role'], _count: { _all: true } }),
+      ]);
+
+      const countByRole = new Map(counts.map(count => [count.role, count._count._all]));
+
+      return {
+        success: true,
+        data: roles.map(role => ({ ...role, adminCount: countByRole.get(role.name) ?? 0 })),
+      };
+    } catch (error) {
+      logger.error('Failed to get roles', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve roles',
+      };
+    }
+  }
+
+  /**
+   * Create a custom role (Admin only)
+   */
+  static async createRole(
+    data: CreateRoleRequest,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<Role>> {
+    try {
+      const existing = await prisma.role.findUnique({ where: { name: data.name } });
+
+      if (existing || PermissionUtils.getSystemRole(data.name)) {
+        return {
+          success: false,
+          error: 'A role with this name already exists',
+        };
+      }
+
+      const role = await prisma.role.create({
+        data: {
+          name: data.name,
+          description: data.description,
+          permissions: [...new Set(data.permissions)],
+        },
+      });
+
+      await AuditService.createAuditLog({
+        action: 'CREATE',
+        entityType: 'role',
+        entityId: role.id,
+        newValues: { name: role.name, description: role.description, permissions: role.permissions },
+        description: `Role ${role.name} created`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      return {
+        success: true,
+        data: role,
+      };
+    } catch (error) {
+      logger.error('Failed to create role', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        name: data.name,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to create role',
+      };
+    }
+  }
+
+  /**
+   * Update the description or permissions of a role (Admin only).
+   * When the permissions change, the access tokens of admins holding the role stop working,
+   * so they pick up the new permissions at once.
+   */
+  static async updateRole(
+    name: string,
+    data: UpdateRoleRequest,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<Role>> {
+    try {
+      const existing = await this.findOrSeed(name);
+
+      if (!existing) {
+        return {
+          success: false,
+          error: 'Role not found',
+        };
+      }
+
+      // Removing admins:manage from superadmin would lock everyone out of role management
+      if (name === 'superadmin' && data.permissions && !data.permissions.includes('admins:manage')) {
+        return {
+          success: false,
+          error: 'The superadmin role must keep the admins:manage permission',
+        };
+      }
+
+      const permissions = data.permissions && [...new Set(data.permissions)];
+      const permissionsChanged = !!permissions && (
+        permissions.length !== existing.permissions.length ||
+        permissions.some(permission => !existing.permissions.includes(permission))
+      );
+
+      const holders = permissionsChanged
+        ? await prisma.admin.findMany({ where: { role: name }, select: { id: true } })
+        : [];
+
+      const [role] = await prisma.$transaction([
+        prisma.role.update({
+          where: { name },
+          data: {
+            description: data.description,
+            permissions,
+          },
+        }),
+        prisma.admin.updateMany({
+          where: { id: { in: holders.map(holder => holder.id) } },
+          data: { tokenVersion: { increment: 1 } },
+        }),
+      ]);
+
+      holders.forEach(holder => AccountStatusService.invalidate(holder.id));
+
+      await AuditService.createAuditLog({
+        action: 'UPDATE',
+        entityType: 'role',
+        entityId: role.id,
+        oldValues: { description: existing.description, permissions: existing.permissions },
+        newValues: { description: role.description, permissions: role.permissions, signedOutAdmins: holders.length },
+        description: `Role ${role.name} updated`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      return {
+        success: true,
+        data: role,
+      };
+    } catch (error) {
+      logger.error('Failed to update role', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        name,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to update role',
+      };
+    }
+  }
+
+  /**
+   * Delete a custom role that no admin holds (Admin only)
+   */
+  static async deleteRole(
+    name: string,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<boolean>> {
+    try {
+      const existing = await prisma.role.findUnique({ where: { name } });
+
+      if (!existing && !PermissionUtils.getSystemRole(name)) {
+        return {
+          success: false,
+          error: 'Role not found',
+        };
+      }
+
+      if (!existing || existing.isSystem) {
+        return {
+          success: false,
+          error: 'Built-in roles cannot be deleted',
+        };
+      }
+
+      const adminCount = await prisma.admin.count({ where: { role: name } });
+
+      if (adminCount > 0) {
+        return {
+          success: false,
+          error: 'Role is still assigned to admins',
+        };
+      }
+
+      await prisma.role.delete({ where: { name } });
+
+      await AuditService.createAuditLog({
+        action: 'DELETE',
+        entityType: 'role',
+        entityId: existing.id,
+        oldValues: { name: existing.name, description: existing.description, permissions: existing.permissions },
+        description: `Role ${existing.name} deleted`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      logger.error('Failed to delete role', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        name,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to delete role',
+      };
+    }
+  }
+
+  /**
+   * Check whether a role exists, counting built-in roles that are not seeded yet
+   */
+  static async roleExists(name: string): Promise<boolean> {
+    if (PermissionUtils.getSystemRole(name)) {
+      return true;
+    }
+
+    const role = await prisma.role.findUnique({ where: { name }, select: { id: true } });
+    return role !== null;
+  }
+
+  /**
+   * Get a role row, creating it from the defaults when it is a built-in role that was never seeded
+   */
+  private static async findOrSeed(name: string): Promise<Role | null> {
+    const defaults = PermissionUtils.getSystemRole(name);
+
+    if (!defaults) {
+      return prisma.role.findUnique({ where: { name } });
+    }
+
+    return prisma.role.upsert({
+      where: { name },
+      create: {
+        name,
+        description: defaults.description,
+        permissions: defaults.permissions,
+        isSystem: true,
+      },
+      update: {},
+    });
+  }
+}
@@ -0,0 +1,379 @@
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import {
+  CreateRubricRequest,
+  UpdateRubricRequest,
+  ServiceResponse,
+} from '../types';
+import { Rubric, RubricCriterion } from '@prisma/client';
+import { AuditService } from './auditService';
+
+export type RubricWithCriteria = Rubric & { criteria: RubricCriterion[] };
+
+export class RubricService {
+  /**
+   * Create a new rubric with its criteria
+   */
+  static async createRubric(
+    data: CreateRubricRequest,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<RubricWithCriteria>> {
+    try {
+      const rubric = await prisma.rubric.create({
+        data: {
+          name: data.name,
+          description: data.description,
+          criteria: {
+            create: data.criteria.map((criterion, index) => ({
+              name: criterion.name,
+              description: criterion.description,
+              weight: criterion.weight,
+              maxScore: criterion.maxScore,
+              position: index,
+            })),
+          },
+        },
+        include: {
+          criteria: { orderBy: { position: 'asc' } },
+        },
+      });
+
+      await AuditService.createAuditLog({
+        action: 'CREATE',
+        entityType: 'rubric',
+        entityId: rubric.id,
+        newValues: rubric,
+        description: `Rubric "${rubric.name}" created`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      logger.info('Rubric created successfully', {
+        rubricId: rubric.id,
+        adminId,
+      });
+
+      return {
+        success: true,
+        data: rubric,
+      };
+    } catch (error) {
+      logger.error('Failed to create rubric', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        data,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to create rubric',
+      };
+    }
+  }
+
+  /**
+   * List all rubrics with their criteria
+   */
+  static async getRubrics(): Promise<ServiceResponse<RubricWithCriteria[]>> {
+    try {
+      const rubrics = await prisma.rubric.findMany({
+        orderBy: { createdAt: 'desc' },
+        include: {
+          criteria: { orderBy: { position: 'asc' } },
+        },
+      });
+
+      return {
+        success: true,
+        data: rubrics,
+      };
+    } catch (error) {
+      logger.error('Failed to get rubrics', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve rubrics',
+      };
+    }
+  }
+
+  /**
+   * Get a single rubric by ID
+   */
+  static async getRubricById(id: string): Promise<ServiceResponse<RubricWithCriteria>> {
+    try {
+      const rubric = await prisma.rubric.findUnique({
+        where: { id },
+        include: {
+          criteria: { orderBy: { position: 'asc' } },
+        },
+      });
+
+      if (!rubric) {
+        return {
+          success: false,
+          error: 'Rubric not found',
+        };
+      }
+
+      return {
+        success: true,
+        data: rubric,
+      };
+    } catch (error) {
+      logger.error('Failed to get rubric by ID', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve rubric',
+      };
+    }
+  }
+
+  /**
+   * Get the rubric currently used for scoring
+   */
+  static async getActiveRubric(): Promise<RubricWithCriteria | null> {
+    return prisma.rubric.findFirst({
+      where: { isActive: true },
+      include: {
+        criteria: { orderBy: { position: 'asc' } },
+      },
+    });
+  }
+
+  /**
+   * Update a rubric. Criteria can only be replaced while no scores reference them.
+   */
+  static async updateRubric(
+    id: string,
+    data: UpdateRubricRequest,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<RubricWithCriteria>> {
+    try {
+      const currentRubric = await prisma.rubric.findUnique({
+        where: { id },
+        include: { criteria: true },
+      });
+
+      if (!currentRubric) {
+        return {
+          success: false,
+          error: 'Rubric not found',
+        };
+      }
+
+      if (data.criteria) {
+        const scoreCount = await prisma.score.count({
+          where: { criterion: { rubricId: id } },
+        });
+
+        if (scoreCount > 0) {
+          return {
+            success: false,
+            error: 'Rubric criteria cannot be changed after scoring has started',
+          };
+        }
+      }
+
+      const updatedRubric = await prisma.$transaction(async (tx) => {
+        if (data.criteria) {
+          await tx.rubricCriterion.deleteMany({ where: { rubricId: id } });
+        }
+
+        return tx.rubric.update({
+          where: { id },
+          data: {
+            name: data.name,
+            description: data.description,
+            criteria: data.criteria
+              ? {
+                  create: data.criteria.map((criterion, index) => ({
+                    name: criterion.name,
+                    description: criterion.description,
+                    weight: criterion.weight,
+                    maxScore: criterion.maxScore,
+                    position: index,
+                  })),
+                }
+              : undefined,
+          },
+          include: {
+            criteria: { orderBy: { position: 'asc' } },
+          },
+        });
+      });
+
+      await AuditService.createAuditLog({
+        action: 'UPDATE',
+        entityType: 'rubric',
+        entityId: id,
+        oldValues: currentRubric,
+        newValues: updatedRubric,
+        description: `Rubric "${updatedRubric.name}" updated`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      logger.info('Rubric updated successfully', {
+        rubricId: id,
+        adminId,
+      });
+
+      return {
+        success: true,
+        data: updatedRubric,
+      };
+    } catch (error) {
+      logger.error('Failed to update rubric', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        data,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to update rubric',
+      };
+    }
+  }
+
+  /**
+   * Make a rubric the active one used for scoring
+   */
+  static async activateRubric(
+    id: string,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<RubricWithCriteria>> {
+    try {
+      const rubric = await prisma.rubric.findUnique({
+        where: { id },
+      });
+
+      if (!rubric) {
+        return {
+          success: false,
+          error: 'Rubric not found',
+        };
+      }
+
+      const [, activatedRubric] = await prisma.$transaction([
+        prisma.rubric.updateMany({
+          where: { isActive: true, id: { not: id } },
+          data: { isActive: false },
+        }),
+        prisma.rubric.update({
+          where: { id },
+          data: { isActive: true },
+          include: {
+            criteria: { orderBy: { position: 'asc' } },
+          },
+        }),
+      ]);
+
+      await AuditService.createAuditLog({
+        action: 'UPDATE',
+        entityType: 'rubric',
+        entityId: id,
+        oldValues: { isActive: rubric.isActive },
+        newValues: { isActive: true },
+        description: `Rubric "${rubric.name}" activated for scoring`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      return {
+        success: true,
+        data: activatedRubric,
+      };
+    } catch (error) {
+      logger.error('Failed to activate rubric', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to activate rubric',
+      };
+    }
+  }
+
+  /**
+   * Delete a rubric that has not been used for scoring
+   */
+  static async deleteRubric(
+    id: string,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<boolean>> {
+    try {
+      const rubric = await prisma.rubric.findUnique({
+        where: { id },
+        include: { criteria: true },
+      });
+
+      if (!rubric) {
+        return {
+          success: false,
+          error: 'Rubric not found',
+        };
+      }
+
+      const scoreCount = await prisma.score.count({
+        where: { criterion: { rubricId: id } },
+      });
+
+      if (scoreCount > 0) {
+        return {
+          success: false,
+          error: 'Rubric cannot be deleted after scoring has started',
+        };
+      }
+
+      await prisma.rubric.delete({
+        where: { id },
+      });
+
+      await AuditService.createAuditLog({
+        action: 'DELETE',
+        entityType: 'rubric',
+        entityId: id,
+        oldValues: rubric,
+        description: `Rubric "${rubric.name}" deleted`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      logger.error('Failed to delete rubric', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to delete rubric',
+      };
+    }
+  }
+}
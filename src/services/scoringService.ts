@@ -0,0 +1,287 @@
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import {
+  ScoreInput,
+  ServiceResponse,
+  SubmissionScoreSummary,
+  JudgeScoreSummary,
+} from '../types';
+import { Score, RubricCriterion } from '@prisma/client';
+import { AuditService } from './auditService';
+import { RubricService } from './rubricService';
+
+type ScoreWithCriterion = Score & {
+  criterion: RubricCriterion;
+  judge?: { id: string; name: string };
+};
+
+export class ScoringService {
+  /**
+   * Create or update a judge's scores for a submission
+   */
+  static async upsertScores(
+    submissionId: string,
+    judgeId: string,
+    scores: ScoreInput[],
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<{ scores: Score[]; summary: SubmissionScoreSummary }>> {
+    try {
+      const submission = await prisma.submission.findFirst({
+        where: { id: submissionId, deletedAt: null },
+        select: { id: true },
+      });
+
+      if (!submission) {
+        return {
+          success: false,
+          error: 'Submission not found',
+        };
+      }
+
+      const rubric = await RubricService.getActiveRubric();
+
+      if (!rubric) {
+        return {
+          success: false,
+          error: 'No active rubric configured for scoring',
+        };
+      }
+
+      // Every score must target a criterion of the active rubric and stay within its range
+      const criteriaById = new Map(rubric.criteria.map(criterion => [criterion.id, criterion]));
+
+      for (const score of scores) {
+        const criterion = criteriaById.get(score.criterionId);
+
+        if (!criterion) {
+          return {
+            success: false,
+            error: `Criterion ${score.criterionId} is not part of the active rubric`,
+          };
+        }
+
+        if (score.value < 0 || score.value > criterion.maxScore) {
+          return {
+            success: false,
+            error: `Score for "${criterion.name}" must be between 0 and ${criterion.maxScore}`,
+          };
+        }
+      }
+
+      const previousScores = await prisma.score.findMany({
+        where: {
+          submissionId,
+          judgeId,
+          criterionId: { in: scores.map(score => score.criterionId) },
+        },
+      });
+
+      const savedScores = await prisma.$transaction(
+        scores.map(score =>
+          prisma.score.upsert({
+            where: {
+              submissionId_judgeId_criterionId: {
+                submissionId,
+                judgeId,
+                criterionId: score.criterionId,
+              },
+            },
+            create: {
+              submissionId,
+              judgeId,
+              criterionId: score.criterionId,
+              value: score.value,
+              comment: score.comment,
+            },
+            update: {
+              value: score.value,
+              comment: score.comment,
+            },
+          })
+        )
+      );
+
+      await AuditService.logScoresSubmitted(
+        submissionId,
+        previousScores,
+        savedScores,
+        judgeId,
+        clientInfo
+      );
+
+      const summaries = await this.getScoreSummaries([submissionId]);
+
+      logger.info('Scores saved successfully', {
+        submissionId,
+        judgeId,
+        count: savedScores.length,
+      });
+
+      return {
+        success: true,
+        data: {
+          scores: savedScores,
+          summary: summaries[submissionId],
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to save scores', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        submissionId,
+        judgeId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to save scores',
+      };
+    }
+  }
+
+  /**
+   * Get scores for a submission, optionally restricted to a single judge.
+   * When restricted, the summary only reflects that judge's scores.
+   */
+  static async getSubmissionScores(
+    submissionId: string,
+    judgeId?: string
+  ): Promise<ServiceResponse<{ scores: Score[]; summary: SubmissionScoreSummary }>> {
+    try {
+      const submission = await prisma.submission.findFirst({
+        where: { id: submissionId, deletedAt: null },
+        select: { id: true },
+      });
+
+      if (!submission) {
+        return {
+          success: false,
+          error: 'Submission not found',
+        };
+      }
+
+      const scores = await prisma.score.findMany({
+        where: {
+          submissionId,
+          ...(judgeId ? { judgeId } : {}),
+        },
+        orderBy: [{ judgeId: 'asc' }, { criterion: { position: 'asc' } }],
+        include: {
+          criterion: true,
+          judge: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      });
+
+      return {
+        success: true,
+        data: {
+          scores,
+          summary: this.summarizeScores(scores),
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to get submission scores', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        submissionId,
+        judgeId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve scores',
+      };
+    }
+  }
+
+  /**
+   * Aggregate weighted scores for a set of submissions
+   */
+  static async getScoreSummaries(
+    submissionIds: string[]
+  ): Promise<Record<string, SubmissionScoreSummary>> {
+    const scores = await prisma.score.findMany({
+      where: {
+        submissionId: { in: submissionIds },
+      },
+      include: {
+        criterion: true,
+        judge: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    const scoresBySubmission = new Map<string, ScoreWithCriterion[]>();
+    for (const score of scores) {
+      const list = scoresBySubmission.get(score.submissionId) || [];
+      list.push(score);
+      scoresBySubmission.set(score.submissionId, list);
+    }
+
+    return submissionIds.reduce((acc, submissionId) => {
+      acc[submissionId] = this.summarizeScores(scoresBySubmission.get(submissionId) || []);
+      return acc;
+    }, {} as Record<string, SubmissionScoreSummary>);
+  }
+
+  /**
+   * Weighted score (0-100) per judge, averaged across judges
+   */
+  static summarizeScores(scores: ScoreWithCriterion[]): SubmissionScoreSummary {
+    const scoresByJudge = new Map<string, ScoreWithCriterion[]>();
+    for (const score of scores) {
+      const list = scoresByJudge.get(score.judgeId) || [];
+      list.push(score);
+      scoresByJudge.set(score.judgeId, list);
+    }
+
+    const judges: JudgeScoreSummary[] = [];
+    for (const [judgeId, judgeScores] of scoresByJudge) {
+      judges.push({
+        judgeId,
+        judgeName: judgeScores[0].judge?.name,
+        weightedScore: this.calculateWeightedScore(judgeScores),
+        criteriaScored: judgeScores.length,
+      });
+    }
+
+    const weightedScore = judges.length > 0
+      ? this.round(judges.reduce((sum, judge) => sum + judge.weightedScore, 0) / judges.length)
+      : null;
+
+    return {
+      weightedScore,
+      judgeCount: judges.length,
+      judges,
+    };
+  }
+
+  /**
+   * Normalize each criterion to its max score and weight it
+   */
+  static calculateWeightedScore(scores: ScoreWithCriterion[]): number {
+    const totalWeight = scores.reduce((sum, score) => sum + score.criterion.weight, 0);
+
+    if (totalWeight === 0) {
+      return 0;
+    }
+
+    const weighted = scores.reduce(
+      (sum, score) => sum + (score.value / score.criterion.maxScore) * score.criterion.weight,
+      0
+    );
+
+    return this.round((weighted / totalWeight) * 100);
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,173 @@
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { AdminSession, ClientInfo, ServiceResponse } from '../types';
+import { AccountStatusService } from './accountStatusService';
+import { AuditService } from './auditService';
+
+export class SessionService {
+  /**
+   * List the active sessions of an admin, most recently used first
+   */
+  static async getSessions(
+    adminId: string,
+    currentSessionId?: string
+  ): Promise<ServiceResponse<AdminSession[]>> {
+    try {
+      const tokens = await prisma.refreshToken.findMany({
+        where: {
+          adminId,
+          rotatedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        orderBy: { lastUsedAt: 'desc' },
+      });
+
+      return {
+        success: true,
+        data: tokens.map(token => ({
+          id: token.sessionId,
+          ipAddress: token.ipAddress,
+          userAgent: token.userAgent,
+          browserInfo: token.browserInfo as ClientInfo['browserInfo'] | null,
+          startedAt: token.sessionStartedAt,
+          lastUsedAt: token.lastUsedAt,
+          expiresAt: token.expiresAt,
+          current: token.sessionId === currentSessionId,
+        })),
+      };
+    } catch (error) {
+      logger.error('Failed to get sessions', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve sessions',
+      };
+    }
+  }
+
+  /**
+   * Revoke one session of an admin, signing that device out.
+   * Its access token is rejected from the next request.
+   */
+  static async revokeSession(
+    adminId: string,
+    sessionId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<boolean>> {
+    try {
+      const session = await prisma.refreshToken.findFirst({
+        where: { adminId, sessionId, rotatedAt: null },
+      });
+
+      if (!session) {
+        return {
+          success: false,
+          error: 'Session not found',
+        };
+      }
+
+      await prisma.refreshToken.deleteMany({
+        where: { adminId, sessionId },
+      });
+      AccountStatusService.invalidateSessions([sessionId]);
+
+      await AuditService.createAuditLog({
+        action: 'LOGOUT',
+        entityType: 'admin',
+        entityId: adminId,
+        oldValues: {
+          sessionId,
+          ipAddress: session.ipAddress,
+          userAgent: session.userAgent,
+        },
+        description: 'Session revoked',
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      logger.info('Session revoked', {
+        adminId,
+        sessionId,
+        ip: clientInfo.ipAddress,
+      });
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      logger.error('Failed to revoke session', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        adminId,
+        sessionId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to revoke session',
+      };
+    }
+  }
+
+  /**
+   * Revoke every session of an admin except the one making the request (logout from other devices)
+   */
+  static async revokeOtherSessions(
+    adminId: string,
+    currentSessionId: string | undefined,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<{ revokedSessions: number }>> {
+    try {
+      const where = {
+        adminId,
+        ...(currentSessionId && { sessionId: { not: currentSessionId } }),
+      };
+
+      const sessions = await prisma.refreshToken.findMany({
+        where: { ...where, rotatedAt: null },
+        select: { sessionId: true },
+      });
+
+      await prisma.refreshToken.deleteMany({ where });
+      AccountStatusService.invalidateSessions(sessions.map(session => session.sessionId));
+
+      await AuditService.createAuditLog({
+        action: 'LOGOUT',
+        entityType: 'admin',
+        entityId: adminId,
+        oldValues: { sessionIds: sessions.map(session => session.sessionId) },
+        description: currentSessionId
+          ? 'All other sessions revoked'
+          : 'All sessions revoked',
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      logger.info('Other sessions revoked', {
+        adminId,
+        revokedSessions: sessions.length,
+        ip: clientInfo.ipAddress,
+      });
+
+      return {
+        success: true,
+        data: { revokedSessions: sessions.length },
+      };
+    } catch (error) {
+      logger.error('Failed to revoke sessions', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to revoke sessions',
+      };
+    }
+  }
+}
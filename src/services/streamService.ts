@@ -0,0 +1,175 @@
+import { EventEmitter } from 'events';
+import { AuditAction, AuditLog } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { config } from '../config/config';
+import { ServiceResponse, StreamEvent, StreamEventType } from '../types';
+import { SubmissionService } from './submissionService';
+
+type StreamListener = (event: StreamEvent) => void;
+
+// Audit actions on submissions that are pushed to the live stream
+const STREAM_ACTIONS: Partial<Record<AuditAction, StreamEventType>> = {
+  CREATE: 'submission.created',
+  STATUS_CHANGE: 'submission.status_changed',
+  DELETE: 'submission.deleted',
+  RESTORE: 'submission.restored',
+};
+
+// Bulk changes produce many events; counters are recomputed once they settle
+const STATS_DEBOUNCE_MS = 1000;
+
+export class StreamService {
+  private static emitter = new EventEmitter().setMaxListeners(0);
+  private static pendingStats = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Listen to live events. Returns a function that removes the listener.
+   */
+  static subscribe(listener: StreamListener): () => void {
+    this.emitter.on('event', listener);
+    return () => {
+      this.emitter.off('event', listener);
+    };
+  }
+
+  /**
+   * Push the live event an audit log entry represents, followed by updated counters.
+   * Called for every audit log entry; nothing is done while no one is listening.
+   */
+  static async publish(auditLog: AuditLog): Promise<void> {
+    if (this.emitter.listenerCount('event') === 0 || !auditLog.submissionId) {
+      return;
+    }
+
+    const type = auditLog.entityType === 'submission' ? STREAM_ACTIONS[auditLog.action] : undefined;
+
+    if (!type) {
+      return;
+    }
+
+    try {
+      const submission = await prisma.submission.findUnique({
+        where: { id: auditLog.submissionId },
+        select: { eventId: true },
+      });
+
+      if (!submission) {
+        return;
+      }
+
+      this.emitter.emit('event', this.toStreamEvent(auditLog, type, submission.eventId));
+      this.scheduleStats(submission.eventId);
+    } catch (error) {
+      logger.error('Failed to publish stream event', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        auditLogId: auditLog.id,
+      });
+    }
+  }
+
+  /**
+   * Get the events of an event that happened after the given stream event ID.
+   * Unknown IDs return nothing; the client then only gets fresh counters.
+   */
+  static async getMissedEvents(
+    eventId: string,
+    lastEventId: string
+  ): Promise<ServiceResponse<StreamEvent[]>> {
+    try {
+      const anchor = await prisma.auditLog.findUnique({
+        where: { id: lastEventId },
+        select: { id: true, createdAt: true },
+      });
+
+      if (!anchor) {
+        return {
+          success: true,
+          data: [],
+        };
+      }
+
+      const logs = await prisma.auditLog.findMany({
+        where: {
+          entityType: 'submission',
+          action: { in: Object.keys(STREAM_ACTIONS) as AuditAction[] },
+          submission: { eventId },
+          OR: [
+            { createdAt: { gt: anchor.createdAt } },
+            { createdAt: anchor.createdAt, id: { gt: anchor.id } },
+          ],
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: config.stream.replayLimit,
+      });
+
+      return {
+        success: true,
+        data: logs.map(log => this.toStreamEvent(log, STREAM_ACTIONS[log.action]!, eventId)),
+      };
+    } catch (error) {
+      logger.error('Failed to get missed stream events', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        eventId,
+        lastEventId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve missed events',
+      };
+    }
+  }
+
+  /**
+   * Build the counters event for an event from getSubmissionStats
+   */
+  static async getStatsEvent(eventId: string): Promise<StreamEvent | null> {
+    const result = await SubmissionService.getSubmissionStats(eventId);
+
+    if (!result.success) {
+      return null;
+    }
+
+    return {
+      type: 'stats',
+      eventId,
+      data: result.data!,
+    };
+  }
+
+  private static scheduleStats(eventId: string): void {
+    if (this.pendingStats.has(eventId)) {
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      this.pendingStats.delete(eventId);
+
+      const statsEvent = await this.getStatsEvent(eventId);
+      if (statsEvent) {
+        this.emitter.emit('event', statsEvent);
+      }
+    }, STATS_DEBOUNCE_MS);
+
+    // Never keep the process alive just to send counters
+    timer.unref();
+    this.pendingStats.set(eventId, timer);
+  }
+
+  private static toStreamEvent(auditLog: AuditLog, type: StreamEventType, eventId: string): StreamEvent {
+    return {
+      id: auditLog.id,
+      type,
+      eventId,
+      data: {
+        submissionId: auditLog.submissionId,
+        actor: { type: auditLog.actorType, id: auditLog.actorId },
+        oldValues: auditLog.oldValues,
+        newValues: auditLog.newValues,
+        description: auditLog.description,
+        createdAt: auditLog.createdAt.toISOString(),
+      },
+    };
+  }
+}
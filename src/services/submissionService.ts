@@ -1,29 +1,61 @@
 import { prisma } from '../config/database';
 import { logger } from '../config/logger';
+import { config } from '../config/config';
 import { 
+  AuditActor,
+  BulkStatusUpdateItem,
+  BulkStatusUpdateResult,
   CreateSubmissionRequest, 
   UpdateSubmissionRequest, 
   SubmissionQueryParams,
   ServiceResponse,
   PaginationOptions,
   SortOptions,
-  FilterOptions 
+  FilterOptions,
+  SubmissionScoreSummary
 } from '../types';
-import { Submission, SubmissionStatus } from '@prisma/client';
+import { Admin, Event, Prisma, Submission, SubmissionStatus, TeamMember } from '@prisma/client';
 import { AuditService } from './auditService';
+import { ScoringService } from './scoringService';
+import { RevisionService } from './revisionService';
+import { NotificationService } from './notificationService';
+import { TeamMemberRow, TeamService } from './teamService';
+import { StatusWorkflow } from '../utils/statusWorkflow';
+
+export type SubmissionWithMembers = Submission & { members: TeamMember[] };
+export type SubmissionWithScore = SubmissionWithMembers & { scoreSummary: SubmissionScoreSummary };
+export type TrashedSubmission = SubmissionWithMembers & {
+  deletedBy: Pick<Admin, 'id' | 'name' | 'email'> | null;
+  purgeAt: Date;
+};
+
+// Team leader first, then members in the order they joined
+export const MEMBERS_INCLUDE = {
+  members: { orderBy: [{ role: 'asc' }, { createdAt: 'asc' }, { id: 'asc' }] },
+} satisfies Prisma.SubmissionInclude;
 
 export class SubmissionService {
   /**
-   * Create a new submission
+   * Create a new submission for an event.
+   * Late entries accepted during the grace period are flagged with isLate.
    */
   static async createSubmission(
+    event: Event,
     data: CreateSubmissionRequest,
-    clientInfo: { ipAddress: string; userAgent: string; browserInfo?: any; deviceInfo?: any }
-  ): Promise<ServiceResponse<Submission>> {
+    clientInfo: { ipAddress: string; userAgent: string; browserInfo?: any; deviceInfo?: any },
+    isLate: boolean = false
+  ): Promise<ServiceResponse<SubmissionWithMembers>> {
     try {
-      // Check if submission with this email already exists
+      if (event.status !== 'OPEN') {
+        return {
+          success: false,
+          error: 'This event is not accepting submissions',
+        };
+      }
+
+      // Check if submission with this email already exists for the event
       const existingSubmission = await prisma.submission.findUnique({
-        where: { email: data.email },
+        where: { eventId_email: { eventId: event.id, email: data.email } },
       });
 
       if (existingSubmission) {
@@ -33,22 +65,52 @@ export class SubmissionService {
         };
       }
 
-      const submission = await prisma.submission.create({
-        data: {
-          teamName: data.teamName,
-          teamLeader: data.teamLeader,
-          email: data.email,
-          demoUrl: data.demoUrl,
-          githubRepository: data.githubRepository,
-          presentationLink: data.presentationLink,
-          status: 'PENDING',
-          ipAddress: clientInfo.ipAddress,
-          userAgent: clientInfo.userAgent,
-          browserInfo: clientInfo.browserInfo || undefined,
-          deviceInfo: clientInfo.deviceInfo || undefined,
-        },
+      const members = TeamService.buildMembers(
+        { name: data.teamLeader, email: data.email },
+        data.members
+      );
+
+      const teamError = await TeamService.validateTeam(event.id, members);
+
+      if (teamError) {
+        return {
+          success: false,
+          error: teamError,
+        };
+      }
+
+      const { submission, notification } = await prisma.$transaction(async tx => {
+        const created = await tx.submission.create({
+          data: {
+            eventId: event.id,
+            teamName: data.teamName,
+            teamLeader: data.teamLeader,
+            email: data.email,
+            demoUrl: data.demoUrl,
+            githubRepository: data.githubRepository,
+            presentationLink: data.presentationLink,
+            status: 'PENDING',
+            isLate,
+            ipAddress: clientInfo.ipAddress,
+            userAgent: clientInfo.userAgent,
+            browserInfo: clientInfo.browserInfo || undefined,
+            deviceInfo: clientInfo.deviceInfo || undefined,
+            members: {
+              create: members.map(member => ({ ...member, eventId: event.id })),
+            },
+          },
+          include: MEMBERS_INCLUDE,
+        });
+
+        await RevisionService.recordRevision(tx, created, { type: 'participant', id: created.email });
+
+        const confirmation = await NotificationService.notifySubmissionCreated(created, event.name, tx);
+
+        return { submission: created, notification: confirmation };
       });
 
+      NotificationService.deliverSoon(notification);
+
       // Log the submission creation
       await AuditService.logSubmissionCreated(
         submission.id,
@@ -57,14 +119,18 @@ export class SubmissionService {
           teamLeader: submission.teamLeader,
           email: submission.email,
           status: submission.status,
+          isLate: submission.isLate,
+          members: TeamService.snapshot(submission.members),
         },
         clientInfo
       );
 
       logger.info('Submission created successfully', {
         submissionId: submission.id,
+        eventId: event.id,
         teamName: submission.teamName,
         email: submission.email,
+        isLate,
         ip: clientInfo.ipAddress,
       });
 
@@ -75,6 +141,7 @@ export class SubmissionService {
     } catch (error) {
       logger.error('Failed to create submission', {
         error: error instanceof Error ? error.message : 'Unknown error',
+        eventId: event.id,
         data,
         clientInfo,
       });
@@ -87,10 +154,13 @@ export class SubmissionService {
   }
 
   /**
-   * Get submissions with filtering, sorting, and pagination
+   * Get submissions of an event with filtering, sorting, and pagination
    */
-  static async getSubmissions(params: SubmissionQueryParams): Promise<ServiceResponse<{
-    submissions: Submission[];
+  static async getSubmissions(
+    eventId: string,
+    params: SubmissionQueryParams
+  ): Promise<ServiceResponse<{
+    submissions: SubmissionWithScore[];
     total: number;
     page: number;
     limit: number;
@@ -107,42 +177,33 @@ export class SubmissionService {
       } = params;
 
       const offset = (page - 1) * limit;
-
-      // Build where clause
-      const where: any = {};
-
-      if (status) {
-        where.status = status;
-      }
-
-      if (search) {
-        where.OR = [
-          { teamName: { contains: search, mode: 'insensitive' } },
-          { teamLeader: { contains: search, mode: 'insensitive' } },
-          { email: { contains: search, mode: 'insensitive' } },
-        ];
-      }
-
-      // Build order by clause
-      const orderBy: any = {};
-      orderBy[sortBy] = sortOrder;
+      const where = this.buildListFilter(eventId, { status, search });
 
       const [submissions, total] = await Promise.all([
         prisma.submission.findMany({
           where,
-          orderBy,
+          orderBy: { [sortBy]: sortOrder },
           skip: offset,
           take: limit,
+          include: MEMBERS_INCLUDE,
         }),
         prisma.submission.count({ where }),
       ]);
 
       const totalPages = Math.ceil(total / limit);
 
+      // Attach the aggregated weighted score of each submission
+      const scoreSummaries = await ScoringService.getScoreSummaries(
+        submissions.map(submission => submission.id)
+      );
+
       return {
         success: true,
         data: {
-          submissions,
+          submissions: submissions.map(submission => ({
+            ...submission,
+            scoreSummary: scoreSummaries[submission.id],
+          })),
           total,
           page,
           limit,
@@ -152,6 +213,7 @@ export class SubmissionService {
     } catch (error) {
       logger.error('Failed to get submissions', {
         error: error instanceof Error ? error.message : 'Unknown error',
+        eventId,
         params,
       });
 
@@ -162,13 +224,58 @@ export class SubmissionService {
     }
   }
 
+  /**
+   * Iterate over all submissions matching the list filters in batches.
+   * Uses cursor pagination so large exports never load every row at once.
+   */
+  static async *iterateSubmissions(
+    eventId: string,
+    params: Pick<SubmissionQueryParams, 'status' | 'search' | 'sortBy' | 'sortOrder'>,
+    batchSize: number = 500
+  ): AsyncGenerator<SubmissionWithScore[]> {
+    const { status, search, sortBy = 'submittedAt', sortOrder = 'desc' } = params;
+    const where = this.buildListFilter(eventId, { status, search });
+    let cursor: string | undefined;
+
+    while (true) {
+      const submissions = await prisma.submission.findMany({
+        where,
+        // The ID breaks ties so the cursor position is stable
+        orderBy: [{ [sortBy]: sortOrder }, { id: sortOrder }],
+        take: batchSize,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        include: MEMBERS_INCLUDE,
+      });
+
+      if (submissions.length === 0) {
+        return;
+      }
+
+      const scoreSummaries = await ScoringService.getScoreSummaries(
+        submissions.map(submission => submission.id)
+      );
+
+      yield submissions.map(submission => ({
+        ...submission,
+        scoreSummary: scoreSummaries[submission.id],
+      }));
+
+      if (submissions.length < batchSize) {
+        return;
+      }
+
+      cursor = submissions[submissions.length - 1].id;
+    }
+  }
+
   /**
    * Get a single submission by ID
    */
-  static async getSubmissionById(id: string): Promise<ServiceResponse<Submission>> {
+  static async getSubmissionById(id: string): Promise<ServiceResponse<SubmissionWithScore>> {
     try {
-      const submission = await prisma.submission.findUnique({
-        where: { id },
+      const submission = await prisma.submission.findFirst({
+        where: { id, deletedAt: null },
+        include: MEMBERS_INCLUDE,
       });
 
       if (!submission) {
@@ -178,9 +285,14 @@ export class SubmissionService {
         };
       }
 
+      const scoreSummaries = await ScoringService.getScoreSummaries([id]);
+
       return {
         success: true,
-        data: submission,
+        data: {
+          ...submission,
+          scoreSummary: scoreSummaries[id],
+        },
       };
     } catch (error) {
       logger.error('Failed to get submission by ID', {
@@ -196,18 +308,22 @@ export class SubmissionService {
   }
 
   /**
-   * Update a submission
+   * Update a submission.
+   * adminId is null when the change is made by a participant or the system;
+   * the actor then identifies who made it in the audit log.
    */
   static async updateSubmission(
     id: string,
     data: UpdateSubmissionRequest,
-    adminId: string,
-    clientInfo: { ipAddress: string; userAgent: string }
-  ): Promise<ServiceResponse<Submission>> {
+    adminId: string | null,
+    clientInfo: { ipAddress: string; userAgent: string },
+    actor?: AuditActor
+  ): Promise<ServiceResponse<SubmissionWithMembers>> {
     try {
       // Get the current submission
-      const currentSubmission = await prisma.submission.findUnique({
-        where: { id },
+      const currentSubmission = await prisma.submission.findFirst({
+        where: { id, deletedAt: null },
+        include: MEMBERS_INCLUDE,
       });
 
       if (!currentSubmission) {
@@ -217,35 +333,106 @@ export class SubmissionService {
         };
       }
 
-      // Check if email is being changed and if it conflicts
+      // Only allowed status transitions, with a reason where the workflow asks for one
+      if (data.status && data.status !== currentSubmission.status) {
+        const transitionError = StatusWorkflow.validateTransition(
+          currentSubmission.status,
+          data.status,
+          data.reason
+        );
+
+        if (transitionError) {
+          return {
+            success: false,
+            error: transitionError,
+          };
+        }
+      }
+
+      // Check if email is being changed and if it conflicts within the event
       if (data.email && data.email !== currentSubmission.email) {
         const existingSubmission = await prisma.submission.findUnique({
-          where: { email: data.email },
+          where: { eventId_email: { eventId: currentSubmission.eventId, email: data.email } },
         });
 
         if (existingSubmission) {
           return {
             success: false,
-            error: 'A submission with this email already exists',
+            error: existingSubmission.deletedAt
+              ? 'A deleted submission still uses this email until it is purged'
+              : 'A submission with this email already exists',
           };
         }
       }
 
-      const updatedSubmission = await prisma.submission.update({
-        where: { id },
-        data: {
-          ...data,
-          updatedAt: new Date(),
-        },
+      const { members: memberInputs, reason, ...changes } = data;
+
+      // The leader is stored as a member too, so leader changes rebuild the team
+      const membersChanged = memberInputs !== undefined ||
+        (changes.teamLeader !== undefined && changes.teamLeader !== currentSubmission.teamLeader) ||
+        (changes.email !== undefined && changes.email !== currentSubmission.email);
+
+      let teamMembers: TeamMemberRow[] | null = null;
+
+      if (membersChanged) {
+        teamMembers = TeamService.buildMembers(
+          {
+            name: changes.teamLeader ?? currentSubmission.teamLeader,
+            email: changes.email ?? currentSubmission.email,
+          },
+          memberInputs ?? currentSubmission.members
+            .filter(member => member.role === 'MEMBER')
+            .map(member => ({
+              name: member.name,
+              email: member.email,
+              githubHandle: member.githubHandle ?? undefined,
+            }))
+        );
+
+        const teamError = await TeamService.validateTeam(currentSubmission.eventId, teamMembers, id);
+
+        if (teamError) {
+          return {
+            success: false,
+            error: teamError,
+          };
+        }
+      }
+
+      const updatedSubmission = await prisma.$transaction(async tx => {
+        if (teamMembers) {
+          await TeamService.replaceMembers(tx, id, currentSubmission.eventId, teamMembers);
+        }
+
+        const updated = await tx.submission.update({
+          where: { id },
+          data: {
+            ...changes,
+            updatedAt: new Date(),
+          },
+          include: MEMBERS_INCLUDE,
+        });
+
+        await RevisionService.recordRevision(
+          tx,
+          updated,
+          actor ?? (adminId ? { type: 'admin', id: adminId } : undefined)
+        );
+
+        return updated;
       });
 
-      // Log the submission update
+      // Log the submission update, including member changes
+      const { members: oldMembers, ...oldValues } = currentSubmission;
+      const { members: newMembers, ...newValues } = updatedSubmission;
+
       await AuditService.logSubmissionUpdated(
         id,
-        currentSubmission,
-        updatedSubmission,
+        { ...oldValues, members: TeamService.snapshot(oldMembers) },
+        { ...newValues, members: TeamService.snapshot(newMembers) },
         adminId,
-        clientInfo
+        clientInfo,
+        actor
       );
 
       // Log status change separately if status was updated
@@ -255,13 +442,16 @@ export class SubmissionService {
           currentSubmission.status,
           data.status,
           adminId,
-          clientInfo
+          clientInfo,
+          actor,
+          reason
         );
       }
 
       logger.info('Submission updated successfully', {
         submissionId: id,
         adminId,
+        actor,
         changes: data,
       });
 
@@ -285,7 +475,8 @@ export class SubmissionService {
   }
 
   /**
-   * Delete a submission
+   * Move a submission to the trash.
+   * It is hidden everywhere but the trash view and purged after the retention period.
    */
   static async deleteSubmission(
     id: string,
@@ -294,8 +485,8 @@ export class SubmissionService {
   ): Promise<ServiceResponse<boolean>> {
     try {
       // Get the current submission
-      const submission = await prisma.submission.findUnique({
-        where: { id },
+      const submission = await prisma.submission.findFirst({
+        where: { id, deletedAt: null },
       });
 
       if (!submission) {
@@ -305,8 +496,12 @@ export class SubmissionService {
         };
       }
 
-      await prisma.submission.delete({
+      const deletedSubmission = await prisma.submission.update({
         where: { id },
+        data: {
+          deletedAt: new Date(),
+          deletedById: adminId,
+        },
       });
 
       // Log the submission deletion
@@ -315,14 +510,15 @@ export class SubmissionService {
         entityType: 'submission',
         entityId: id,
         oldValues: submission,
-        description: `Submission deleted by admin`,
+        newValues: { deletedAt: deletedSubmission.deletedAt },
+        description: `Submission moved to trash by admin`,
         ipAddress: clientInfo.ipAddress,
         userAgent: clientInfo.userAgent,
         adminId,
         submissionId: id,
       });
 
-      logger.info('Submission deleted successfully', {
+      logger.info('Submission moved to trash', {
         submissionId: id,
         adminId,
         teamName: submission.teamName,
@@ -347,9 +543,181 @@ export class SubmissionService {
   }
 
   /**
-   * Get submission statistics
+   * List deleted submissions of an event with the date they will be purged
    */
-  static async getSubmissionStats(): Promise<ServiceResponse<{
+  static async getTrash(
+    eventId: string,
+    params: { page?: number; limit?: number }
+  ): Promise<ServiceResponse<{
+    submissions: TrashedSubmission[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }>> {
+    try {
+      const { page = 1, limit = 20 } = params;
+      const where = { eventId, deletedAt: { not: null } };
+
+      const [submissions, total] = await Promise.all([
+        prisma.submission.findMany({
+          where,
+          orderBy: { deletedAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+          include: {
+            ...MEMBERS_INCLUDE,
+            deletedBy: { select: { id: true, name: true, email: true } },
+          },
+        }),
+        prisma.submission.count({ where }),
+      ]);
+
+      return {
+        success: true,
+        data: {
+          submissions: submissions.map(submission => ({
+            ...submission,
+            purgeAt: this.getPurgeDate(submission.deletedAt!),
+          })),
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to get deleted submissions', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        eventId,
+        params,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve deleted submissions',
+      };
+    }
+  }
+
+  /**
+   * Restore a submission from the trash
+   */
+  static async restoreSubmission(
+    eventId: string,
+    id: string,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<Submission>> {
+    try {
+      const submission = await prisma.submission.findFirst({
+        where: { id, eventId, deletedAt: { not: null } },
+      });
+
+      if (!submission) {
+        return {
+          success: false,
+          error: 'Deleted submission not found',
+        };
+      }
+
+      const restoredSubmission = await prisma.submission.update({
+        where: { id },
+        data: {
+          deletedAt: null,
+          deletedById: null,
+        },
+      });
+
+      await AuditService.createAuditLog({
+        action: 'RESTORE',
+        entityType: 'submission',
+        entityId: id,
+        oldValues: { deletedAt: submission.deletedAt, deletedById: submission.deletedById },
+        newValues: { deletedAt: null },
+        description: `Submission restored from trash by admin`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+        submissionId: id,
+      });
+
+      logger.info('Submission restored from trash', {
+        submissionId: id,
+        adminId,
+        teamName: submission.teamName,
+      });
+
+      return {
+        success: true,
+        data: restoredSubmission,
+      };
+    } catch (error) {
+      logger.error('Failed to restore submission', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to restore submission',
+      };
+    }
+  }
+
+  /**
+   * Permanently delete submissions that have been in the trash longer than the retention period.
+   * Their audit logs are kept; the purge itself is logged as a system action.
+   */
+  static async purgeDeletedSubmissions(now: Date = new Date()): Promise<ServiceResponse<number>> {
+    try {
+      const cutoff = new Date(now.getTime() - config.trash.retentionDays * 24 * 60 * 60 * 1000);
+
+      const expired = await prisma.submission.findMany({
+        where: { deletedAt: { lt: cutoff } },
+      });
+
+      for (const submission of expired) {
+        await prisma.submission.delete({ where: { id: submission.id } });
+
+        await AuditService.createAuditLog({
+          action: 'PURGE',
+          entityType: 'submission',
+          entityId: submission.id,
+          oldValues: submission,
+          description: `Submission purged after ${config.trash.retentionDays} days in trash`,
+          actor: { type: 'system' },
+        });
+      }
+
+      if (expired.length > 0) {
+        logger.info('Purged deleted submissions', {
+          count: expired.length,
+          retentionDays: config.trash.retentionDays,
+        });
+      }
+
+      return {
+        success: true,
+        data: expired.length,
+      };
+    } catch (error) {
+      logger.error('Failed to purge deleted submissions', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to purge deleted submissions',
+      };
+    }
+  }
+
+  /**
+   * Get submission statistics for an event
+   */
+  static async getSubmissionStats(eventId: string): Promise<ServiceResponse<{
     total: number;
     pending: number;
     underReview: number;
@@ -379,15 +747,18 @@ export class SubmissionService {
         submissionsThisWeek,
         submissionsThisMonth,
       ] = await Promise.all([
-        prisma.submission.count(),
+        prisma.submission.count({ where: { eventId, deletedAt: null } }),
         prisma.submission.groupBy({
           by: ['status'],
+          where: { eventId, deletedAt: null },
           _count: {
             status: true,
           },
         }),
         prisma.submission.count({
           where: {
+            eventId,
+            deletedAt: null,
             submittedAt: {
               gte: today,
             },
@@ -395,6 +766,8 @@ export class SubmissionService {
         }),
         prisma.submission.count({
           where: {
+            eventId,
+            deletedAt: null,
             submittedAt: {
               gte: thisWeek,
             },
@@ -402,6 +775,8 @@ export class SubmissionService {
         }),
         prisma.submission.count({
           where: {
+            eventId,
+            deletedAt: null,
             submittedAt: {
               gte: thisMonth,
             },
@@ -431,6 +806,7 @@ export class SubmissionService {
     } catch (error) {
       logger.error('Failed to get submission statistics', {
         error: error instanceof Error ? error.message : 'Unknown error',
+        eventId,
       });
 
       return {
@@ -441,14 +817,17 @@ export class SubmissionService {
   }
 
   /**
-   * Bulk update submission status
+   * Bulk update submission status within an event.
+   * Each submission is checked against the status workflow; illegal transitions are reported per item.
    */
   static async bulkUpdateStatus(
+    eventId: string,
     submissionIds: string[],
     status: SubmissionStatus,
     adminId: string,
-    clientInfo: { ipAddress: string; userAgent: string }
-  ): Promise<ServiceResponse<number>> {
+    clientInfo: { ipAddress: string; userAgent: string },
+    reason?: string
+  ): Promise<ServiceResponse<BulkStatusUpdateResult>> {
     try {
       // Get current submissions
       const submissions = await prisma.submission.findMany({
@@ -456,44 +835,82 @@ export class SubmissionService {
           id: {
             in: submissionIds,
           },
+          eventId,
+          deletedAt: null,
         },
       });
 
-      if (submissions.length === 0) {
-        return {
-          success: false,
-          error: 'No submissions found',
-        };
-      }
+      const submissionMap = new Map(submissions.map(submission => [submission.id, submission]));
 
-      // Update submissions
-      const result = await prisma.submission.updateMany({
-        where: {
-          id: {
-            in: submissionIds,
-          },
-        },
-        data: {
-          status,
-          updatedAt: new Date(),
-        },
+      const results: BulkStatusUpdateItem[] = [...new Set(submissionIds)].map(submissionId => {
+        const submission = submissionMap.get(submissionId);
+
+        if (!submission) {
+          return { submissionId, success: false, changed: false, error: 'Submission not found' };
+        }
+
+        if (submission.status === status) {
+          return { submissionId, success: true, changed: false, previousStatus: submission.status };
+        }
+
+        const transitionError = StatusWorkflow.validateTransition(submission.status, status, reason);
+
+        return transitionError
+          ? { submissionId, success: false, changed: false, previousStatus: submission.status, error: transitionError }
+          : { submissionId, success: true, changed: true, previousStatus: submission.status };
       });
 
+      const changedIds = results.filter(item => item.changed).map(item => item.submissionId);
+
+      // Update allowed submissions and record a revision for each
+      if (changedIds.length > 0) {
+        await prisma.$transaction(async tx => {
+          await tx.submission.updateMany({
+            where: {
+              id: {
+                in: changedIds,
+              },
+            },
+            data: {
+              status,
+              updatedAt: new Date(),
+            },
+          });
+
+          const changed = await tx.submission.findMany({
+            where: {
+              id: {
+                in: changedIds,
+              },
+            },
+            include: MEMBERS_INCLUDE,
+          });
+
+          for (const submission of changed) {
+            await RevisionService.recordRevision(tx, submission, { type: 'admin', id: adminId });
+          }
+        });
+      }
+
       // Log status changes for each submission
-      for (const submission of submissions) {
-        if (submission.status !== status) {
-          await AuditService.logStatusChange(
-            submission.id,
-            submission.status,
-            status,
-            adminId,
-            clientInfo
-          );
-        }
+      for (const item of results.filter(result => result.changed)) {
+        await AuditService.logStatusChange(
+          item.submissionId,
+          item.previousStatus!,
+          status,
+          adminId,
+          clientInfo,
+          undefined,
+          reason
+        );
       }
 
+      const failedCount = results.filter(item => !item.success).length;
+
       logger.info('Bulk status update completed', {
-        count: result.count,
+        eventId,
+        count: changedIds.length,
+        failedCount,
         status,
         adminId,
         submissionIds,
@@ -501,7 +918,11 @@ export class SubmissionService {
 
       return {
         success: true,
-        data: result.count,
+        data: {
+          updatedCount: changedIds.length,
+          failedCount,
+          results,
+        },
       };
     } catch (error) {
       logger.error('Failed to bulk update status', {
@@ -517,4 +938,32 @@ export class SubmissionService {
       };
     }
   }
+
+  /**
+   * Date a deleted submission will be purged
+   */
+  static getPurgeDate(deletedAt: Date): Date {
+    return new Date(deletedAt.getTime() + config.trash.retentionDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Where clause shared by the submission list and export
+   */
+  private static buildListFilter(
+    eventId: string,
+    filters: Pick<SubmissionQueryParams, 'status' | 'search'>
+  ): Prisma.SubmissionWhereInput {
+    return {
+      eventId,
+      deletedAt: null,
+      ...(filters.status && { status: filters.status }),
+      ...(filters.search && {
+        OR: [
+          { teamName: { contains: filters.search, mode: 'insensitive' } },
+          { teamLeader: { contains: filters.search, mode: 'insensitive' } },
+          { email: { contains: filters.search, mode: 'insensitive' } },
+        ],
+      }),
+    };
+  }
 }
@@ -0,0 +1,101 @@
+import { Prisma, TeamMember, TeamRole } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { config } from '../config/config';
+import { TeamMemberInput } from '../types';
+
+export interface TeamMemberSnapshot {
+  name: string;
+  email: string;
+  role: TeamRole;
+  githubHandle: string | null;
+}
+
+export type TeamMemberRow = Omit<Prisma.TeamMemberCreateManyInput, 'submissionId' | 'eventId'>;
+
+export class TeamService {
+  /**
+   * Build the member rows of a team, with the team leader first
+   */
+  static buildMembers(
+    leader: { name: string; email: string },
+    members: TeamMemberInput[] = []
+  ): TeamMemberRow[] {
+    return [
+      { name: leader.name, email: leader.email, role: 'LEADER' },
+      ...members.map(member => ({
+        name: member.name,
+        email: member.email,
+        role: 'MEMBER' as TeamRole,
+        githubHandle: member.githubHandle || null,
+      })),
+    ];
+  }
+
+  /**
+   * Check team size, duplicate emails, and that nobody is already on another team of the event.
+   * Returns the reason the team is invalid, or null.
+   */
+  static async validateTeam(
+    eventId: string,
+    members: TeamMemberRow[],
+    excludeSubmissionId?: string
+  ): Promise<string | null> {
+    if (members.length < config.teams.minSize || members.length > config.teams.maxSize) {
+      return `Teams must have between ${config.teams.minSize} and ${config.teams.maxSize} people including the team leader`;
+    }
+
+    const emails = members.map(member => member.email);
+
+    if (new Set(emails).size !== emails.length) {
+      return 'Each team member must have a different email address';
+    }
+
+    const conflicts = await prisma.teamMember.findMany({
+      where: {
+        eventId,
+        email: { in: emails },
+        ...(excludeSubmissionId && { submissionId: { not: excludeSubmissionId } }),
+      },
+      select: { email: true },
+    });
+
+    if (conflicts.length > 0) {
+      logger.warn('Team member already belongs to another team', {
+        eventId,
+        emails: conflicts.map(conflict => conflict.email),
+      });
+
+      return 'One or more team members already belong to another team in this event';
+    }
+
+    return null;
+  }
+
+  /**
+   * Replace all members of a submission inside a transaction
+   */
+  static async replaceMembers(
+    tx: Prisma.TransactionClient,
+    submissionId: string,
+    eventId: string,
+    members: TeamMemberRow[]
+  ): Promise<void> {
+    await tx.teamMember.deleteMany({ where: { submissionId } });
+    await tx.teamMember.createMany({
+      data: members.map(member => ({ ...member, submissionId, eventId })),
+    });
+  }
+
+  /**
+   * Reduce members to the fields recorded in audit log diffs
+   */
+  static snapshot(members: TeamMember[]): TeamMemberSnapshot[] {
+    return members.map(member => ({
+      name: member.name,
+      email: member.email,
+      role: member.role,
+      githubHandle: member.githubHandle,
+    }));
+  }
+}
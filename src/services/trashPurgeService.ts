@@ -0,0 +1,71 @@
+import cron from 'node-cron';
+import { logger } from '../config/logger';
+import { config } from '../config/config';
+import { SubmissionService } from './submissionService';
+
+/**
+ * Scheduled purge of submissions that stayed in the trash longer than the retention period
+ * Runs once a day at 03:00 UTC
+ */
+export class TrashPurgeService {
+  private static instance: TrashPurgeService;
+  private cronJob: cron.ScheduledTask | null = null;
+  private isRunning = false;
+
+  private constructor() {}
+
+  static getInstance(): TrashPurgeService {
+    if (!TrashPurgeService.instance) {
+      TrashPurgeService.instance = new TrashPurgeService();
+    }
+    return TrashPurgeService.instance;
+  }
+
+  /**
+   * Start the daily purge cron job
+   */
+  start(): void {
+    if (this.isRunning) {
+      logger.warn('Trash purge service is already running');
+      return;
+    }
+
+    this.cronJob = cron.schedule('0 3 * * *', async () => {
+      await this.purge();
+    }, {
+      scheduled: false,
+      name: 'trash-purge',
+      timezone: 'UTC'
+    });
+
+    this.cronJob.start();
+    this.isRunning = true;
+
+    logger.info(`Trash purge service started - purging submissions deleted over ${config.trash.retentionDays} days ago`);
+  }
+
+  /**
+   * Stop the trash purge service
+   */
+  stop(): void {
+    if (this.cronJob) {
+      this.cronJob.stop();
+      this.cronJob = null;
+    }
+    this.isRunning = false;
+    logger.info('Trash purge service stopped');
+  }
+
+  /**
+   * Purge expired submissions now
+   */
+  async purge(): Promise<void> {
+    const result = await SubmissionService.purgeDeletedSubmissions();
+
+    if (!result.success) {
+      logger.error('Scheduled trash purge failed', { error: result.error });
+    }
+  }
+}
+
+export const trashPurgeService = TrashPurgeService.getInstance();
@@ -0,0 +1,92 @@
+import { Admin } from '@prisma/client';
+import { prisma } from '../config/database';
+import { TOTPUtils } from '../utils/totp';
+import { TwoFactorService } from './twoFactorService';
+
+jest.mock('../config/database', () => ({
+  prisma: {
+    admin: { updateMany: jest.fn() },
+    twoFactorRecoveryCode: { updateMany: jest.fn() },
+  },
+}));
+
+const adminUpdateMany = prisma.admin.updateMany as jest.Mock;
+const recoveryUpdateMany = prisma.twoFactorRecoveryCode.updateMany as jest.Mock;
+
+// RFC 6238 test secret; its code at 1111111109 seconds is 081804
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const NOW = 1111111109 * 1000;
+const STEP = Math.floor(NOW / 1000 / 30);
+
+const buildAdmin = (overrides: Partial<Admin> = {}): Admin => ({
+  id: 'admin-1',
+  twoFactorSecret: TOTPUtils.encryptSecret(SECRET),
+  twoFactorEnabledAt: new Date(),
+  twoFactorLastStep: null,
+  ...overrides,
+} as Admin);
+
+describe('TwoFactorService.verifyLogin', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('accepts a valid code and claims its time step', async () => {
+    adminUpdateMany.mockResolvedValue({ count: 1 });
+
+    await expect(TwoFactorService.verifyLogin(buildAdmin(), { code: '081804' }))
+      .resolves.toEqual({ valid: true, method: 'totp' });
+
+    expect(adminUpdateMany).toHaveBeenCalledWith({
+      where: {
+        id: 'admin-1',
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: STEP } }],
+      },
+      data: { twoFactorLastStep: STEP },
+    });
+  });
+
+  it('rejects a replayed code whose time step was already claimed', async () => {
+    adminUpdateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+    const admin = buildAdmin();
+
+    await expect(TwoFactorService.verifyLogin(admin, { code: '081804' })).resolves.toEqual({ valid: true, method: 'totp' });
+    await expect(TwoFactorService.verifyLogin(admin, { code: '081804' })).resolves.toEqual({ valid: false });
+  });
+
+  it('rejects a wrong code without claiming anything', async () => {
+    await expect(TwoFactorService.verifyLogin(buildAdmin(), { code: '000000' })).resolves.toEqual({ valid: false });
+
+    expect(adminUpdateMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects codes when two-factor authentication is off', async () => {
+    const admin = buildAdmin({ twoFactorEnabledAt: null });
+
+    await expect(TwoFactorService.verifyLogin(admin, { code: '081804' })).resolves.toEqual({ valid: false });
+    expect(adminUpdateMany).not.toHaveBeenCalled();
+  });
+
+  it('accepts an unused recovery code only once', async () => {
+    recoveryUpdateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+    const admin = buildAdmin();
+
+    await expect(TwoFactorService.verifyLogin(admin, { recoveryCode: 'ABCD-1234-ef56' }))
+      .resolves.toEqual({ valid: true, method: 'recovery_code' });
+    await expect(TwoFactorService.verifyLogin(admin, { recoveryCode: 'abcd-1234-ef56' }))
+      .resolves.toEqual({ valid: false });
+
+    expect(recoveryUpdateMany).toHaveBeenLastCalledWith({
+      where: {
+        adminId: 'admin-1',
+        codeHash: TOTPUtils.hashRecoveryCode('abcd1234ef56'),
+        usedAt: null,
+      },
+      data: { usedAt: expect.any(Date) },
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import { Admin } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { config } from '../config/config';
+import { ServiceResponse, TwoFactorSetupResponse } from '../types';
+import { PasswordUtils } from '../utils/password';
+import { TOTPUtils } from '../utils/totp';
+import { AuditService } from './auditService';
+
+export class TwoFactorService {
+  /**
+   * Check whether admins with this role must use two-factor authentication
+   */
+  static isRequired(role: string): boolean {
+    return config.twoFactor.requiredRoles.includes(role);
+  }
+
+  /**
+   * Start enrollment by generating a new secret.
+   * 2FA stays off until a code from the authenticator app is confirmed with enable.
+   */
+  static async startEnrollment(adminId: string): Promise<ServiceResponse<TwoFactorSetupResponse>> {
+    try {
+      const admin = await prisma.admin.findUnique({ where: { id: adminId } });
+
+      if (!admin) {
+        return {
+          success: false,
+          error: 'Admin not found',
+        };
+      }
+
+      if (admin.twoFactorEnabledAt) {
+        return {
+          success: false,
+          error: 'Two-factor authentication is already enabled',
+        };
+      }
+
+      const secret = TOTPUtils.generateSecret();
+
+      await prisma.admin.update({
+        where: { id: adminId },
+        data: { twoFactorSecret: TOTPUtils.encryptSecret(secret), twoFactorLastStep: null },
+      });
+
+      return {
+        success: true,
+        data: {
+          secret,
+          otpauthUri: TOTPUtils.getProvisioningUri(secret, admin.email),
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to start two-factor enrollment', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to start two-factor enrollment',
+      };
+    }
+  }
+
+  /**
+   * Turn on 2FA once the first code checks out, and issue recovery codes.
+   * The plain recovery codes are only returned here.
+   */
+  static async enable(
+    adminId: string,
+    code: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<{ recoveryCodes: string[] }>> {
+    try {
+      const admin = await prisma.admin.findUnique({ where: { id: adminId } });
+
+      if (!admin) {
+        return {
+          success: false,
+          error: 'Admin not found',
+        };
+      }
+
+      if (admin.twoFactorEnabledAt) {
+        return {
+          success: false,
+          error: 'Two-factor authentication is already enabled',
+        };
+      }
+
+      if (!admin.twoFactorSecret) {
+        return {
+          success: false,
+          error: 'Two-factor enrollment has not been started',
+        };
+      }
+
+      const step = TOTPUtils.verify(TOTPUtils.decryptSecret(admin.twoFactorSecret), code);
+
+      if (step === null) {
+        return {
+          success: false,
+          error: 'Invalid two-factor code',
+        };
+      }
+
+      const recoveryCodes = TOTPUtils.generateRecoveryCodes(config.twoFactor.recoveryCodeCount);
+
+      await prisma.$transaction([
+        prisma.admin.update({
+          where: { id: adminId },
+          data: { twoFactorEnabledAt: new Date(), twoFactorLastStep: step },
+        }),
+        prisma.twoFactorRecoveryCode.deleteMany({ where: { adminId } }),
+        prisma.twoFactorRecoveryCode.createMany({
+          data: recoveryCodes.map(recoveryCode => ({
+            adminId,
+            codeHash: TOTPUtils.hashRecoveryCode(recoveryCode),
+          })),
+        }),
+      ]);
+
+      await AuditService.createAuditLog({
+        action: 'UPDATE',
+        entityType: 'admin',
+        entityId: adminId,
+        newValues: { twoFactorEnabled: true },
+        description: `Two-factor authentication enabled for ${admin.email}`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      return {
+        success: true,
+        data: { recoveryCodes },
+      };
+    } catch (error) {
+      logger.error('Failed to enable two-factor authentication', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to enable two-factor authentication',
+      };
+    }
+  }
+
+  /**
+   * Turn off 2FA after confirming the password (Admin only).
+   * Not allowed for roles that require 2FA.
+   */
+  static async disable(
+    adminId: string,
+    password: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<boolean>> {
+    try {
+      const admin = await prisma.admin.findUnique({ where: { id: adminId } });
+
+      if (!admin) {
+        return {
+          success: false,
+          error: 'Admin not found',
+        };
+      }
+
+      if (!(await PasswordUtils.comparePassword(password, admin.password))) {
+        logger.warn('Invalid password while disabling two-factor authentication', {
+          adminId,
+          ip: clientInfo.ipAddress,
+        });
+
+        return {
+          success: false,
+          error: 'Password is incorrect',
+        };
+      }
+
+      if (!admin.twoFactorEnabledAt) {
+        return {
+          success: false,
+          error: 'Two-factor authentication is not enabled',
+        };
+      }
+
+      if (this.isRequired(admin.role)) {
+        return {
+          success: false,
+          error: 'Two-factor authentication is required for your role',
+        };
+      }
+
+      await prisma.$transaction([
+        prisma.admin.update({
+          where: { id: adminId },
+          data: { twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastStep: null },
+        }),
+        prisma.twoFactorRecoveryCode.deleteMany({ where: { adminId } }),
+      ]);
+
+      await AuditService.createAuditLog({
+        action: 'UPDATE',
+        entityType: 'admin',
+        entityId: adminId,
+        oldValues: { twoFactorEnabled: true },
+        newValues: { twoFactorEnabled: false },
+        description: `Two-factor authentication disabled for ${admin.email}`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      logger.error('Failed to disable two-factor authentication', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to disable two-factor authentication',
+      };
+    }
+  }
+
+  /**
+   * Check the second factor of a login: an authenticator code or an unused recovery code.
+   * Each code is accepted only once.
+   */
+  static async verifyLogin(
+    admin: Admin,
+    credentials: { code?: string; recoveryCode?: string }
+  ): Promise<{ valid: boolean; method?: 'totp' | 'recovery_code' }> {
+    if (!admin.twoFactorEnabledAt || !admin.twoFactorSecret) {
+      return { valid: false };
+    }
+
+    if (credentials.code) {
+      const step = TOTPUtils.verify(TOTPUtils.decryptSecret(admin.twoFactorSecret), credentials.code);
+
+      if (step === null) {
+        return { valid: false };
+      }
+
+      // Claim the time step so the same code cannot be replayed, even by a concurrent request
+      const { count } = await prisma.admin.updateMany({
+        where: {
+          id: admin.id,
+          OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+        },
+        data: { twoFactorLastStep: step },
+      });
+
+      return count === 1 ? { valid: true, method: 'totp' } : { valid: false };
+    }
+
+    if (credentials.recoveryCode) {
+      const { count } = await prisma.twoFactorRecoveryCode.updateMany({
+        where: {
+          adminId: admin.id,
+          codeHash: TOTPUtils.hashRecoveryCode(credentials.recoveryCode),
+          usedAt: null,
+        },
+        data: { usedAt: new Date() },
+      });
+
+      return count === 1 ? { valid: true, method: 'recovery_code' } : { valid: false };
+    }
+
+    return { valid: false };
+  }
+}
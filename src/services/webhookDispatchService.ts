@@ -0,0 +1,83 @@
+import cron from 'node-cron';
+import { logger } from '../config/logger';
+import { WebhookService } from './webhookService';
+
+/**
+ * Scheduled delivery of queued webhooks, including retries of failed attempts
+ * Runs every minute
+ */
+export class WebhookDispatchService {
+  private static instance: WebhookDispatchService;
+  private cronJob: cron.ScheduledTask | null = null;
+  private isRunning = false;
+  private isDispatching = false;
+
+  private constructor() {}
+
+  static getInstance(): WebhookDispatchService {
+    if (!WebhookDispatchService.instance) {
+      WebhookDispatchService.instance = new WebhookDispatchService();
+    }
+    return WebhookDispatchService.instance;
+  }
+
+  /**
+   * Start the dispatch cron job
+   */
+  start(): void {
+    if (this.isRunning) {
+      logger.warn('Webhook dispatch service is already running');
+      return;
+    }
+
+    this.cronJob = cron.schedule('* * * * *', async () => {
+      await this.dispatch();
+    }, {
+      scheduled: false,
+      name: 'webhook-dispatch',
+      timezone: 'UTC'
+    });
+
+    this.cronJob.start();
+    this.isRunning = true;
+
+    logger.info('Webhook dispatch service started - delivering queued webhooks every minute');
+  }
+
+  /**
+   * Stop the webhook dispatch service
+   */
+  stop(): void {
+    if (this.cronJob) {
+      this.cronJob.stop();
+      this.cronJob = null;
+    }
+    this.isRunning = false;
+    logger.info('Webhook dispatch service stopped');
+  }
+
+  /**
+   * Deliver due webhooks now. Skipped while a previous run is still going.
+   */
+  async dispatch(): Promise<void> {
+    if (this.isDispatching) {
+      return;
+    }
+
+    this.isDispatching = true;
+
+    try {
+      const result = await WebhookService.processDue();
+
+      if (!result.success) {
+        logger.error('Scheduled webhook dispatch failed', { error: result.error });
+      } else if (result.data!.succeeded > 0 || result.data!.failed > 0) {
+        logger.info('Webhook dispatch completed', result.data);
+      }
+    } finally {
+      this.isDispatching = false;
+    }
+  }
+}
+
+export const webhookDispatchService = WebhookDispatchService.getInstance();
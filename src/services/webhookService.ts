@@ -0,0 +1,565 @@
+import {
+  AuditLog,
+  Prisma,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookSubscription,
+} from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { config } from '../config/config';
+import {
+  CreateWebhookRequest,
+  ServiceResponse,
+  UpdateWebhookRequest,
+  WebhookPayload,
+} from '../types';
+import { WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER, WebhookUtils } from '../utils/webhook';
+import { AuditService } from './auditService';
+
+// The signing secret is only returned when it is set
+export type PublicWebhookSubscription = Omit<WebhookSubscription, 'secret'>;
+
+type DeliveryWithSubscription = WebhookDelivery & { subscription: WebhookSubscription };
+
+// Deliveries are leased for this long while a request is in flight
+const DELIVERY_LEASE_MS = 5 * 60 * 1000;
+const BATCH_SIZE = 50;
+// Only the start of the receiver's error response is kept
+const MAX_ERROR_LENGTH = 500;
+
+export class WebhookService {
+  /**
+   * List webhook subscriptions (Admin only)
+   */
+  static async getSubscriptions(): Promise<ServiceResponse<PublicWebhookSubscription[]>> {
+    try {
+      const subscriptions = await prisma.webhookSubscription.findMany({
+        orderBy: { createdAt: 'asc' },
+      });
+
+      return {
+        success: true,
+        data: subscriptions.map(subscription => this.toPublic(subscription)),
+      };
+    } catch (error) {
+      logger.error('Failed to get webhook subscriptions', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve webhooks',
+      };
+    }
+  }
+
+  /**
+   * Get a webhook subscription (Admin only)
+   */
+  static async getSubscriptionById(id: string): Promise<ServiceResponse<PublicWebhookSubscription>> {
+    try {
+      const subscription = await prisma.webhookSubscription.findUnique({ where: { id } });
+
+      if (!subscription) {
+        return {
+          success: false,
+          error: 'Webhook not found',
+        };
+      }
+
+      return {
+        success: true,
+        data: this.toPublic(subscription),
+      };
+    } catch (error) {
+      logger.error('Failed to get webhook subscription', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve webhook',
+      };
+    }
+  }
+
+  /**
+   * Create a webhook subscription (Admin only).
+   * The response includes the signing secret; it is not shown again.
+   */
+  static async createSubscription(
+    data: CreateWebhookRequest,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<WebhookSubscription>> {
+    try {
+      const subscription = await prisma.webhookSubscription.create({
+        data: {
+          url: data.url,
+          secret: data.secret || WebhookUtils.generateSecret(),
+          eventTypes: data.eventTypes,
+          description: data.description,
+          isActive: data.isActive ?? true,
+          createdById: adminId,
+        },
+      });
+
+      await AuditService.createAuditLog({
+        action: 'CREATE',
+        entityType: 'webhook',
+        entityId: subscription.id,
+        newValues: this.toAuditValues(subscription),
+        description: `Webhook created for ${subscription.url}`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      logger.info('Webhook subscription created', {
+        webhookId: subscription.id,
+        eventTypes: subscription.eventTypes,
+        adminId,
+      });
+
+      return {
+        success: true,
+        data: subscription,
+      };
+    } catch (error) {
+      logger.error('Failed to create webhook subscription', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        url: data.url,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to create webhook',
+      };
+    }
+  }
+
+  /**
+   * Update a webhook subscription (Admin only)
+   */
+  static async updateSubscription(
+    id: string,
+    data: UpdateWebhookRequest,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<PublicWebhookSubscription>> {
+    try {
+      const existing = await prisma.webhookSubscription.findUnique({ where: { id } });
+
+      if (!existing) {
+        return {
+          success: false,
+          error: 'Webhook not found',
+        };
+      }
+
+      const subscription = await prisma.webhookSubscription.update({
+        where: { id },
+        data: {
+          url: data.url,
+          secret: data.secret,
+          eventTypes: data.eventTypes,
+          description: data.description,
+          isActive: data.isActive,
+        },
+      });
+
+      await AuditService.createAuditLog({
+        action: 'UPDATE',
+        entityType: 'webhook',
+        entityId: id,
+        oldValues: this.toAuditValues(existing),
+        newValues: {
+          ...this.toAuditValues(subscription),
+          ...(data.secret && { secretRotated: true }),
+        },
+        description: `Webhook for ${subscription.url} updated`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      return {
+        success: true,
+        data: this.toPublic(subscription),
+      };
+    } catch (error) {
+      logger.error('Failed to update webhook subscription', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to update webhook',
+      };
+    }
+  }
+
+  /**
+   * Delete a webhook subscription and its delivery log (Admin only)
+   */
+  static async deleteSubscription(
+    id: string,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<boolean>> {
+    try {
+      const existing = await prisma.webhookSubscription.findUnique({ where: { id } });
+
+      if (!existing) {
+        return {
+          success: false,
+          error: 'Webhook not found',
+        };
+      }
+
+      await prisma.webhookSubscription.delete({ where: { id } });
+
+      await AuditService.createAuditLog({
+        action: 'DELETE',
+        entityType: 'webhook',
+        entityId: id,
+        oldValues: this.toAuditValues(existing),
+        description: `Webhook for ${existing.url} deleted`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      logger.error('Failed to delete webhook subscription', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to delete webhook',
+      };
+    }
+  }
+
+  /**
+   * Get the delivery log of a subscription, newest first (Admin only)
+   */
+  static async getDeliveries(
+    subscriptionId: string,
+    params: { status?: WebhookDeliveryStatus; page?: number; limit?: number }
+  ): Promise<ServiceResponse<{ deliveries: WebhookDelivery[]; total: number; page: number; limit: number }>> {
+    try {
+      const { status, page = 1, limit = 20 } = params;
+
+      const subscription = await prisma.webhookSubscription.findUnique({
+        where: { id: subscriptionId },
+        select: { id: true },
+      });
+
+      if (!subscription) {
+        return {
+          success: false,
+          error: 'Webhook not found',
+        };
+      }
+
+      const where: Prisma.WebhookDeliveryWhereInput = {
+        subscriptionId,
+        ...(status && { status }),
+      };
+
+      const [deliveries, total] = await Promise.all([
+        prisma.webhookDelivery.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.webhookDelivery.count({ where }),
+      ]);
+
+      return {
+        success: true,
+        data: { deliveries, total, page, limit },
+      };
+    } catch (error) {
+      logger.error('Failed to get webhook deliveries', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        subscriptionId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve webhook deliveries',
+      };
+    }
+  }
+
+  /**
+   * Send an earlier delivery again as a new delivery (Admin only).
+   * The original entry stays in the log unchanged.
+   */
+  static async redeliver(
+    subscriptionId: string,
+    deliveryId: string,
+    adminId: string,
+    clientInfo: { ipAddress: string; userAgent: string }
+  ): Promise<ServiceResponse<WebhookDelivery>> {
+    try {
+      const original = await prisma.webhookDelivery.findFirst({
+        where: { id: deliveryId, subscriptionId },
+      });
+
+      if (!original) {
+        return {
+          success: false,
+          error: 'Webhook delivery not found',
+        };
+      }
+
+      const delivery = await prisma.webhookDelivery.create({
+        data: {
+          subscriptionId,
+          eventType: original.eventType,
+          eventId: original.eventId,
+          payload: original.payload as Prisma.InputJsonValue,
+        },
+        include: { subscription: true },
+      });
+
+      await AuditService.createAuditLog({
+        action: 'CREATE',
+        entityType: 'webhook_delivery',
+        entityId: delivery.id,
+        newValues: { redeliveryOf: original.id, eventType: original.eventType, eventId: original.eventId },
+        description: `Webhook delivery ${original.id} redelivered`,
+        ipAddress: clientInfo.ipAddress,
+        userAgent: clientInfo.userAgent,
+        adminId,
+      });
+
+      await this.deliver(delivery);
+
+      const updated = await prisma.webhookDelivery.findUniqueOrThrow({ where: { id: delivery.id } });
+
+      return {
+        success: true,
+        data: updated,
+      };
+    } catch (error) {
+      logger.error('Failed to redeliver webhook', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        subscriptionId,
+        deliveryId,
+        adminId,
+      });
+
+      return {
+        success: false,
+        error: 'Failed to redeliver webhook',
+      };
+    }
+  }
+
+  /**
+   * Queue deliveries for the webhook event an audit log entry represents.
+   * Called for every audit log entry; entries without a matching event are ignored.
+   */
+  static async emit(auditLog: AuditLog): Promise<void> {
+    const eventType = WebhookUtils.getEventType(auditLog.action, auditLog.entityType);
+
+    if (!eventType) {
+      return;
+    }
+
+    try {
+      const subscriptions = await prisma.webhookSubscription.findMany({
+        where: { isActive: true, eventTypes: { has: eventType } },
+      });
+
+      if (subscriptions.length === 0) {
+        return;
+      }
+
+      const payload: WebhookPayload = {
+        id: auditLog.id,
+        type: eventType,
+        createdAt: auditLog.createdAt.toISOString(),
+        data: WebhookUtils.toEventData(auditLog),
+      };
+
+      for (const subscription of subscriptions) {
+        const delivery = await prisma.webhookDelivery.create({
+          data: {
+            subscriptionId: subscription.id,
+            eventType,
+            eventId: auditLog.id,
+            payload: payload as unknown as Prisma.InputJsonValue,
+          },
+        });
+
+        // Deliver in the background; failures are picked up by the dispatcher
+        this.deliver({ ...delivery, subscription }).catch(error => {
+          logger.error('Immediate webhook delivery failed', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+            deliveryId: delivery.id,
+          });
+        });
+      }
+    } catch (error) {
+      // Webhooks must never break the action that produced the event
+      logger.error('Failed to queue webhook deliveries', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        auditLogId: auditLog.id,
+        eventType,
+      });
+    }
+  }
+
+  /**
+   * Deliver due webhooks. Called by the dispatcher on a schedule.
+   */
+  static async processDue(now: Date = new Date()): Promise<ServiceResponse<{ succeeded: number; failed: number }>> {
+    try {
+      const due = await prisma.webhookDelivery.findMany({
+        where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: BATCH_SIZE,
+        include: { subscription: true },
+      });
+
+      let succeeded = 0;
+      let failed = 0;
+
+      for (const delivery of due) {
+        const delivered = await this.deliver(delivery);
+        if (delivered === true) succeeded++;
+        if (delivered === false) failed++;
+      }
+
+      return {
+        success: true,
+        data: { succeeded, failed },
+      };
+    } catch (error) {
+      logger.error('Failed to process webhook deliveries', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to process webhook deliveries',
+      };
+    }
+  }
+
+  /**
+   * POST one delivery to its subscription.
+   * Returns true on a 2xx response, false when the attempt failed, and null when another worker holds it.
+   */
+  private static async deliver(delivery: DeliveryWithSubscription): Promise<boolean | null> {
+    // Lease the delivery so the dispatcher and immediate sends never post it twice
+    const { count } = await prisma.webhookDelivery.updateMany({
+      where: { id: delivery.id, status: 'PENDING', nextAttemptAt: delivery.nextAttemptAt },
+      data: { nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS) },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let errorMessage: string | null = null;
+
+    if (!delivery.subscription.isActive) {
+      errorMessage = 'Webhook is disabled';
+    } else {
+      const body = JSON.stringify(delivery.payload);
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      try {
+        const response = await fetch(delivery.subscription.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'OpenEra-Webhooks/1.0',
+            'X-Openera-Event': delivery.eventType,
+            'X-Openera-Delivery': delivery.id,
+            [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+            [WEBHOOK_SIGNATURE_HEADER]: WebhookUtils.sign(delivery.subscription.secret, timestamp, body),
+          },
+          body,
+          signal: AbortSignal.timeout(config.webhooks.timeoutMs),
+        });
+
+        responseStatus = response.status;
+
+        if (!response.ok) {
+          const text = await response.text().catch(() => '');
+          errorMessage = `HTTP ${response.status}${text ? `: ${text.slice(0, MAX_ERROR_LENGTH)}` : ''}`;
+        }
+      } catch (error) {
+        errorMessage = error instanceof Error ? error.message : 'Request failed';
+      }
+    }
+
+    if (!errorMessage) {
+      await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'SUCCEEDED', attempts, responseStatus, lastError: null, deliveredAt: new Date() },
+      });
+
+      return true;
+    }
+
+    const exhausted = attempts >= config.webhooks.maxAttempts || !delivery.subscription.isActive;
+
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: exhausted ? 'FAILED' : 'PENDING',
+        attempts,
+        responseStatus,
+        lastError: errorMessage,
+        nextAttemptAt: new Date(Date.now() + config.webhooks.retryBaseDelayMs * 2 ** (attempts - 1)),
+      },
+    });
+
+    logger.warn('Webhook delivery failed', {
+      deliveryId: delivery.id,
+      webhookId: delivery.subscriptionId,
+      attempts,
+      exhausted,
+      error: errorMessage,
+    });
+
+    return false;
+  }
+
+  private static toPublic(subscription: WebhookSubscription): PublicWebhookSubscription {
+    const { secret: _secret, ...rest } = subscription;
+    return rest;
+  }
+
+  private static toAuditValues(subscription: WebhookSubscription): Record<string, unknown> {
+    return {
+      url: subscription.url,
+      eventTypes: subscription.eventTypes,
+      description: subscription.description,
+      isActive: subscription.isActive,
+    };
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Plain-text email templates for notifications.
+ * Placeholders use {{name}} and are replaced with the variables passed when rendering.
+ */
+export const NOTIFICATION_TEMPLATES = {
+  submission_confirmation: {
+    subject: 'We received your {{eventName}} submission',
+    text: [
+      'Hi {{teamLeader}},',
+      '',
+      'Thanks for submitting {{teamName}} to {{eventName}}. Your submission ID is {{submissionId}}.',
+      '{{lateNotice}}',
+      'We will email you when the status of your submission changes.',
+      '',
+      'The {{eventName}} team',
+    ].join('\n'),
+  },
+  status_changed: {
+    subject: 'Your {{eventName}} submission is now {{newStatus}}',
+    text: [
+      'Hi {{teamLeader}},',
+      '',
+      'The status of {{teamName}} changed from {{oldStatus}} to {{newStatus}}.',
+      '{{reason}}',
+      '',
+      'The {{eventName}} team',
+    ].join('\n'),
+  },
+  password_changed: {
+    subject: 'Your Open Era admin password was changed',
+    text: [
+      'Hi {{name}},',
+      '',
+      'The password of your admin account was changed at {{changedAt}} from IP address {{ipAddress}}.',
+      'All other sessions have been signed out.',
+      '',
+      'If you did not make this change, contact the organizers immediately.',
+    ].join('\n'),
+  },
+} as const;
+
+export type NotificationTemplate = keyof typeof NOTIFICATION_TEMPLATES;
+
+/**
+ * Render a template. Unknown placeholders are left empty.
+ */
+export const renderTemplate = (
+  template: NotificationTemplate,
+  variables: Record<string, string | number | null | undefined>
+): { subject: string; text: string } => {
+  const fill = (value: string): string =>
+    value.replace(/\{\{(\w+)\}\}/g, (_match, key: string) => String(variables[key] ?? ''));
+
+  return {
+    subject: fill(NOTIFICATION_TEMPLATES[template].subject),
+    text: fill(NOTIFICATION_TEMPLATES[template].text),
+  };
+};
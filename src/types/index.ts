@@ -1,11 +1,18 @@
 import { Request } from 'express';
-import { TokenPayload } from '../utils/jwt';
+import { Event, Submission } from '@prisma/client';
+import { ParticipantTokenPayload, TokenPayload, TwoFactorChallengePayload } from '../utils/jwt';
+import { ApiKeyScope, Permission } from '../utils/permissions';
 
 // Extend Express Request interface
 declare global {
   namespace Express {
     interface Request {
       admin?: TokenPayload;
+      participant?: ParticipantTokenPayload;
+      apiKey?: ApiKeyPrincipal;
+      twoFactorChallenge?: TwoFactorChallengePayload;
+      event?: Event;
+      submissionWindow?: SubmissionWindow;
       requestId?: string;
     }
   }
@@ -27,11 +34,78 @@ export interface ApiResponse<T = any> {
   timestamp: string;
 }
 
+// Participant self-service types
+export interface RequestMagicLinkRequest {
+  email: string;
+}
+
+export interface VerifyMagicLinkRequest {
+  token: string;
+}
+
+export interface ParticipantUpdateSubmissionRequest {
+  teamName?: string;
+  teamLeader?: string;
+  members?: TeamMemberInput[];
+  demoUrl?: string;
+  githubRepository?: string;
+  presentationLink?: string;
+}
+
+export interface ParticipantLoginResponse {
+  accessToken: string;
+  expiresIn: string;
+  submissionId: string;
+}
+
+// Event related types
+export interface CreateEventRequest {
+  name: string;
+  slug: string;
+  description?: string;
+  submissionOpensAt?: string;
+  submissionClosesAt?: string;
+  gracePeriodMinutes?: number;
+  status?: 'DRAFT' | 'OPEN' | 'CLOSED' | 'ARCHIVED';
+}
+
+export interface UpdateEventRequest {
+  name?: string;
+  description?: string;
+  submissionOpensAt?: string | null;
+  submissionClosesAt?: string | null;
+  gracePeriodMinutes?: number | null;
+  status?: 'DRAFT' | 'OPEN' | 'CLOSED' | 'ARCHIVED';
+}
+
+// Deadline related types
+export interface SubmissionWindow {
+  state: 'NOT_OPEN' | 'OPEN' | 'GRACE' | 'CLOSED';
+  opensAt: Date | null;
+  closesAt: Date | null;
+  extendedUntil: Date | null;
+  gracePeriodMinutes: number;
+  gracePeriodEndsAt: Date | null;
+}
+
+export interface GrantExtensionRequest {
+  email: string;
+  extendedUntil: string;
+  reason?: string;
+}
+
 // Submission related types
+export interface TeamMemberInput {
+  name: string;
+  email: string;
+  githubHandle?: string;
+}
+
 export interface CreateSubmissionRequest {
   teamName: string;
   teamLeader: string;
   email: string;
+  members?: TeamMemberInput[]; // Members besides the team leader
   demoUrl?: string;
   githubRepository?: string;
   presentationLink?: string;
@@ -42,9 +116,31 @@ export interface UpdateSubmissionRequest {
   teamLeader?: string;
   email?: string;
   status?: 'PENDING' | 'UNDER_REVIEW' | 'APPROVED' | 'REJECTED' | 'REQUIRES_CHANGES';
-  demoUrl?: string;
-  githubRepository?: string;
-  presentationLink?: string;
+  reason?: string; // Required when changing status to REJECTED or REQUIRES_CHANGES
+  members?: TeamMemberInput[]; // Replaces all members besides the team leader
+  demoUrl?: string | null;
+  githubRepository?: string | null;
+  presentationLink?: string | null;
+}
+
+export interface BulkStatusUpdateRequest {
+  submissionIds: string[];
+  status: 'PENDING' | 'UNDER_REVIEW' | 'APPROVED' | 'REJECTED' | 'REQUIRES_CHANGES';
+  reason?: string;
+}
+
+export interface BulkStatusUpdateItem {
+  submissionId: string;
+  success: boolean;
+  changed: boolean;
+  previousStatus?: string;
+  error?: string;
+}
+
+export interface BulkStatusUpdateResult {
+  updatedCount: number;
+  failedCount: number;
+  results: BulkStatusUpdateItem[];
 }
 
 export interface SubmissionQueryParams {
@@ -56,6 +152,245 @@ export interface SubmissionQueryParams {
   search?: string;
 }
 
+// Submission import types
+export type ImportDuplicateStrategy = 'skip' | 'merge';
+
+export interface ImportSubmissionsOptions {
+  dryRun: boolean;
+  onDuplicate: ImportDuplicateStrategy;
+}
+
+export interface ImportRowResult {
+  row: number; // 1-based, not counting the CSV header
+  email?: string;
+  action: 'create' | 'merge' | 'skip' | 'error';
+  submissionId?: string; // Set once the row has been committed, or for skipped duplicates
+  errors?: string[];
+}
+
+export interface ImportSubmissionsResult {
+  batchId: string;
+  dryRun: boolean;
+  total: number;
+  created: number;
+  merged: number;
+  skipped: number;
+  failed: number;
+  rows: ImportRowResult[];
+}
+
+// Judging related types
+export interface RubricCriterionInput {
+  name: string;
+  description?: string;
+  weight: number;
+  maxScore: number;
+}
+
+export interface CreateRubricRequest {
+  name: string;
+  description?: string;
+  criteria: RubricCriterionInput[];
+}
+
+export interface UpdateRubricRequest {
+  name?: string;
+  description?: string;
+  criteria?: RubricCriterionInput[];
+}
+
+export interface ScoreInput {
+  criterionId: string;
+  value: number;
+  comment?: string;
+}
+
+export interface UpsertScoresRequest {
+  scores: ScoreInput[];
+}
+
+export interface JudgeScoreSummary {
+  judgeId: string;
+  judgeName?: string;
+  weightedScore: number;
+  criteriaScored: number;
+}
+
+export interface SubmissionScoreSummary {
+  weightedScore: number | null;
+  judgeCount: number;
+  judges: JudgeScoreSummary[];
+}
+
+// Submission revision types
+export interface SubmissionRevisionSnapshot {
+  teamName: string;
+  teamLeader: string;
+  email: string;
+  status: string;
+  demoUrl: string | null;
+  githubRepository: string | null;
+  presentationLink: string | null;
+  members: {
+    name: string;
+    email: string;
+    role: string;
+    githubHandle: string | null;
+  }[];
+}
+
+export interface RevisionFieldChange {
+  field: keyof SubmissionRevisionSnapshot;
+  from: unknown;
+  to: unknown;
+}
+
+export interface SubmissionRevisionDiff {
+  submissionId: string;
+  from: number;
+  to: number;
+  changes: RevisionFieldChange[];
+}
+
+// Submission comment types
+export interface CreateCommentRequest {
+  body: string;
+  visibility?: 'INTERNAL' | 'TEAM'; // Participants always post TEAM comments
+  parentId?: string;
+}
+
+export interface CommentAuthor {
+  type: 'admin' | 'participant';
+  adminId?: string;
+  email: string;
+}
+
+// Webhook types
+export type WebhookEventType = 'submission.created' | 'submission.status_changed' | 'submission.deleted' | 'admin.login';
+
+export interface CreateWebhookRequest {
+  url: string;
+  eventTypes: WebhookEventType[];
+  secret?: string; // Generated when omitted
+  description?: string;
+  isActive?: boolean;
+}
+
+export interface UpdateWebhookRequest {
+  url?: string;
+  eventTypes?: WebhookEventType[];
+  secret?: string;
+  description?: string | null;
+  isActive?: boolean;
+}
+
+export interface WebhookPayload {
+  id: string; // Audit log entry the event was produced from
+  type: WebhookEventType;
+  createdAt: string;
+  data: WebhookEventData;
+}
+
+// Only ids, statuses and timestamps leave the system; team details, emails and client info stay in the audit log
+export interface WebhookEventData {
+  entityType: string;
+  entityId: string;
+  submissionId: string | null;
+  actor: { type: string | null; id?: string }; // No id for participants, whose id is their email
+  eventId?: string;
+  status?: string;
+  previousStatus?: string;
+  submittedAt?: string;
+  deletedAt?: string;
+}
+
+// API key types
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresInDays?: number; // Defaults to 90
+}
+
+// The key a request authenticated with
+export interface ApiKeyPrincipal {
+  id: string;
+  name: string;
+  scopes: string[]; // Limited to what the creator's role still grants
+  createdById: string;
+}
+
+// Live stream types
+export type StreamEventType =
+  | 'submission.created'
+  | 'submission.status_changed'
+  | 'submission.deleted'
+  | 'submission.restored'
+  | 'stats';
+
+export interface StreamEvent {
+  id?: string; // Audit log entry the event was produced from; stats events have none
+  type: StreamEventType;
+  eventId: string;
+  data: Record<string, any>;
+}
+
+// Judge assignment types
+export interface AutoAssignRequest {
+  eventId?: string;
+  judgesPerSubmission?: number;
+  submissionIds?: string[];
+}
+
+export interface AutoAssignResult {
+  assignmentsCreated: number;
+  submissionsProcessed: number;
+  movedToReview: number;
+  understaffed: {
+    submissionId: string;
+    assignedJudges: number;
+    requiredJudges: number;
+  }[];
+}
+
+export interface JudgeWorkload {
+  judgeId: string;
+  name: string;
+  email: string;
+  assigned: number;
+  scored: number;
+}
+
+// One open assignment in a judge's review queue
+export interface JudgeQueueItem {
+  assignmentId: string;
+  assignedAt: Date;
+  scored: boolean; // Whether the judge has scored it yet
+  submission: Pick<
+    Submission,
+    'id' | 'teamName' | 'status' | 'demoUrl' | 'githubRepository' | 'presentationLink' | 'submittedAt'
+  >;
+}
+
+// Leaderboard types
+export type TieBreakRule = 'rawScore' | 'judgeCount' | 'submittedAt' | 'teamName';
+
+export interface LeaderboardEntry {
+  rank: number;
+  submissionId: string;
+  teamName: string;
+  normalizedScore: number;
+  rawScore: number;
+  judgeCount: number;
+  submittedAt: Date;
+}
+
+export interface Leaderboard {
+  mode: 'live' | 'published';
+  tieBreak: TieBreakRule[];
+  frozenAt?: Date;
+  entries: LeaderboardEntry[];
+}
+
 // Authentication types
 export interface LoginRequest {
   email: string;
@@ -70,22 +405,96 @@ export interface LoginResponse {
     email: string;
     name: string;
     role: string;
+    permissions: string[];
   };
 }
 
+// Returned by login instead of tokens when a second step is needed
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  enrollmentRequired: boolean; // The role requires 2FA and the admin has not enrolled yet
+  challengeToken: string;
+  expiresIn: string;
+}
+
+export interface TwoFactorLoginRequest {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface TwoFactorEnableResponse {
+  recoveryCodes: string[];
+  session?: LoginResponse; // Only when enrolling during login
+}
+
 export interface RefreshTokenRequest {
   refreshToken: string;
 }
 
+export interface AdminSession {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  browserInfo: ClientInfo['browserInfo'] | null;
+  startedAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean; // The session of the token that made the request
+}
+
 export interface ChangePasswordRequest {
   currentPassword: string;
   newPassword: string;
   confirmPassword: string;
 }
 
+// Role types
+export interface CreateRoleRequest {
+  name: string;
+  description?: string;
+  permissions: Permission[];
+}
+
+export interface UpdateRoleRequest {
+  description?: string | null;
+  permissions?: Permission[];
+}
+
+// Admin management types
+export interface InviteAdminRequest {
+  email: string;
+  name: string;
+  role: string;
+}
+
+export interface AdminQueryParams {
+  page?: number;
+  limit?: number;
+  role?: string;
+  isActive?: boolean;
+  search?: string;
+}
+
+export interface SetupPasswordRequest {
+  token: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
 // Audit log types
+export interface AuditActor {
+  type: 'admin' | 'participant' | 'api_key' | 'system';
+  id?: string;
+}
+
 export interface CreateAuditLogData {
-  action: 'CREATE' | 'UPDATE' | 'DELETE' | 'LOGIN' | 'LOGOUT' | 'STATUS_CHANGE' | 'REVIEW' | 'APPROVE' | 'REJECT';
+  action: 'CREATE' | 'UPDATE' | 'DELETE' | 'LOGIN' | 'LOGIN_FAILED' | 'LOGOUT' | 'STATUS_CHANGE' | 'REVIEW' | 'APPROVE' | 'REJECT' | 'RESTORE' | 'PURGE' | 'TOKEN_REUSE' | 'EXPORT';
   entityType: string;
   entityId: string;
   oldValues?: Record<string, any>;
@@ -95,6 +504,7 @@ export interface CreateAuditLogData {
   submissionId?: string;
   ipAddress?: string;
   userAgent?: string;
+  actor?: AuditActor;
 }
 
 // Error types
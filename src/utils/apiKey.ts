@@ -0,0 +1,29 @@
+import crypto from 'crypto';
+
+export const API_KEY_HEADER = 'X-API-Key';
+
+// Keys look like oek_<prefix>_<secret>; the prefix part is stored in the clear
+const KEY_PREFIX = 'oek_';
+
+export class ApiKeyUtils {
+  /**
+   * Generate a new key and the prefix shown in key lists
+   */
+  static generate(): { key: string; prefix: string } {
+    const prefix = `${KEY_PREFIX}${crypto.randomBytes(4).toString('hex')}`;
+    const secret = crypto.randomBytes(32).toString('base64url');
+
+    return {
+      key: `${prefix}_${secret}`,
+      prefix,
+    };
+  }
+
+  /**
+   * Hash a key for storage and lookup.
+   * Keys are random and long, so a fast hash is enough.
+   */
+  static hash(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
@@ -0,0 +1,67 @@
+import { CsvUtils } from './csv';
+
+describe('CsvUtils', () => {
+  describe('escape', () => {
+    it('leaves plain values alone', () => {
+      expect(CsvUtils.escape('Team Rocket')).toBe('Team Rocket');
+      expect(CsvUtils.escape(42)).toBe('42');
+      expect(CsvUtils.escape(true)).toBe('true');
+    });
+
+    it('writes null and undefined as empty fields', () => {
+      expect(CsvUtils.escape(null)).toBe('');
+      expect(CsvUtils.escape(undefined)).toBe('');
+    });
+
+    it('writes dates as ISO strings', () => {
+      expect(CsvUtils.escape(new Date('2026-03-01T12:00:00.000Z'))).toBe('2026-03-01T12:00:00.000Z');
+    });
+
+    it('quotes values with commas, quotes and line breaks', () => {
+      expect(CsvUtils.escape('Smith, Jane')).toBe('"Smith, Jane"');
+      expect(CsvUtils.escape('The "best" team')).toBe('"The ""best"" team"');
+      expect(CsvUtils.escape('line one\nline two')).toBe('"line one\nline two"');
+      expect(CsvUtils.escape('line one\r\nline two')).toBe('"line one\r\nline two"');
+    });
+
+    it('quotes values with surrounding whitespace so it is kept', () => {
+      expect(CsvUtils.escape(' padded ')).toBe('" padded "');
+    });
+
+    it.each(['=SUM(A1:A2)', '+1', '-1+2', '@cmd', '\tTAB'])('neutralises the formula %j', formula => {
+      expect(CsvUtils.escape(formula).replace(/^"/, '')).toMatch(/^'/);
+    });
+
+    it('quotes a neutralised formula that also needs quoting', () => {
+      expect(CsvUtils.escape('=HYPERLINK("http://x")')).toBe('"\'=HYPERLINK(""http://x"")"');
+    });
+
+    it('does not prefix negative numbers', () => {
+      expect(CsvUtils.escape(-5)).toBe('-5');
+    });
+  });
+
+  describe('row', () => {
+    it('joins escaped values and ends with CRLF', () => {
+      expect(CsvUtils.row(['a', 'b,c', null, 3])).toBe('a,"b,c",,3\r\n');
+    });
+  });
+
+  describe('parse', () => {
+    it('reads what row writes', () => {
+      const text = CsvUtils.row(['name', 'notes']) + CsvUtils.row(['Team "A"', 'one, two\nthree']);
+
+      expect(CsvUtils.parse(text)).toEqual([{ name: 'Team "A"', notes: 'one, two\nthree' }]);
+    });
+
+    it('strips a byte order mark and skips blank lines', () => {
+      expect(CsvUtils.parse('\uFEFFname,email\n\nAda,ada@example.com\n')).toEqual([
+        { name: 'Ada', email: 'ada@example.com' },
+      ]);
+    });
+
+    it('rejects an unterminated quoted field', () => {
+      expect(() => CsvUtils.parse('name\n"open')).toThrow('Unterminated quoted field');
+    });
+  });
+});
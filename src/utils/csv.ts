@@ -0,0 +1,93 @@
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+// Leading characters spreadsheet apps treat as the start of a formula
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+export class CsvUtils {
+  /**
+   * Escape a single value (RFC 4180).
+   * Values are quoted when needed, and values that would be run as
+   * spreadsheet formulas are prefixed with a single quote.
+   */
+  static escape(value: CsvValue): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    let text = value instanceof Date ? value.toISOString() : String(value);
+
+    if (typeof value === 'string' && FORMULA_PREFIXES.some(prefix => text.startsWith(prefix))) {
+      text = `'${text}`;
+    }
+
+    if (/[",\r\n]/.test(text) || text !== text.trim()) {
+      return `"${text.replace(/"/g, '""')}"`;
+    }
+
+    return text;
+  }
+
+  /**
+   * Build one CSV line, including the line break
+   */
+  static row(values: CsvValue[]): string {
+    return `${values.map(value => this.escape(value)).join(',')}\r\n`;
+  }
+
+  /**
+   * Parse CSV text (RFC 4180) into one object per line, keyed by the header row.
+   * Blank lines are skipped.
+   */
+  static parse(text: string): Record<string, string>[] {
+    const lines: string[][] = [];
+    let line: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    // Strip a byte order mark left by spreadsheet exports
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (quoted) {
+        if (char === '"' && input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        quoted = true;
+      } else if (char === ',') {
+        line.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') i++;
+        line.push(field);
+        lines.push(line);
+        line = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (quoted) {
+      throw new Error('Unterminated quoted field');
+    }
+
+    if (field !== '' || line.length > 0) {
+      line.push(field);
+      lines.push(line);
+    }
+
+    const [header = [], ...rows] = lines.filter(values => values.some(value => value.trim() !== ''));
+
+    return rows.map(values =>
+      Object.fromEntries(header.map((name, index) => [name.trim(), values[index] ?? '']))
+    );
+  }
+}
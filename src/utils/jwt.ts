@@ -1,10 +1,30 @@
-import jwt, { SignOptions } from 'jsonwebtoken';
+import crypto from 'crypto';
+import jwt, { JwtPayload, SignOptions, VerifyOptions } from 'jsonwebtoken';
 import { config } from '../config/config';
+import { JWTKeyStore, LoadedJWTKey } from './jwtKeys';
 
 export interface TokenPayload {
   adminId: string;
   email: string;
   role: string;
+  permissions: string[]; // Resolved from the role when the token is issued
+  sid: string; // Session the token was issued for
+  ver: number; // Token version of the admin; the token is rejected once the version moves on
+  iat?: number;
+  exp?: number;
+}
+
+export interface ParticipantTokenPayload {
+  submissionId: string;
+  eventId: string;
+  email: string;
+  iat?: number;
+  exp?: number;
+}
+
+export interface TwoFactorChallengePayload {
+  adminId: string;
+  purpose: 'verify' | 'enroll'; // Enter a code, or enroll first because the role requires 2FA
   iat?: number;
   exp?: number;
 }
@@ -16,27 +36,44 @@ export interface RefreshTokenPayload {
   exp?: number;
 }
 
+const ISSUER = 'openera-backend';
+
+const AUDIENCES = {
+  access: 'openera-frontend',
+  refresh: 'openera-refresh',
+  participant: 'openera-participant',
+  twoFactor: 'openera-2fa',
+} as const;
+
 export class JWTUtils {
   /**
    * Generate access token
    */
   static generateAccessToken(payload: Omit<TokenPayload, 'iat' | 'exp'>): string {
-    return jwt.sign(payload, config.jwt.secret, {
-      expiresIn: config.jwt.expiresIn as string,
-      issuer: 'openera-backend',
-      audience: 'openera-frontend',
-    } as SignOptions);
+    return this.sign(payload, AUDIENCES.access, config.jwt.expiresIn);
   }
 
   /**
    * Generate refresh token
    */
   static generateRefreshToken(payload: Omit<RefreshTokenPayload, 'iat' | 'exp'>): string {
-    return jwt.sign(payload, config.jwt.refreshSecret, {
-      expiresIn: config.jwt.refreshExpiresIn as string,
-      issuer: 'openera-backend',
-      audience: 'openera-frontend',
-    } as SignOptions);
+    return this.sign(payload, AUDIENCES.refresh, config.jwt.refreshExpiresIn, config.jwt.refreshSecret);
+  }
+
+  /**
+   * Generate participant token for self-service access to one submission.
+   * Uses its own audience so it is never accepted as an admin access token.
+   */
+  static generateParticipantToken(payload: Omit<ParticipantTokenPayload, 'iat' | 'exp'>): string {
+    return this.sign(payload, AUDIENCES.participant, config.participant.tokenExpiresIn);
+  }
+
+  /**
+   * Generate the short-lived token handed out after the password step of a two-factor login.
+   * Uses its own audience so it is never accepted as an access token.
+   */
+  static generateTwoFactorChallenge(payload: Omit<TwoFactorChallengePayload, 'iat' | 'exp'>): string {
+    return this.sign(payload, AUDIENCES.twoFactor, config.twoFactor.challengeExpiresIn);
   }
 
   /**
@@ -44,18 +81,40 @@ export class JWTUtils {
    */
   static verifyAccessToken(token: string): TokenPayload {
     try {
-      return jwt.verify(token, config.jwt.secret) as TokenPayload;
+      return this.verify(token, AUDIENCES.access) as TokenPayload;
     } catch (error) {
       throw new Error('Invalid or expired access token');
     }
   }
 
+  /**
+   * Verify participant token
+   */
+  static verifyParticipantToken(token: string): ParticipantTokenPayload {
+    try {
+      return this.verify(token, AUDIENCES.participant) as ParticipantTokenPayload;
+    } catch (error) {
+      throw new Error('Invalid or expired participant token');
+    }
+  }
+
+  /**
+   * Verify two-factor challenge token
+   */
+  static verifyTwoFactorChallenge(token: string): TwoFactorChallengePayload {
+    try {
+      return this.verify(token, AUDIENCES.twoFactor) as TwoFactorChallengePayload;
+    } catch (error) {
+      throw new Error('Invalid or expired two-factor challenge');
+    }
+  }
+
   /**
    * Verify refresh token
    */
   static verifyRefreshToken(token: string): RefreshTokenPayload {
     try {
-      return jwt.verify(token, config.jwt.refreshSecret) as RefreshTokenPayload;
+      return this.verify(token, AUDIENCES.refresh, config.jwt.refreshSecret) as RefreshTokenPayload;
     } catch (error) {
       throw new Error('Invalid or expired refresh token');
     }
@@ -91,4 +150,95 @@ export class JWTUtils {
     if (!expiration) return true;
     return expiration < new Date();
   }
+
+  /**
+   * Sign with the current key of the key set, named in the kid header.
+   * Without a key set, falls back to HS256 with the shared secret.
+   */
+  private static sign(payload: object, audience: string, expiresIn: string, secret: string = config.jwt.secret): string {
+    const options: SignOptions = {
+      expiresIn: expiresIn as SignOptions['expiresIn'],
+      issuer: ISSUER,
+      audience,
+    };
+
+    if (!JWTKeyStore.isConfigured()) {
+      return jwt.sign(payload, secret, { ...options, algorithm: 'HS256' });
+    }
+
+    const key = JWTKeyStore.getSigningKey();
+
+    if (key.alg === 'EdDSA') {
+      return this.signEdDSA(payload, options, key);
+    }
+
+    return jwt.sign(payload, key.privateKey, { ...options, algorithm: key.alg, keyid: key.kid });
+  }
+
+  /**
+   * Verify the signature, expiry, issuer and audience.
+   * With a key set, only tokens signed by one of its keys are accepted.
+   */
+  private static verify(token: string, audience: string, secret: string = config.jwt.secret): JwtPayload | string {
+    const options: VerifyOptions = {
+      issuer: ISSUER,
+      audience,
+    };
+
+    if (!JWTKeyStore.isConfigured()) {
+      return jwt.verify(token, secret, { ...options, algorithms: ['HS256'] });
+    }
+
+    const decoded = jwt.decode(token, { complete: true });
+    const key = JWTKeyStore.getVerificationKey(decoded?.header.kid);
+
+    if (!key) {
+      throw new Error('Token was not signed by a known key');
+    }
+
+    if (key.alg === 'EdDSA') {
+      return this.verifyEdDSA(token, options, key);
+    }
+
+    return jwt.verify(token, key.publicKey, { ...options, algorithms: [key.alg] });
+  }
+
+  /**
+   * jsonwebtoken cannot sign with Ed25519, so it only builds the claims (as an unsigned token)
+   * and the signature is made with Node's crypto
+   */
+  private static signEdDSA(payload: object, options: SignOptions, key: LoadedJWTKey): string {
+    const claims = jwt.sign(payload, null, { ...options, algorithm: 'none' }).split('.')[1];
+    const header = Buffer.from(JSON.stringify({ alg: 'EdDSA', typ: 'JWT', kid: key.kid })).toString('base64url');
+    const signature = crypto.sign(null, Buffer.from(`${header}.${claims}`), key.privateKey);
+
+    return `${header}.${claims}.${signature.toString('base64url')}`;
+  }
+
+  /**
+   * Check the Ed25519 signature with Node's crypto, then let jsonwebtoken check the claims.
+   * The claims are only handed over, as an unsigned token, once the signature is valid.
+   */
+  private static verifyEdDSA(token: string, options: VerifyOptions, key: LoadedJWTKey): JwtPayload | string {
+    const [header, claims, signature] = token.split('.');
+    const decoded = jwt.decode(token, { complete: true });
+
+    if (decoded?.header.alg !== 'EdDSA' || !signature) {
+      throw new Error('Token was not signed with EdDSA');
+    }
+
+    const isValid = crypto.verify(
+      null,
+      Buffer.from(`${header}.${claims}`),
+      key.publicKey,
+      Buffer.from(signature, 'base64url')
+    );
+
+    if (!isValid) {
+      throw new Error('Invalid token signature');
+    }
+
+    const unsignedHeader = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+    return jwt.verify(`${unsignedHeader}.${claims}.`, '', { ...options, algorithms: ['none'] });
+  }
 }
@@ -0,0 +1,165 @@
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs';
+import { config } from '../config/config';
+
+export const JWT_KEY_ALGORITHMS = ['RS256', 'ES256', 'EdDSA'] as const;
+
+export type JWTKeyAlgorithm = typeof JWT_KEY_ALGORITHMS[number];
+
+// current signs new tokens; next is published ahead of the rotation; retired still verifies tokens it signed
+export type JWTKeyStatus = 'current' | 'next' | 'retired';
+
+export interface StoredJWTKey {
+  kid: string;
+  alg: JWTKeyAlgorithm;
+  status: JWTKeyStatus;
+  privateKey: string; // PKCS#8 PEM
+  createdAt: string;
+  retiredAt?: string;
+}
+
+export interface JWTKeySet {
+  keys: StoredJWTKey[];
+}
+
+export interface LoadedJWTKey {
+  kid: string;
+  alg: JWTKeyAlgorithm;
+  status: JWTKeyStatus;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+}
+
+export class JWTKeyStore {
+  // undefined until loaded; null when no key set is configured and tokens use the HS256 secrets
+  private static keys?: LoadedJWTKey[] | null;
+
+  /**
+   * Load the key set from JWT_KEYS or JWT_KEYS_FILE.
+   * Throws when a key set is configured but unusable, so a bad deployment fails at startup.
+   */
+  static load(): LoadedJWTKey[] | null {
+    if (this.keys !== undefined) {
+      return this.keys;
+    }
+
+    const raw = config.jwt.keys || (config.jwt.keysFile ? fs.readFileSync(config.jwt.keysFile, 'utf8') : '');
+
+    if (!raw) {
+      this.keys = null;
+      return null;
+    }
+
+    const keySet = this.parseKeySet(raw);
+    const keys = keySet.keys.map(key => {
+      const privateKey = crypto.createPrivateKey(key.privateKey);
+
+      return {
+        kid: key.kid,
+        alg: key.alg,
+        status: key.status,
+        privateKey,
+        publicKey: crypto.createPublicKey(privateKey),
+      };
+    });
+
+    if (keys.filter(key => key.status === 'current').length !== 1) {
+      throw new Error('The JWT key set must contain exactly one current key');
+    }
+
+    this.keys = keys;
+    return keys;
+  }
+
+  /**
+   * Whether tokens are signed with the asymmetric key set instead of the shared secrets
+   */
+  static isConfigured(): boolean {
+    return this.load() !== null;
+  }
+
+  /**
+   * Get the key that signs new tokens
+   */
+  static getSigningKey(): LoadedJWTKey {
+    const key = this.load()?.find(candidate => candidate.status === 'current');
+
+    if (!key) {
+      throw new Error('No JWT signing key is configured');
+    }
+
+    return key;
+  }
+
+  /**
+   * Get the key a token names in its kid header, if it is still trusted
+   */
+  static getVerificationKey(kid: string | undefined): LoadedJWTKey | undefined {
+    return kid ? this.load()?.find(key => key.kid === kid) : undefined;
+  }
+
+  /**
+   * Public keys for /.well-known/jwks.json
+   */
+  static getPublicJwks(): { keys: crypto.JsonWebKey[] } {
+    return {
+      keys: (this.load() ?? []).map(key => ({
+        ...key.publicKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.alg,
+        use: 'sig',
+      })),
+    };
+  }
+
+  /**
+   * Parse and check a key set document
+   */
+  static parseKeySet(raw: string): JWTKeySet {
+    const keySet = JSON.parse(raw) as JWTKeySet;
+
+    if (!Array.isArray(keySet.keys) || keySet.keys.length === 0) {
+      throw new Error('The JWT key set has no keys');
+    }
+
+    for (const key of keySet.keys) {
+      if (!key.kid || !key.privateKey) {
+        throw new Error('Every JWT key needs a kid and a private key');
+      }
+
+      if (!JWT_KEY_ALGORITHMS.includes(key.alg)) {
+        throw new Error(`Unsupported JWT key algorithm: ${key.alg}`);
+      }
+    }
+
+    return keySet;
+  }
+
+  /**
+   * Generate a new key pair in the stored format
+   */
+  static generateKey(alg: JWTKeyAlgorithm, status: JWTKeyStatus): StoredJWTKey {
+    const { privateKey } = this.generateKeyPair(alg);
+
+    const createdAt = new Date();
+
+    return {
+      kid: `${createdAt.toISOString().slice(0, 10)}-${crypto.randomBytes(4).toString('hex')}`,
+      alg,
+      status,
+      privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }).toString(),
+      createdAt: createdAt.toISOString(),
+    };
+  }
+
+  private static generateKeyPair(alg: JWTKeyAlgorithm): crypto.KeyPairKeyObjectResult {
+    switch (alg) {
+      case 'RS256':
+        return crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+      case 'ES256':
+        return crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      case 'EdDSA':
+        return crypto.generateKeyPairSync('ed25519');
+    }
+  }
+}
@@ -0,0 +1,64 @@
+export const PERMISSIONS = [
+  'submissions:read',
+  'submissions:write',
+  'scores:read',
+  'scores:write',
+  'comments:write',
+  'rubrics:read',
+  'rubrics:manage',
+  'assignments:manage',
+  'events:manage',
+  'leaderboard:manage',
+  'audit:read',
+  'notifications:manage',
+  'webhooks:manage',
+  'api_keys:manage',
+  'admins:manage',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// Permissions an API key can carry. Keys are for machine clients that read data, so they never write.
+export const API_KEY_SCOPES = [
+  'submissions:read',
+  'scores:read',
+  'audit:read',
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Built-in roles. They are seeded into the roles table and used until a row exists for them.
+export const SYSTEM_ROLES: Record<string, { description: string; permissions: Permission[] }> = {
+  superadmin: {
+    description: 'Full access, including managing admins and roles',
+    permissions: [...PERMISSIONS],
+  },
+  admin: {
+    description: 'Runs events and reviews submissions',
+    permissions: PERMISSIONS.filter(permission => permission !== 'admins:manage'),
+  },
+  judge: {
+    description: 'Scores and comments on assigned submissions',
+    permissions: ['rubrics:read', 'scores:write', 'comments:write'],
+  },
+  viewer: {
+    description: 'Read-only access to submissions, scores and the audit log',
+    permissions: ['submissions:read', 'scores:read', 'rubrics:read', 'audit:read'],
+  },
+};
+
+export class PermissionUtils {
+  /**
+   * Check whether a permission list grants at least one of the given permissions
+   */
+  static hasAny(granted: readonly string[] | undefined, required: readonly Permission[]): boolean {
+    return required.some(permission => granted?.includes(permission) ?? false);
+  }
+
+  /**
+   * Get the defaults of a built-in role, if the name is one
+   */
+  static getSystemRole(name: string): { description: string; permissions: Permission[] } | undefined {
+    return Object.prototype.hasOwnProperty.call(SYSTEM_ROLES, name) ? SYSTEM_ROLES[name] : undefined;
+  }
+}
@@ -0,0 +1,52 @@
+import { SubmissionStatus } from '@prisma/client';
+import { STATUS_TRANSITIONS, StatusWorkflow } from './statusWorkflow';
+
+describe('StatusWorkflow', () => {
+  describe('canTransition', () => {
+    it.each<[SubmissionStatus, SubmissionStatus]>([
+      ['PENDING', 'UNDER_REVIEW'],
+      ['UNDER_REVIEW', 'APPROVED'],
+      ['UNDER_REVIEW', 'REQUIRES_CHANGES'],
+      ['REQUIRES_CHANGES', 'UNDER_REVIEW'],
+      ['APPROVED', 'UNDER_REVIEW'],
+      ['REJECTED', 'UNDER_REVIEW'],
+    ])('allows %s -> %s', (from, to) => {
+      expect(StatusWorkflow.canTransition(from, to)).toBe(true);
+    });
+
+    it.each<[SubmissionStatus, SubmissionStatus]>([
+      ['APPROVED', 'REJECTED'],
+      ['REJECTED', 'APPROVED'],
+      ['APPROVED', 'PENDING'],
+      ['UNDER_REVIEW', 'PENDING'],
+      ['REQUIRES_CHANGES', 'APPROVED'],
+    ])('rejects %s -> %s', (from, to) => {
+      expect(StatusWorkflow.canTransition(from, to)).toBe(false);
+    });
+
+    it('never allows staying on the same status', () => {
+      for (const [from, targets] of Object.entries(STATUS_TRANSITIONS)) {
+        expect(targets).not.toContain(from);
+      }
+    });
+  });
+
+  describe('validateTransition', () => {
+    it('accepts an allowed change without a reason when none is required', () => {
+      expect(StatusWorkflow.validateTransition('UNDER_REVIEW', 'APPROVED')).toBeNull();
+    });
+
+    it('explains a change that is not allowed', () => {
+      expect(StatusWorkflow.validateTransition('APPROVED', 'REJECTED', 'Late'))
+        .toBe('Cannot change status from APPROVED to REJECTED');
+    });
+
+    it.each<SubmissionStatus>(['REJECTED', 'REQUIRES_CHANGES'])('requires a reason for %s', status => {
+      expect(StatusWorkflow.validateTransition('UNDER_REVIEW', status))
+        .toBe(`A reason is required when changing status to ${status}`);
+      expect(StatusWorkflow.validateTransition('UNDER_REVIEW', status, '   '))
+        .toBe(`A reason is required when changing status to ${status}`);
+      expect(StatusWorkflow.validateTransition('UNDER_REVIEW', status, 'Demo link is broken')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { SubmissionStatus } from '@prisma/client';
+
+/**
+ * Allowed submission status transitions.
+ * Decisions can be reopened by moving the submission back to UNDER_REVIEW.
+ */
+export const STATUS_TRANSITIONS: Record<SubmissionStatus, SubmissionStatus[]> = {
+  PENDING: ['UNDER_REVIEW', 'APPROVED', 'REJECTED', 'REQUIRES_CHANGES'],
+  UNDER_REVIEW: ['APPROVED', 'REJECTED', 'REQUIRES_CHANGES'],
+  REQUIRES_CHANGES: ['PENDING', 'UNDER_REVIEW', 'REJECTED'],
+  APPROVED: ['UNDER_REVIEW'],
+  REJECTED: ['UNDER_REVIEW'],
+};
+
+// Statuses the team has to be told why about
+export const REASON_REQUIRED_STATUSES: SubmissionStatus[] = ['REJECTED', 'REQUIRES_CHANGES'];
+
+export class StatusWorkflow {
+  /**
+   * Check whether a submission may move from one status to another
+   */
+  static canTransition(from: SubmissionStatus, to: SubmissionStatus): boolean {
+    return STATUS_TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Whether a reason must be given when moving to the status
+   */
+  static requiresReason(status: SubmissionStatus): boolean {
+    return REASON_REQUIRED_STATUSES.includes(status);
+  }
+
+  /**
+   * Validate a status change.
+   * Returns the reason the change is not allowed, or null.
+   */
+  static validateTransition(
+    from: SubmissionStatus,
+    to: SubmissionStatus,
+    reason?: string
+  ): string | null {
+    if (!this.canTransition(from, to)) {
+      return `Cannot change status from ${from} to ${to}`;
+    }
+
+    if (this.requiresReason(to) && !reason?.trim()) {
+      return `A reason is required when changing status to ${to}`;
+    }
+
+    return null;
+  }
+}
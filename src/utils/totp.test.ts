@@ -0,0 +1,67 @@
+import { TOTPUtils } from './totp';
+
+// RFC 6238 test secret "12345678901234567890", base32 encoded
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTPUtils', () => {
+  describe('verify', () => {
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1234567890, '005924'],
+    ])('accepts the RFC 6238 code at %i seconds', (seconds, code) => {
+      expect(TOTPUtils.verify(RFC_SECRET, code, seconds * 1000)).toBe(Math.floor(seconds / 30));
+    });
+
+    it('accepts a code from one step before or after for clock drift', () => {
+      const now = 1111111109 * 1000;
+
+      expect(TOTPUtils.verify(RFC_SECRET, '081804', now - 30 * 1000)).toBe(37037036);
+      expect(TOTPUtils.verify(RFC_SECRET, '081804', now + 30 * 1000)).toBe(37037036);
+    });
+
+    it('rejects a code from two steps away', () => {
+      expect(TOTPUtils.verify(RFC_SECRET, '081804', (1111111109 + 60) * 1000)).toBeNull();
+    });
+
+    it('rejects wrong and malformed codes', () => {
+      const now = 1111111109 * 1000;
+
+      expect(TOTPUtils.verify(RFC_SECRET, '000000', now)).toBeNull();
+      expect(TOTPUtils.verify(RFC_SECRET, '81804', now)).toBeNull();
+      expect(TOTPUtils.verify(RFC_SECRET, '08180a', now)).toBeNull();
+    });
+
+  });
+
+  it('generates 160-bit base32 secrets', () => {
+    expect(TOTPUtils.generateSecret()).toMatch(/^[A-Z2-7]{32}$/);
+  });
+
+  describe('secret encryption', () => {
+    it('round-trips and uses a fresh IV each time', () => {
+      const first = TOTPUtils.encryptSecret(RFC_SECRET);
+      const second = TOTPUtils.encryptSecret(RFC_SECRET);
+
+      expect(first).not.toBe(second);
+      expect(TOTPUtils.decryptSecret(first)).toBe(RFC_SECRET);
+    });
+
+    it('refuses a tampered secret', () => {
+      const [iv, authTag, encrypted] = TOTPUtils.encryptSecret(RFC_SECRET).split('.');
+      const tampered = Buffer.from(encrypted, 'base64');
+      tampered[0] ^= 1;
+
+      expect(() => TOTPUtils.decryptSecret([iv, authTag, tampered.toString('base64')].join('.'))).toThrow();
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('hashes codes ignoring dashes and case', () => {
+      const [code] = TOTPUtils.generateRecoveryCodes(1);
+
+      expect(code).toMatch(/^[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}$/);
+      expect(TOTPUtils.hashRecoveryCode(code.toUpperCase().replace(/-/g, ''))).toBe(TOTPUtils.hashRecoveryCode(code));
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import { config } from '../config/config';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const PERIOD_SECONDS = 30;
+const DIGITS = 6;
+// Accept codes from one step before and after to allow for clock drift
+const DRIFT_STEPS = 1;
+
+export class TOTPUtils {
+  /**
+   * Generate a random 160-bit secret, base32 encoded as authenticator apps expect
+   */
+  static generateSecret(): string {
+    return this.base32Encode(crypto.randomBytes(20));
+  }
+
+  /**
+   * Build the otpauth:// URI that authenticator apps read from a QR code
+   */
+  static getProvisioningUri(secret: string, accountName: string): string {
+    const issuer = config.twoFactor.issuer;
+    const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: 'SHA1',
+      digits: String(DIGITS),
+      period: String(PERIOD_SECONDS),
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  /**
+   * Check a code against the secret.
+   * Returns the time step the code belongs to, so callers can reject reuse, or null when it does not match.
+   */
+  static verify(secret: string, code: string, now: number = Date.now()): number | null {
+    if (!/^\d{6}$/.test(code)) {
+      return null;
+    }
+
+    const key = this.base32Decode(secret);
+    const currentStep = Math.floor(now / 1000 / PERIOD_SECONDS);
+
+    for (let offset = -DRIFT_STEPS; offset <= DRIFT_STEPS; offset++) {
+      const step = currentStep + offset;
+      const expected = this.generateCode(key, step);
+
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Encrypt a secret for storage with AES-256-GCM
+   */
+  static encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+  }
+
+  /**
+   * Decrypt a secret stored with encryptSecret
+   */
+  static decryptSecret(stored: string): string {
+    const [iv, authTag, encrypted] = stored.split('.').map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+
+  /**
+   * Generate one-time recovery codes such as "4f9c-a21e-07bd"
+   */
+  static generateRecoveryCodes(count: number): string[] {
+    return Array.from({ length: count }, () =>
+      crypto.randomBytes(6).toString('hex').match(/.{4}/g)!.join('-')
+    );
+  }
+
+  /**
+   * Hash a recovery code for storage; dashes and case are ignored
+   */
+  static hashRecoveryCode(code: string): string {
+    const normalized = code.replace(/-/g, '').trim().toLowerCase();
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  // RFC 4226 HOTP value for one counter step
+  private static generateCode(key: Buffer, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac('sha1', key).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+  }
+
+  private static getEncryptionKey(): Buffer {
+    return crypto.createHash('sha256').update(config.twoFactor.encryptionKey).digest();
+  }
+
+  private static base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  private static base32Decode(input: string): Buffer {
+    const cleaned = input.replace(/=+$/, '').toUpperCase();
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error('Invalid base32 character');
+      }
+
+      value = (value << 5) | index;
+      bits += 5;
+
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+}
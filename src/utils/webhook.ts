@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import { AuditLog } from '@prisma/client';
+import { WebhookEventData, WebhookEventType } from '../types';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'submission.created',
+  'submission.status_changed',
+  'submission.deleted',
+  'admin.login',
+];
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Openera-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Openera-Timestamp';
+
+export class WebhookUtils {
+  /**
+   * Generate a signing secret for a new subscription
+   */
+  static generateSecret(): string {
+    return `whsec_${crypto.randomBytes(32).toString('hex')}`;
+  }
+
+  /**
+   * Sign a payload with HMAC-SHA256.
+   * The timestamp is signed too so receivers can reject replayed deliveries.
+   */
+  static sign(secret: string, timestamp: number, body: string): string {
+    const digest = crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    return `sha256=${digest}`;
+  }
+
+  /**
+   * Map an audit log entry to the webhook event it represents, if any
+   */
+  static getEventType(action: string, entityType: string): WebhookEventType | null {
+    if (entityType === 'submission') {
+      if (action === 'CREATE') return 'submission.created';
+      if (action === 'STATUS_CHANGE') return 'submission.status_changed';
+      if (action === 'DELETE') return 'submission.deleted';
+    }
+
+    if (entityType === 'admin' && action === 'LOGIN') {
+      return 'admin.login';
+    }
+
+    return null;
+  }
+
+  /**
+   * Build the event data sent to subscribers from an audit log entry.
+   * Fields are allow-listed: the old and new values of the entry are never forwarded as they are.
+   */
+  static toEventData(auditLog: AuditLog): WebhookEventData {
+    const oldValues = this.asRecord(auditLog.oldValues);
+    const newValues = this.asRecord(auditLog.newValues);
+    const values = { ...oldValues, ...newValues };
+
+    const data: WebhookEventData = {
+      entityType: auditLog.entityType,
+      entityId: auditLog.entityId,
+      submissionId: auditLog.submissionId,
+      actor: auditLog.actorType === 'participant' || !auditLog.actorId
+        ? { type: auditLog.actorType }
+        : { type: auditLog.actorType, id: auditLog.actorId },
+    };
+
+    for (const field of ['eventId', 'status', 'submittedAt', 'deletedAt'] as const) {
+      const value = values[field];
+
+      if (typeof value === 'string') {
+        data[field] = value;
+      } else if (value instanceof Date) {
+        data[field] = value.toISOString();
+      }
+    }
+
+    if (auditLog.action === 'STATUS_CHANGE' && typeof oldValues.status === 'string') {
+      data.previousStatus = oldValues.status;
+    }
+
+    return data;
+  }
+
+  private static asRecord(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+  }
+}
@@ -1,4 +1,47 @@
 import { body, query, param } from 'express-validator';
+import { config } from '../config/config';
+import { REASON_REQUIRED_STATUSES } from '../utils/statusWorkflow';
+import { WEBHOOK_EVENT_TYPES } from '../utils/webhook';
+import { API_KEY_SCOPES, PERMISSIONS } from '../utils/permissions';
+import { SUBMISSION_EXPORT_COLUMNS } from '../services/exportService';
+import { MAX_API_KEY_EXPIRY_DAYS } from '../services/apiKeyService';
+
+const GITHUB_HANDLE_PATTERN = /^[a-zA-Z0-9](-?[a-zA-Z0-9]){0,38}$/;
+
+// Validation for the members besides the team leader; sizes include the leader
+const teamMembersValidation = (members: ReturnType<typeof body>) => [
+  body('members.*.name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Member name must be between 2 and 100 characters')
+    .matches(/^[a-zA-Z\s\-\.]+$/)
+    .withMessage('Member name can only contain letters, spaces, hyphens, and dots'),
+
+  body('members.*.email')
+    .isEmail()
+    .withMessage('Please provide a valid email address for each member')
+    .normalizeEmail()
+    .isLength({ max: 255 })
+    .withMessage('Member email address is too long'),
+
+  body('members.*.githubHandle')
+    .optional({ values: 'null' })
+    .trim()
+    .matches(GITHUB_HANDLE_PATTERN)
+    .withMessage('GitHub handle must be a valid GitHub username'),
+
+  members
+    .isArray()
+    .withMessage('Members must be an array')
+    .custom((value: unknown[]) => value.length + 1 >= config.teams.minSize && value.length + 1 <= config.teams.maxSize)
+    .withMessage(`Teams must have between ${config.teams.minSize} and ${config.teams.maxSize} people including the team leader`)
+    .custom((value: { email?: string }[], { req }) => {
+      const emails = value.map(member => member.email);
+      if (req.body.email) emails.push(req.body.email);
+      return new Set(emails).size === emails.length;
+    })
+    .withMessage('Each team member must have a different email address'),
+];
 
 // Submission validation schemas
 export const createSubmissionValidation = [
@@ -45,6 +88,8 @@ export const createSubmissionValidation = [
     .withMessage('Presentation link must be a valid URL')
     .isLength({ max: 500 })
     .withMessage('Presentation link is too long'),
+
+  ...teamMembersValidation(body('members').default([])),
 ];
 
 // Admin authentication validation schemas
@@ -115,6 +160,12 @@ export const updateSubmissionValidation = [
     .isIn(['PENDING', 'UNDER_REVIEW', 'APPROVED', 'REJECTED', 'REQUIRES_CHANGES'])
     .withMessage('Status must be one of: PENDING, UNDER_REVIEW, APPROVED, REJECTED, REQUIRES_CHANGES'),
 
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ min: 3, max: 1000 })
+    .withMessage('Reason must be between 3 and 1000 characters'),
+
   body('demoUrl')
     .optional()
     .isURL({ require_protocol: true })
@@ -137,6 +188,34 @@ export const updateSubmissionValidation = [
     .withMessage('Presentation link must be a valid URL')
     .isLength({ max: 500 })
     .withMessage('Presentation link is too long'),
+
+  ...teamMembersValidation(body('members').optional()),
+];
+
+export const bulkStatusUpdateValidation = [
+  body('submissionIds')
+    .isArray({ min: 1, max: 100 })
+    .withMessage('Submission IDs must be an array of 1 to 100 IDs'),
+
+  body('submissionIds.*')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Each submission ID must be a string'),
+
+  body('status')
+    .isIn(['PENDING', 'UNDER_REVIEW', 'APPROVED', 'REJECTED', 'REQUIRES_CHANGES'])
+    .withMessage('Status must be one of: PENDING, UNDER_REVIEW, APPROVED, REJECTED, REQUIRES_CHANGES'),
+
+  body('reason')
+    .if(body('status').isIn(REASON_REQUIRED_STATUSES))
+    .exists({ values: 'falsy' })
+    .withMessage('A reason is required for this status'),
+
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ min: 3, max: 1000 })
+    .withMessage('Reason must be between 3 and 1000 characters'),
 ];
 
 // Query parameter validation schemas
@@ -181,6 +260,13 @@ export const idParamValidation = [
     .withMessage('ID parameter is required and must be a valid string'),
 ];
 
+// Session validation
+export const sessionParamValidation = [
+  param('sessionId')
+    .isUUID()
+    .withMessage('Session ID must be a valid UUID'),
+];
+
 // Refresh token validation
 export const refreshTokenValidation = [
   body('refreshToken')
@@ -188,3 +274,772 @@ export const refreshTokenValidation = [
     .isLength({ min: 1 })
     .withMessage('Refresh token is required'),
 ];
+
+// Event validation schemas
+const EVENT_SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const EVENT_STATUSES = ['DRAFT', 'OPEN', 'CLOSED', 'ARCHIVED'];
+
+export const createEventValidation = [
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Event name must be between 2 and 100 characters'),
+
+  body('slug')
+    .trim()
+    .isLength({ min: 2, max: 60 })
+    .withMessage('Event slug must be between 2 and 60 characters')
+    .matches(EVENT_SLUG_PATTERN)
+    .withMessage('Event slug can only contain lowercase letters, numbers, and single hyphens'),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('Event description is too long'),
+
+  body('submissionOpensAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Submission opening time must be a valid ISO 8601 date'),
+
+  body('submissionClosesAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Submission closing time must be a valid ISO 8601 date')
+    .custom((value, { req }) => !req.body.submissionOpensAt || new Date(value) > new Date(req.body.submissionOpensAt))
+    .withMessage('Submission closing time must be after the opening time'),
+
+  body('gracePeriodMinutes')
+    .optional()
+    .isInt({ min: 0, max: 10080 })
+    .withMessage('Grace period must be between 0 and 10080 minutes')
+    .toInt(),
+
+  body('status')
+    .optional()
+    .isIn(EVENT_STATUSES)
+    .withMessage('Status must be one of: DRAFT, OPEN, CLOSED, ARCHIVED'),
+];
+
+export const updateEventValidation = [
+  param('slug')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Event slug is required'),
+
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Event name must be between 2 and 100 characters'),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('Event description is too long'),
+
+  body('submissionOpensAt')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Submission opening time must be a valid ISO 8601 date'),
+
+  body('submissionClosesAt')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Submission closing time must be a valid ISO 8601 date'),
+
+  body('gracePeriodMinutes')
+    .optional({ values: 'null' })
+    .isInt({ min: 0, max: 10080 })
+    .withMessage('Grace period must be between 0 and 10080 minutes')
+    .toInt(),
+
+  body('status')
+    .optional()
+    .isIn(EVENT_STATUSES)
+    .withMessage('Status must be one of: DRAFT, OPEN, CLOSED, ARCHIVED'),
+];
+
+export const slugParamValidation = [
+  param('slug')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Event slug is required'),
+];
+
+// Rubric validation schemas
+export const createRubricValidation = [
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Rubric name must be between 2 and 100 characters'),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Rubric description is too long'),
+
+  body('criteria')
+    .isArray({ min: 1, max: 20 })
+    .withMessage('Rubric must have between 1 and 20 criteria'),
+
+  body('criteria.*.name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Criterion name must be between 2 and 100 characters'),
+
+  body('criteria.*.description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Criterion description is too long'),
+
+  body('criteria.*.weight')
+    .isFloat({ gt: 0, max: 100 })
+    .withMessage('Criterion weight must be a positive number up to 100')
+    .toFloat(),
+
+  body('criteria.*.maxScore')
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Criterion max score must be an integer between 1 and 100')
+    .toInt(),
+];
+
+export const updateRubricValidation = [
+  param('id')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Rubric ID is required'),
+
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Rubric name must be between 2 and 100 characters'),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Rubric description is too long'),
+
+  body('criteria')
+    .optional()
+    .isArray({ min: 1, max: 20 })
+    .withMessage('Rubric must have between 1 and 20 criteria'),
+
+  body('criteria.*.name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Criterion name must be between 2 and 100 characters'),
+
+  body('criteria.*.description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Criterion description is too long'),
+
+  body('criteria.*.weight')
+    .isFloat({ gt: 0, max: 100 })
+    .withMessage('Criterion weight must be a positive number up to 100')
+    .toFloat(),
+
+  body('criteria.*.maxScore')
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Criterion max score must be an integer between 1 and 100')
+    .toInt(),
+];
+
+// Score validation schemas
+export const upsertScoresValidation = [
+  param('id')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Submission ID is required'),
+
+  body('scores')
+    .isArray({ min: 1, max: 20 })
+    .withMessage('Scores must be a non-empty array'),
+
+  body('scores.*.criterionId')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Each score must reference a criterion'),
+
+  body('scores.*.value')
+    .isFloat({ min: 0 })
+    .withMessage('Score value must be a non-negative number')
+    .toFloat(),
+
+  body('scores.*.comment')
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('Score comment is too long'),
+];
+
+// Judge assignment validation schemas
+export const autoAssignValidation = [
+  body('eventId')
+    .optional()
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Event ID must be a valid string'),
+
+  body('judgesPerSubmission')
+    .optional()
+    .isInt({ min: 1, max: 10 })
+    .withMessage('Judges per submission must be between 1 and 10')
+    .toInt(),
+
+  body('submissionIds')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Submission IDs must be a non-empty array'),
+
+  body('submissionIds.*')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Each submission ID must be a valid string'),
+];
+
+export const createAssignmentValidation = [
+  body('submissionId')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Submission ID is required'),
+
+  body('judgeId')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Judge ID is required'),
+];
+
+export const reassignValidation = [
+  param('id')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Assignment ID is required'),
+
+  body('judgeId')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Judge ID is required'),
+];
+
+export const assignmentQueryValidation = [
+  query('submissionId')
+    .optional()
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Submission ID must be a valid string'),
+
+  query('judgeId')
+    .optional()
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Judge ID must be a valid string'),
+];
+
+// Leaderboard validation schemas
+const TIE_BREAK_PATTERN = /^(rawScore|judgeCount|submittedAt|teamName)(,(rawScore|judgeCount|submittedAt|teamName))*$/;
+
+export const leaderboardQueryValidation = [
+  query('mode')
+    .optional()
+    .isIn(['live', 'published'])
+    .withMessage('Mode must be live or published'),
+
+  query('tieBreak')
+    .optional()
+    .matches(TIE_BREAK_PATTERN)
+    .withMessage('Tie-break must be a comma separated list of rawScore, judgeCount, submittedAt, teamName'),
+];
+
+export const freezeLeaderboardValidation = [
+  body('tieBreak')
+    .optional()
+    .isString()
+    .matches(TIE_BREAK_PATTERN)
+    .withMessage('Tie-break must be a comma separated list of rawScore, judgeCount, submittedAt, teamName'),
+];
+
+// Deadline extension validation schemas
+export const grantExtensionValidation = [
+  body('email')
+    .isEmail()
+    .withMessage('Please provide a valid email address')
+    .normalizeEmail()
+    .isLength({ max: 255 })
+    .withMessage('Email address is too long'),
+
+  body('extendedUntil')
+    .isISO8601()
+    .withMessage('Extended deadline must be a valid ISO 8601 date')
+    .custom(value => new Date(value) > new Date())
+    .withMessage('Extended deadline must be in the future'),
+
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason is too long'),
+];
+
+// Participant self-service validation schemas
+export const requestMagicLinkValidation = [
+  body('email')
+    .isEmail()
+    .withMessage('Please provide a valid email address')
+    .normalizeEmail()
+    .isLength({ max: 255 })
+    .withMessage('Email address is too long'),
+];
+
+export const verifyMagicLinkValidation = [
+  body('token')
+    .isString()
+    .isLength({ min: 64, max: 64 })
+    .withMessage('Access token is invalid'),
+];
+
+export const participantUpdateSubmissionValidation = [
+  body('email')
+    .not()
+    .exists()
+    .withMessage('Email cannot be changed. Please contact the organizers'),
+
+  body('status')
+    .not()
+    .exists()
+    .withMessage('Status cannot be changed by participants'),
+
+  body('teamName')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Team name must be between 2 and 100 characters')
+    .matches(/^[a-zA-Z0-9\s\-_\.]+$/)
+    .withMessage('Team name can only contain letters, numbers, spaces, hyphens, underscores, and dots'),
+
+  body('teamLeader')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Team leader name must be between 2 and 100 characters')
+    .matches(/^[a-zA-Z\s\-\.]+$/)
+    .withMessage('Team leader name can only contain letters, spaces, hyphens, and dots'),
+
+  body('demoUrl')
+    .optional()
+    .isURL({ require_protocol: true })
+    .withMessage('Demo URL must be a valid URL with protocol (http/https)')
+    .isLength({ max: 500 })
+    .withMessage('Demo URL is too long'),
+
+  body('githubRepository')
+    .optional()
+    .isURL({ require_protocol: true })
+    .withMessage('GitHub repository must be a valid URL')
+    .matches(/^https:\/\/github\.com\/[\w\-\.]+\/[\w\-\.]+\/?$/)
+    .withMessage('GitHub repository must be a valid GitHub URL')
+    .isLength({ max: 500 })
+    .withMessage('GitHub repository URL is too long'),
+
+  body('presentationLink')
+    .optional()
+    .isURL({ require_protocol: true })
+    .withMessage('Presentation link must be a valid URL')
+    .isLength({ max: 500 })
+    .withMessage('Presentation link is too long'),
+
+  ...teamMembersValidation(body('members').optional()),
+];
+
+// Submission revision validation schemas
+export const revisionDiffValidation = [
+  param('id')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Submission ID is required'),
+
+  query('from')
+    .isInt({ min: 1 })
+    .withMessage('From must be a revision number'),
+
+  query('to')
+    .isInt({ min: 1 })
+    .withMessage('To must be a revision number'),
+];
+
+export const restoreRevisionValidation = [
+  param('id')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Submission ID is required'),
+
+  param('revision')
+    .isInt({ min: 1 })
+    .withMessage('Revision must be a revision number'),
+];
+
+// Submission comment validation schemas
+export const createCommentValidation = [
+  param('id')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Submission ID is required'),
+
+  body('body')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 5000 })
+    .withMessage('Comment must be between 1 and 5000 characters'),
+
+  body('visibility')
+    .optional()
+    .isIn(['INTERNAL', 'TEAM'])
+    .withMessage('Visibility must be INTERNAL or TEAM'),
+
+  body('parentId')
+    .optional()
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Parent comment ID must be a string'),
+];
+
+export const commentParamValidation = [
+  param('id')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Submission ID is required'),
+
+  param('commentId')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Comment ID is required'),
+];
+
+// Notification validation schemas
+export const notificationQueryValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+
+  query('status')
+    .optional()
+    .isIn(['PENDING', 'SENT', 'FAILED'])
+    .withMessage('Status must be one of: PENDING, SENT, FAILED'),
+];
+
+// Webhook validation schemas
+const webhookFieldsValidation = (optional: boolean) => {
+  const field = (chain: ReturnType<typeof body>) => (optional ? chain.optional() : chain);
+
+  return [
+    field(body('url'))
+      .isURL({ protocols: ['http', 'https'], require_protocol: true, require_tld: config.nodeEnv === 'production' })
+      .withMessage('Webhook URL must be a valid http(s) URL'),
+
+    field(body('eventTypes'))
+      .isArray({ min: 1 })
+      .withMessage('At least one event type is required'),
+
+    body('eventTypes.*')
+      .isIn(WEBHOOK_EVENT_TYPES)
+      .withMessage(`Event type must be one of: ${WEBHOOK_EVENT_TYPES.join(', ')}`),
+
+    body('secret')
+      .optional()
+      .isString()
+      .isLength({ min: 16, max: 256 })
+      .withMessage('Secret must be between 16 and 256 characters'),
+
+    body('description')
+      .optional({ values: 'null' })
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage('Description cannot exceed 500 characters'),
+
+    body('isActive')
+      .optional()
+      .isBoolean()
+      .withMessage('isActive must be a boolean')
+      .toBoolean(),
+  ];
+};
+
+export const createWebhookValidation = webhookFieldsValidation(false);
+
+export const updateWebhookValidation = [
+  param('id')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Webhook ID is required'),
+
+  ...webhookFieldsValidation(true),
+];
+
+export const webhookDeliveryQueryValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+
+  query('status')
+    .optional()
+    .isIn(['PENDING', 'SUCCEEDED', 'FAILED'])
+    .withMessage('Status must be one of: PENDING, SUCCEEDED, FAILED'),
+];
+
+export const webhookDeliveryParamValidation = [
+  param('id')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Webhook ID is required'),
+
+  param('deliveryId')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Delivery ID is required'),
+];
+
+// API key validation schemas
+export const createApiKeyValidation = [
+  body('name')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be between 1 and 100 characters'),
+
+  body('scopes')
+    .isArray({ min: 1 })
+    .withMessage('At least one scope is required'),
+
+  body('scopes.*')
+    .isIn(API_KEY_SCOPES)
+    .withMessage(`Scope must be one of: ${API_KEY_SCOPES.join(', ')}`),
+
+  body('expiresInDays')
+    .optional()
+    .isInt({ min: 1, max: MAX_API_KEY_EXPIRY_DAYS })
+    .withMessage(`expiresInDays must be between 1 and ${MAX_API_KEY_EXPIRY_DAYS}`)
+    .toInt(),
+];
+
+// Live stream validation schemas
+export const streamQueryValidation = [
+  query('lastEventId')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Last event ID must be a valid string'),
+];
+
+// Submission export validation schemas
+export const exportSubmissionsValidation = [
+  ...submissionQueryValidation,
+
+  query('format')
+    .optional()
+    .isIn(['csv', 'xlsx', 'ndjson'])
+    .withMessage('Format must be one of: csv, xlsx, ndjson'),
+
+  query('columns')
+    .optional()
+    .isString()
+    .custom(value => value.split(',').every((column: string) => column.trim() in SUBMISSION_EXPORT_COLUMNS))
+    .withMessage(`Columns must be a comma separated list of: ${Object.keys(SUBMISSION_EXPORT_COLUMNS).join(', ')}`),
+];
+
+// Submission import validation schemas
+export const importSubmissionsValidation = [
+  query('dryRun')
+    .optional()
+    .isBoolean()
+    .withMessage('dryRun must be a boolean'),
+
+  query('onDuplicate')
+    .optional()
+    .isIn(['skip', 'merge'])
+    .withMessage('onDuplicate must be either skip or merge'),
+];
+
+// Role validation schemas
+const rolePermissionsValidation = (optional: boolean) => {
+  const permissions = body('permissions');
+
+  return [
+    (optional ? permissions.optional() : permissions)
+      .isArray()
+      .withMessage('Permissions must be an array'),
+
+    body('permissions.*')
+      .isIn(PERMISSIONS)
+      .withMessage(`Permission must be one of: ${PERMISSIONS.join(', ')}`),
+
+    body('description')
+      .optional({ values: 'null' })
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage('Description cannot exceed 500 characters'),
+  ];
+};
+
+export const createRoleValidation = [
+  body('name')
+    .trim()
+    .matches(/^[a-z][a-z0-9_-]{1,49}$/)
+    .withMessage('Role name must be 2-50 lowercase letters, digits, hyphens or underscores, starting with a letter'),
+
+  ...rolePermissionsValidation(false),
+];
+
+export const updateRoleValidation = [
+  param('name')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Role name is required'),
+
+  ...rolePermissionsValidation(true),
+];
+
+export const roleParamValidation = [
+  param('name')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Role name is required'),
+];
+
+// Admin management validation schemas
+export const adminQueryValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+
+  query('role')
+    .optional()
+    .isString()
+    .withMessage('Role must be a string'),
+
+  query('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean'),
+
+  query('search')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Search term must be between 1 and 100 characters'),
+];
+
+export const inviteAdminValidation = [
+  body('email')
+    .isEmail()
+    .withMessage('Please provide a valid email address')
+    .normalizeEmail(),
+
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters'),
+
+  body('role')
+    .isString()
+    .trim()
+    .isLength({ min: 1 })
+    .withMessage('Role is required'),
+];
+
+export const changeAdminRoleValidation = [
+  param('id')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Admin ID is required'),
+
+  body('role')
+    .isString()
+    .trim()
+    .isLength({ min: 1 })
+    .withMessage('Role is required'),
+];
+
+export const setupPasswordValidation = [
+  body('token')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Setup token is required'),
+
+  body('newPassword')
+    .isLength({ min: 8 })
+    .withMessage('New password must be at least 8 characters long')
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[!@#$%^&*(),.?":{}|<>])/)
+    .withMessage('New password must contain at least one uppercase letter, one lowercase letter, one number, and one special character'),
+
+  body('confirmPassword')
+    .custom((value, { req }) => {
+      if (value !== req.body.newPassword) {
+        throw new Error('Password confirmation does not match new password');
+      }
+      return true;
+    }),
+];
+
+// Two-factor authentication validation schemas
+export const twoFactorLoginValidation = [
+  body('challengeToken')
+    .isString()
+    .isLength({ min: 1 })
+    .withMessage('Challenge token is required'),
+
+  body('code')
+    .optional()
+    .matches(/^\d{6}$/)
+    .withMessage('Code must be 6 digits'),
+
+  body('recoveryCode')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 32 })
+    .withMessage('Recovery code must be a string'),
+
+  body()
+    .custom(value => {
+      if (!value.code && !value.recoveryCode) {
+        throw new Error('Either a code or a recovery code is required');
+      }
+      return true;
+    }),
+];
+
+export const twoFactorEnableValidation = [
+  body('code')
+    .matches(/^\d{6}$/)
+    .withMessage('Code must be 6 digits'),
+];
+
+export const twoFactorDisableValidation = [
+  body('password')
+    .isLength({ min: 1 })
+    .withMessage('Password is required'),
+];